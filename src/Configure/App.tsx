@@ -0,0 +1,207 @@
+import React from "react";
+import * as teamsJs from "@microsoft/teams-js";
+import {
+  FluentProvider,
+  teamsDarkTheme,
+  teamsHighContrastTheme,
+  teamsLightTheme,
+  Badge,
+  Dropdown,
+  Field,
+  Input,
+  MessageBar,
+  MessageBarBody,
+  Option,
+  Spinner,
+  Text,
+} from "@fluentui/react-components";
+
+import { apiFetch, ensureOk, errorMessage } from "../shared/api";
+import { channelViewFromQuery, channelViewParams, type ChannelView } from "../shared/channelView";
+
+type TeamsTheme = "default" | "dark" | "contrast";
+
+type OrderStatus = "Submitted" | "Pending" | "Processing" | "Shipped" | "Delivered" | "Cancelled";
+
+interface Customer {
+  id: string;
+  name: string;
+}
+
+const ALL_STATUSES: OrderStatus[] = ["Submitted", "Pending", "Processing", "Shipped", "Delivered", "Cancelled"];
+
+const STATUS_APPEARANCE: Record<OrderStatus, "warning" | "informative" | "success" | "important"> = {
+  Submitted:  "informative",
+  Pending:    "warning",
+  Processing: "informative",
+  Shipped:    "success",
+  Delivered:  "success",
+  Cancelled:  "important",
+};
+
+const FLUENT_THEME: Record<TeamsTheme, typeof teamsLightTheme> = {
+  default:  teamsLightTheme,
+  dark:     teamsDarkTheme,
+  contrast: teamsHighContrastTheme,
+};
+
+// Option value of "any customer" in the customer dropdown
+const ANY_CUSTOMER = "";
+
+// Identifies what the tab shows; every instance shows the Home tab, filtered by its content URL
+const TAB_ENTITY_ID = "ordersView";
+
+/** Name Teams suggests for a new tab, e.g. "Orders: Fabrikam Inc., Processing". */
+function suggestedName(view: ChannelView, customers: Customer[]): string {
+  const customer = view.customerId ? customers.find((c) => c.id === view.customerId)?.name ?? view.customerId : undefined;
+  const parts = [customer, view.statuses.join(" or ")].filter(Boolean);
+  return parts.length ? `Orders: ${parts.join(", ")}` : "Orders";
+}
+
+/**
+ * Configuration page of the channel and group chat Orders tab. The installer
+ * picks the filters, and saving stores them in the tab's content URL, the
+ * Home tab's address with the filters as its query string.
+ */
+export default function App() {
+  const [theme, setTheme] = React.useState<TeamsTheme>("default");
+  // Set once teams-js connects; this page only does anything inside Teams
+  const [inTeams, setInTeams] = React.useState<boolean | null>(null);
+  const [customers, setCustomers] = React.useState<Customer[] | null>(null);
+  const [fetchError, setFetchError] = React.useState<string | null>(null);
+  const [view, setView] = React.useState<ChannelView>({ statuses: [] });
+
+  const rangeInvalid = !!view.dateFrom && !!view.dateTo && view.dateFrom > view.dateTo;
+
+  // The save handler is registered once and reads the latest choices from here
+  const latest = React.useRef({ view, customers: customers ?? [] });
+  latest.current = { view, customers: customers ?? [] };
+
+  React.useEffect(() => {
+    teamsJs.app.initialize()
+      .then(() => {
+        setInTeams(true);
+        teamsJs.app.getContext().then((ctx) => {
+          const t = (ctx.app.theme ?? "default") as TeamsTheme;
+          setTheme(t in FLUENT_THEME ? t : "default");
+        });
+        teamsJs.app.registerOnThemeChangeHandler((t) => {
+          setTheme(t in FLUENT_THEME ? (t as TeamsTheme) : "default");
+        });
+
+        // Reconfiguring an existing tab starts from the filters it was saved with
+        teamsJs.pages.getConfig()
+          .then((config) => {
+            const saved = config.contentUrl ? channelViewFromQuery(new URL(config.contentUrl).search) : null;
+            if (saved) setView(saved);
+          })
+          .catch(() => {/* a new tab has no configuration yet */});
+
+        teamsJs.pages.config.registerOnSaveHandler((saveEvent) => {
+          const { view: chosen, customers: known } = latest.current;
+          const contentUrl = new URL("/tabs/home", window.location.origin);
+          contentUrl.search = channelViewParams(chosen).toString();
+          teamsJs.pages.config
+            .setConfig({
+              entityId: TAB_ENTITY_ID,
+              contentUrl: contentUrl.toString(),
+              websiteUrl: contentUrl.toString(),
+              suggestedDisplayName: suggestedName(chosen, known),
+            })
+            .then(() => saveEvent.notifySuccess())
+            .catch((err: unknown) => saveEvent.notifyFailure(errorMessage(err)));
+        });
+      })
+      .catch(() => setInTeams(false));
+  }, []);
+
+  React.useEffect(() => {
+    apiFetch("/api/customers")
+      .then(ensureOk)
+      .then((r) => r.json() as Promise<Customer[]>)
+      .then((list) => setCustomers(list.map(({ id, name }) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name))))
+      .catch((err: unknown) => setFetchError(`Could not load customers: ${errorMessage(err)}`));
+  }, []);
+
+  // Teams enables Save only while the page reports a valid choice
+  React.useEffect(() => {
+    if (inTeams) teamsJs.pages.config.setValidityState(!rangeInvalid && customers !== null);
+  }, [inTeams, rangeInvalid, customers]);
+
+  const selectedCustomer = customers?.find((c) => c.id === view.customerId);
+
+  return (
+    <FluentProvider theme={FLUENT_THEME[theme]} style={{ minHeight: "100vh", padding: "1.5rem" }}>
+      <Text as="h1" size={600} weight="semibold" block style={{ margin: "0 0 0.5rem" }}>
+        Orders tab
+      </Text>
+      <Text block style={{ marginBottom: "1rem" }}>
+        Choose which orders this tab shows. Everyone here sees the same view and can narrow it further.
+      </Text>
+
+      {inTeams === false && (
+        <MessageBar intent="info" style={{ marginBottom: "1rem" }}>
+          <MessageBarBody>This page configures the Orders tab when it is added to a channel or chat in Teams.</MessageBarBody>
+        </MessageBar>
+      )}
+
+      {fetchError && (
+        <MessageBar intent="error" style={{ marginBottom: "1rem" }}>
+          <MessageBarBody>{fetchError}</MessageBarBody>
+        </MessageBar>
+      )}
+
+      {!customers ? (
+        !fetchError && <Spinner label="Loading customers…" />
+      ) : (
+        <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem", maxWidth: "420px" }}>
+          <Field label="Customer">
+            <Dropdown
+              value={selectedCustomer?.name ?? view.customerId ?? "All customers"}
+              selectedOptions={[view.customerId ?? ANY_CUSTOMER]}
+              onOptionSelect={(_e, data) => setView((v) => ({ ...v, customerId: data.optionValue || undefined }))}
+            >
+              <Option value={ANY_CUSTOMER}>All customers</Option>
+              {customers.map((c) => (
+                <Option key={c.id} value={c.id}>{c.name}</Option>
+              ))}
+            </Dropdown>
+          </Field>
+          <Field label="Status">
+            <Dropdown
+              multiselect
+              placeholder="All statuses"
+              selectedOptions={view.statuses}
+              onOptionSelect={(_e, data) => setView((v) => ({ ...v, statuses: data.selectedOptions }))}
+            >
+              {ALL_STATUSES.map((s) => (
+                <Option key={s} value={s} checkIcon={<Badge appearance="tint" color={STATUS_APPEARANCE[s]} shape="rounded" style={{ fontSize: "0.7rem" }}>{s}</Badge>}>
+                  {s}
+                </Option>
+              ))}
+            </Dropdown>
+          </Field>
+          <div style={{ display: "flex", gap: "1rem" }}>
+            <Field label="Dated from">
+              <Input
+                type="date"
+                value={view.dateFrom ?? ""}
+                onChange={(_e, d) => setView((v) => ({ ...v, dateFrom: d.value || undefined }))}
+              />
+            </Field>
+            <Field
+              label="Until"
+              validationMessage={rangeInvalid ? "Must not be before the start date" : undefined}
+            >
+              <Input
+                type="date"
+                value={view.dateTo ?? ""}
+                onChange={(_e, d) => setView((v) => ({ ...v, dateTo: d.value || undefined }))}
+              />
+            </Field>
+          </div>
+        </div>
+      )}
+    </FluentProvider>
+  );
+}
@@ -9,7 +9,8 @@ import {
   Spinner,
   MessageBar,
   MessageBarBody,
-  Badge,
+  MessageBarTitle,
+  MessageBarActions,
   Text,
   Table,
   TableHeader,
@@ -23,6 +24,7 @@ import {
   type TableColumnDefinition,
   createTableColumn,
   Label,
+  Link,
   Dialog,
   DialogSurface,
   DialogTitle,
@@ -33,134 +35,271 @@ import {
   Field,
   type DialogOpenChangeData,
 } from "@fluentui/react-components";
-import { SearchRegular, EditRegular, OpenRegular } from "@fluentui/react-icons";
+import { AddRegular, DeleteRegular, EditRegular, OpenRegular, SearchRegular } from "@fluentui/react-icons";
+
+import { ApiError, apiFetch, ensureOk, errorMessage } from "../shared/api";
+import { CopyLinkButton } from "../shared/CopyLinkButton";
+import { useCurrentUser } from "../shared/currentUser";
+import { linkedItemFromUrl, tabDeepLink, type DeepLinkTab } from "../shared/deepLinks";
+import { ExportMenu } from "../shared/ExportMenu";
+import { subscribeOrderEvents } from "../shared/orderEvents";
+import { CustomerDetail } from "./CustomerDetail";
 
 type TeamsTheme = "default" | "dark" | "contrast";
 
 type OrderStatus = "Submitted" | "Pending" | "Processing" | "Shipped" | "Delivered" | "Cancelled";
 
-const STATUS_APPEARANCE: Record<OrderStatus, "warning" | "informative" | "success" | "important"> = {
-  Submitted:  "informative",
-  Pending:    "warning",
-  Processing: "informative",
-  Shipped:    "success",
-  Delivered:  "success",
-  Cancelled:  "important",
-};
-
 interface Order {
   id: string;
+  customerId: string;
   customer: string;
   amount: number;
   status: OrderStatus;
   date: string;
+  etag: string;
 }
 
-interface CustomerSummary {
-  customer: string;
-  totalAmount: number;
+interface BillingAddress {
+  street: string;
+  city: string;
+  postalCode: string;
+  country: string;
+}
+
+interface Customer {
+  id: string;
+  name: string;
+  email?: string;
+  billingAddress?: BillingAddress;
+  accountOwner?: string;
+  etag: string;
+}
+
+/** A customer as listed by `GET /api/customers`, with totals over their live orders. */
+interface CustomerWithStats extends Customer {
   orderCount: number;
-  latestOrderDate: string;
+  totalAmount: number;
+  latestOrderDate?: string;
 }
 
+/** The edit form's fields, all as plain text. */
+interface CustomerDraft {
+  name: string;
+  email: string;
+  accountOwner: string;
+  street: string;
+  city: string;
+  postalCode: string;
+  country: string;
+}
+
+const ADDRESS_FIELDS = ["street", "city", "postalCode", "country"] as const;
+
 const FLUENT_THEME: Record<TeamsTheme, typeof teamsLightTheme> = {
   default:  teamsLightTheme,
   dark:     teamsDarkTheme,
   contrast: teamsHighContrastTheme,
 };
 
-const columns: TableColumnDefinition<CustomerSummary>[] = [
-  createTableColumn<CustomerSummary>({ columnId: "customer",        compare: (a, b) => a.customer.localeCompare(b.customer) }),
-  createTableColumn<CustomerSummary>({ columnId: "orderCount",      compare: (a, b) => a.orderCount - b.orderCount }),
-  createTableColumn<CustomerSummary>({ columnId: "totalAmount",     compare: (a, b) => a.totalAmount - b.totalAmount }),
-  createTableColumn<CustomerSummary>({ columnId: "latestOrderDate", compare: (a, b) => a.latestOrderDate.localeCompare(b.latestOrderDate) }),
+const columns: TableColumnDefinition<CustomerWithStats>[] = [
+  createTableColumn<CustomerWithStats>({ columnId: "name",            compare: (a, b) => a.name.localeCompare(b.name) }),
+  createTableColumn<CustomerWithStats>({ columnId: "accountOwner",    compare: (a, b) => (a.accountOwner ?? "").localeCompare(b.accountOwner ?? "") }),
+  createTableColumn<CustomerWithStats>({ columnId: "orderCount",      compare: (a, b) => a.orderCount - b.orderCount }),
+  createTableColumn<CustomerWithStats>({ columnId: "totalAmount",     compare: (a, b) => a.totalAmount - b.totalAmount }),
+  createTableColumn<CustomerWithStats>({ columnId: "latestOrderDate", compare: (a, b) => (a.latestOrderDate ?? "").localeCompare(b.latestOrderDate ?? "") }),
 ];
 
 const COLUMN_LABELS: Record<string, string> = {
-  customer:        "Customer",
+  name:            "Customer",
+  accountOwner:    "Account Owner",
   orderCount:      "Orders",
   totalAmount:     "Total Amount",
   latestOrderDate: "Latest Order",
 };
 
-function aggregateOrders(orders: Order[]): CustomerSummary[] {
-  const map = new Map<string, CustomerSummary>();
-  for (const order of orders) {
-    const existing = map.get(order.customer);
-    if (existing) {
-      existing.totalAmount += order.amount;
-      existing.orderCount += 1;
-      if (order.date > existing.latestOrderDate) {
-        existing.latestOrderDate = order.date;
-      }
-    } else {
-      map.set(order.customer, {
-        customer: order.customer,
-        totalAmount: order.amount,
-        orderCount: 1,
-        latestOrderDate: order.date,
-      });
-    }
-  }
-  return Array.from(map.values());
+/** Deep links open a customer's detail view; outside Teams as `?customer=CUST-007`. */
+const CUSTOMERS_TAB: DeepLinkTab = { entityId: "index1", param: "customer" };
+
+// Order events arrive in bursts (e.g. a purge), so the totals are refreshed once things settle
+const STATS_REFRESH_DELAY = 500;
+
+const toDraft = (c?: Customer): CustomerDraft => ({
+  name: c?.name ?? "",
+  email: c?.email ?? "",
+  accountOwner: c?.accountOwner ?? "",
+  street: c?.billingAddress?.street ?? "",
+  city: c?.billingAddress?.city ?? "",
+  postalCode: c?.billingAddress?.postalCode ?? "",
+  country: c?.billingAddress?.country ?? "",
+});
+
+/** Request body for a draft; blank optional fields are cleared (`null`). */
+function toProfile(draft: CustomerDraft) {
+  const hasAddress = ADDRESS_FIELDS.some((f) => draft[f].trim());
+  return {
+    name: draft.name.trim(),
+    email: draft.email.trim() || null,
+    accountOwner: draft.accountOwner.trim() || null,
+    billingAddress: hasAddress
+      ? { street: draft.street.trim(), city: draft.city.trim(), postalCode: draft.postalCode.trim(), country: draft.country.trim() }
+      : null,
+  };
 }
 
 export default function App() {
   const [theme, setTheme] = React.useState<TeamsTheme>("default");
-  const [customers, setCustomers] = React.useState<CustomerSummary[]>([]);
-  const [allOrders, setAllOrders] = React.useState<Order[]>([]);
+  const [customers, setCustomers] = React.useState<CustomerWithStats[]>([]);
+  // Bumped to refetch everything, e.g. after the event stream lost events
+  const [reloadKey, setReloadKey] = React.useState(0);
   const [loading, setLoading] = React.useState(true);
   const [fetchError, setFetchError] = React.useState<string | null>(null);
   const [filter, setFilter] = React.useState("");
+  const { can } = useCurrentUser();
 
-  // Edit customer dialog
-  const [editCustomer, setEditCustomer] = React.useState<CustomerSummary | null>(null);
-  const [editName, setEditName] = React.useState("");
+  // New / edit customer dialog; `editCustomer` is null while creating
+  const [formOpen, setFormOpen] = React.useState(false);
+  const [editCustomer, setEditCustomer] = React.useState<Customer | null>(null);
+  const [draft, setDraft] = React.useState<CustomerDraft>(toDraft());
   const [saving, setSaving] = React.useState(false);
   const [saveError, setSaveError] = React.useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = React.useState<Record<string, string>>({});
+  // Newer server copy of the customer when saving hit a 412
+  const [conflict, setConflict] = React.useState<Customer | null>(null);
+
+  // Delete confirmation
+  const [deleteTarget, setDeleteTarget] = React.useState<CustomerWithStats | null>(null);
+  const [deleting, setDeleting] = React.useState(false);
+  const [deleteError, setDeleteError] = React.useState<string | null>(null);
 
-  // View orders dialog
-  const [ordersCustomer, setOrdersCustomer] = React.useState<CustomerSummary | null>(null);
+  const [exportError, setExportError] = React.useState<string | null>(null);
 
-  const openEdit = (c: CustomerSummary) => {
+  // Customer shown in the detail view instead of the table, from the table or a deep link
+  const [detailId, setDetailId] = React.useState<string | null>(null);
+  // Bumped when the detail view's figures may be stale
+  const [detailReloadKey, setDetailReloadKey] = React.useState(0);
+
+  /** Replaces the profile of a listed customer (keeping its totals), or adds a new one. */
+  const upsertCustomer = (customer: Customer) => {
+    setDetailReloadKey((k) => k + 1);
+    setCustomers((prev) => {
+      const existing = prev.find((c) => c.id === customer.id);
+      const merged = { orderCount: 0, totalAmount: 0, ...existing, ...customer };
+      return existing ? prev.map((c) => (c.id === customer.id ? merged : c)) : [...prev, merged];
+    });
+  };
+
+  const openNew = () => {
+    setEditCustomer(null);
+    setDraft(toDraft());
+    setFormOpen(true);
+  };
+
+  const openEdit = (c: Customer) => {
     setEditCustomer(c);
-    setEditName(c.customer);
+    setDraft(toDraft(c));
+    setFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setFormOpen(false);
+    setEditCustomer(null);
     setSaveError(null);
+    setFieldErrors({});
+    setConflict(null);
+  };
+
+  // Starts over from the newer copy, dropping the local edits
+  const handleReload = () => {
+    if (!conflict) return;
+    setEditCustomer(conflict);
+    setDraft(toDraft(conflict));
+    setConflict(null);
   };
-  const closeEdit = () => { setEditCustomer(null); setSaveError(null); };
 
-  const handleSaveCustomer = async () => {
-    if (!editCustomer || !editName.trim()) return;
+  // `overwrite` skips the version check and replaces whatever is stored now
+  const handleSave = async (overwrite = false) => {
+    if (!draft.name.trim()) return;
     setSaving(true);
     setSaveError(null);
+    setFieldErrors({});
     try {
-      const res = await fetch(`/api/customers/${encodeURIComponent(editCustomer.customer)}`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ newName: editName.trim() }),
-      });
-      if (!res.ok) throw new Error(`HTTP ${res.status}`);
-      const newName = editName.trim();
-      setAllOrders((prev) => prev.map((o) => o.customer === editCustomer.customer ? { ...o, customer: newName } : o));
-      setCustomers((prev) =>
-        prev.map((c) =>
-          c.customer === editCustomer.customer ? { ...c, customer: newName } : c
-        )
-      );
-      closeEdit();
+      const res = await ensureOk(await apiFetch(editCustomer ? `/api/customers/${editCustomer.id}` : "/api/customers", {
+        method: editCustomer ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(editCustomer ? { "If-Match": overwrite ? "*" : editCustomer.etag } : {}),
+        },
+        body: JSON.stringify(toProfile(draft)),
+      }));
+      upsertCustomer(await res.json());
+      closeForm();
     } catch (err) {
-      setSaveError(String(err));
+      if (err instanceof ApiError && err.status === 412 && err.problem.current) {
+        const current = err.problem.current as Customer;
+        setConflict(current);
+        upsertCustomer(current);
+      } else {
+        setConflict(null);
+        setSaveError(errorMessage(err));
+        if (err instanceof ApiError) setFieldErrors(err.fieldErrors);
+      }
     } finally {
       setSaving(false);
     }
   };
 
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    setDeleting(true);
+    setDeleteError(null);
+    try {
+      await ensureOk(await apiFetch(`/api/customers/${deleteTarget.id}`, {
+        method: "DELETE",
+        headers: { "If-Match": deleteTarget.etag },
+      }));
+      setCustomers((prev) => prev.filter((c) => c.id !== deleteTarget.id));
+      setDeleteTarget(null);
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 412 && err.problem.current) {
+        upsertCustomer(err.problem.current as Customer);
+        setDeleteError("This customer was changed by someone else. Check the details and try again.");
+        setDeleteTarget(null);
+      } else {
+        setDeleteError(errorMessage(err));
+      }
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  // Set once teams-js connects; outside Teams deep links live in the address bar instead
+  const inTeams = React.useRef(false);
+  // ID of this app in Teams, which its deep links are addressed to
+  const teamsAppId = React.useRef<string | undefined>(undefined);
+
+  /** Shows a customer's detail view; outside Teams the address bar follows so the page can be shared. */
+  const openDetail = (id: string | null) => {
+    setDetailId(id);
+    if (!inTeams.current) {
+      const url = new URL(window.location.href);
+      if (id) url.searchParams.set(CUSTOMERS_TAB.param, id);
+      else url.searchParams.delete(CUSTOMERS_TAB.param);
+      window.history.replaceState(null, "", url);
+    }
+  };
+
   React.useEffect(() => {
+    const linked = linkedItemFromUrl(CUSTOMERS_TAB);
+    if (linked) setDetailId(linked);
     teamsJs.app.initialize()
       .then(() => {
+        inTeams.current = true;
         teamsJs.app.getContext().then((ctx) => {
           const t = (ctx.app.theme ?? "default") as TeamsTheme;
           setTheme(t in FLUENT_THEME ? t : "default");
+          teamsAppId.current = ctx.app.appId?.toString();
+          // Teams deep links carry the customer ID as their subEntityId, which arrives as the page's subPageId
+          if (ctx.page.subPageId) setDetailId(ctx.page.subPageId);
         });
         teamsJs.app.registerOnThemeChangeHandler((t) => {
           setTheme(t in FLUENT_THEME ? (t as TeamsTheme) : "default");
@@ -172,43 +311,71 @@ export default function App() {
   React.useEffect(() => {
     setLoading(true);
     setFetchError(null);
-    fetch("/api/orders")
-      .then((r) => {
-        if (!r.ok) throw new Error(`HTTP ${r.status}`);
-        return r.json() as Promise<Order[]>;
-      })
-      .then((data) => {
-        setAllOrders(data);
-        setCustomers(aggregateOrders(data));
-      })
-      .catch((err: unknown) => setFetchError(String(err)))
+    apiFetch("/api/customers")
+      .then(ensureOk)
+      .then((r) => r.json() as Promise<CustomerWithStats[]>)
+      .then(setCustomers)
+      .catch((err: unknown) => setFetchError(errorMessage(err)))
       .finally(() => setLoading(false));
+  }, [reloadKey]);
+
+  // SSE – profile changes are applied directly; order changes only move the totals, which are re-read
+  React.useEffect(() => {
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+    const refreshStats = () => {
+      clearTimeout(refreshTimer);
+      refreshTimer = setTimeout(() => {
+        setDetailReloadKey((k) => k + 1);
+        apiFetch("/api/customers")
+          .then(ensureOk)
+          .then((r) => r.json() as Promise<CustomerWithStats[]>)
+          .then(setCustomers)
+          .catch(() => {/* keep the current totals; the next event retries */});
+      }, STATS_REFRESH_DELAY);
+    };
+    const unsubscribe = subscribeOrderEvents<Order, Customer>({
+      "order.created": refreshStats,
+      "order.updated": refreshStats,
+      "order.deleted": refreshStats,
+      "order.restored": refreshStats,
+      "customer.created": upsertCustomer,
+      "customer.updated": upsertCustomer,
+      "customer.deleted": ({ id }) => setCustomers((prev) => prev.filter((c) => c.id !== id)),
+      reset: () => setReloadKey((k) => k + 1),
+    });
+    return () => {
+      clearTimeout(refreshTimer);
+      unsubscribe();
+    };
   }, []);
 
   const filtered = React.useMemo(
-    () =>
-      customers.filter(
+    () => {
+      const needle = filter.toLowerCase();
+      return customers.filter(
         (c) =>
-          filter === "" ||
-          c.customer.toLowerCase().includes(filter.toLowerCase())
-      ),
+          needle === "" ||
+          c.name.toLowerCase().includes(needle) ||
+          (c.accountOwner ?? "").toLowerCase().includes(needle)
+      );
+    },
     [customers, filter]
   );
 
   const {
     getRows,
-    sort: { getSortDirection, toggleColumnSort, sort },
+    sort: { getSortDirection, toggleColumnSort, sort, sortColumn, sortDirection },
   } = useTableFeatures(
     { columns, items: filtered },
-    [useTableSort({ defaultSortState: { sortColumn: "customer", sortDirection: "ascending" } })]
+    [useTableSort({ defaultSortState: { sortColumn: "name", sortDirection: "ascending" } })]
   );
 
   const rows = sort(getRows());
 
-  const customerOrders = React.useMemo(
-    () => ordersCustomer ? allOrders.filter((o) => o.customer === ordersCustomer.customer) : [],
-    [allOrders, ordersCustomer]
-  );
+  // The export applies the same search and sort on the server
+  const exportParams = new URLSearchParams();
+  if (filter.trim()) exportParams.set("search", filter.trim());
+  if (sortColumn) exportParams.set("sort", `${sortDirection === "descending" ? "-" : ""}${String(sortColumn)}`);
 
   return (
     <FluentProvider theme={FLUENT_THEME[theme]} style={{ minHeight: "100vh", padding: "1.5rem" }}>
@@ -216,15 +383,15 @@ export default function App() {
         Customers
       </Text>
 
-      {/* ── Edit customer dialog ── */}
+      {/* ── New / edit customer dialog ── */}
       <Dialog
-        open={!!editCustomer}
+        open={formOpen}
         onOpenChange={(_e: React.SyntheticEvent, data: DialogOpenChangeData) => {
-          if (!data.open) closeEdit();
+          if (!data.open) closeForm();
         }}
       >
         <DialogSurface>
-          <DialogTitle>Edit Customer</DialogTitle>
+          <DialogTitle>{editCustomer ? `Edit ${editCustomer.id}` : "New Customer"}</DialogTitle>
           <DialogBody>
             <DialogContent>
               {saveError && (
@@ -232,28 +399,85 @@ export default function App() {
                   <MessageBarBody>{saveError}</MessageBarBody>
                 </MessageBar>
               )}
+              {conflict && (
+                <MessageBar intent="warning" layout="multiline" style={{ marginBottom: "0.75rem" }}>
+                  <MessageBarBody>
+                    <MessageBarTitle>This customer changed</MessageBarTitle>
+                    {conflict.name} was changed by someone else after you opened it. Reload their changes or overwrite them?
+                  </MessageBarBody>
+                  <MessageBarActions>
+                    <Button onClick={handleReload} disabled={saving}>Reload</Button>
+                    <Button onClick={() => handleSave(true)} disabled={saving}>Overwrite</Button>
+                  </MessageBarActions>
+                </MessageBar>
+              )}
               <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
-                <Field label="Customer Name" required>
+                <Field
+                  label="Customer Name"
+                  required
+                  validationMessage={fieldErrors.name}
+                  hint={editCustomer && !can("customers.rename") ? "Your role can't rename customers." : undefined}
+                >
                   <Input
-                    value={editName}
-                    onChange={(_e, d) => setEditName(d.value)}
+                    value={draft.name}
+                    disabled={!!editCustomer && !can("customers.rename")}
+                    onChange={(_e, d) => setDraft((p) => ({ ...p, name: d.value }))}
                     autoFocus
                   />
                 </Field>
+                <Field label="Email" validationMessage={fieldErrors.email}>
+                  <Input
+                    type="email"
+                    value={draft.email}
+                    onChange={(_e, d) => setDraft((p) => ({ ...p, email: d.value }))}
+                  />
+                </Field>
+                <Field label="Account Owner" validationMessage={fieldErrors.accountOwner}>
+                  <Input
+                    value={draft.accountOwner}
+                    onChange={(_e, d) => setDraft((p) => ({ ...p, accountOwner: d.value }))}
+                  />
+                </Field>
+                <Field label="Street" validationMessage={fieldErrors["billingAddress.street"] ?? fieldErrors.billingAddress}>
+                  <Input
+                    value={draft.street}
+                    onChange={(_e, d) => setDraft((p) => ({ ...p, street: d.value }))}
+                  />
+                </Field>
+                <div style={{ display: "flex", gap: "0.75rem" }}>
+                  <Field label="Postal Code" validationMessage={fieldErrors["billingAddress.postalCode"]} style={{ flex: 1 }}>
+                    <Input
+                      value={draft.postalCode}
+                      onChange={(_e, d) => setDraft((p) => ({ ...p, postalCode: d.value }))}
+                    />
+                  </Field>
+                  <Field label="City" validationMessage={fieldErrors["billingAddress.city"]} style={{ flex: 2 }}>
+                    <Input
+                      value={draft.city}
+                      onChange={(_e, d) => setDraft((p) => ({ ...p, city: d.value }))}
+                    />
+                  </Field>
+                </div>
+                <Field label="Country" validationMessage={fieldErrors["billingAddress.country"]}>
+                  <Input
+                    value={draft.country}
+                    onChange={(_e, d) => setDraft((p) => ({ ...p, country: d.value }))}
+                  />
+                </Field>
                 <Text size={200} style={{ color: "var(--colorNeutralForeground3)" }}>
-                  Renaming will update all orders for this customer.
+                  Leave all address fields empty if there is no billing address.
                 </Text>
               </div>
             </DialogContent>
             <DialogActions>
               <Button
                 appearance="primary"
-                onClick={handleSaveCustomer}
-                disabled={saving || !editName.trim() || editName.trim() === editCustomer?.customer}
+                onClick={() => handleSave()}
+                disabled={saving || !!conflict || !draft.name.trim()}
               >
-                {saving ? "Saving…" : "Save"}
+                {saving ? "Saving…" : editCustomer ? "Save" : "Create"}
               </Button>
-              <Button appearance="secondary" onClick={closeEdit} disabled={saving}>
+              <Button appearance="secondary" onClick={closeForm} disabled={saving}>
                 Cancel
               </Button>
             </DialogActions>
@@ -261,156 +485,175 @@ export default function App() {
         </DialogSurface>
       </Dialog>
 
-      {/* ── View orders dialog ── */}
+      {/* ── Delete confirmation ── */}
       <Dialog
-        open={!!ordersCustomer}
+        open={!!deleteTarget}
         onOpenChange={(_e: React.SyntheticEvent, data: DialogOpenChangeData) => {
-          if (!data.open) setOrdersCustomer(null);
+          if (!data.open) setDeleteTarget(null);
         }}
       >
-        <DialogSurface style={{ maxWidth: "760px", width: "90vw" }}>
-          <DialogTitle>{ordersCustomer?.customer} — Orders</DialogTitle>
+        <DialogSurface>
+          <DialogTitle>Delete {deleteTarget?.name}?</DialogTitle>
           <DialogBody>
             <DialogContent>
-              {customerOrders.length === 0 ? (
-                <Text italic>No orders found.</Text>
-              ) : (
-                <Table aria-label="Customer orders" style={{ width: "100%" }}>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHeaderCell>Order ID</TableHeaderCell>
-                      <TableHeaderCell style={{ textAlign: "right" }}>Amount</TableHeaderCell>
-                      <TableHeaderCell>Status</TableHeaderCell>
-                      <TableHeaderCell>Date</TableHeaderCell>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {customerOrders
-                      .slice()
-                      .sort((a, b) => b.date.localeCompare(a.date))
-                      .map((o) => (
-                        <TableRow key={o.id}>
-                          <TableCell>
-                            <Text font="monospace">{o.id}</Text>
-                          </TableCell>
-                          <TableCell style={{ textAlign: "right" }}>
-                            {o.amount.toLocaleString("en-US", { style: "currency", currency: "USD" })}
-                          </TableCell>
-                          <TableCell>
-                            <Badge
-                              appearance="tint"
-                              color={STATUS_APPEARANCE[o.status]}
-                              shape="rounded"
-                            >
-                              {o.status}
-                            </Badge>
-                          </TableCell>
-                          <TableCell>{o.date}</TableCell>
-                        </TableRow>
-                      ))}
-                  </TableBody>
-                </Table>
-              )}
+              Customers that still have orders, including orders in the trash, cannot be deleted.
             </DialogContent>
             <DialogActions>
-              <Button appearance="secondary" onClick={() => setOrdersCustomer(null)}>
-                Close
+              <Button appearance="primary" onClick={handleDelete} disabled={deleting}>
+                {deleting ? "Deleting…" : "Delete"}
+              </Button>
+              <Button appearance="secondary" onClick={() => setDeleteTarget(null)} disabled={deleting}>
+                Cancel
               </Button>
             </DialogActions>
           </DialogBody>
         </DialogSurface>
       </Dialog>
 
+      {deleteError && (
+        <MessageBar intent="error" style={{ marginBottom: "1rem" }}>
+          <MessageBarBody>{deleteError}</MessageBarBody>
+          <MessageBarActions>
+            <Button appearance="transparent" onClick={() => setDeleteError(null)}>Dismiss</Button>
+          </MessageBarActions>
+        </MessageBar>
+      )}
+
       {fetchError && (
         <MessageBar intent="error" style={{ marginBottom: "1rem" }}>
           <MessageBarBody>{fetchError}</MessageBarBody>
         </MessageBar>
       )}
 
-      <div style={{ display: "flex", flexWrap: "wrap", gap: "1rem", alignItems: "flex-end", marginBottom: "1rem" }}>
-        <div style={{ display: "flex", flexDirection: "column", gap: "4px" }}>
-          <Label htmlFor="customer-search">Customer</Label>
-          <Input
-            id="customer-search"
-            contentBefore={<SearchRegular />}
-            placeholder="Search by customer…"
-            value={filter}
-            onChange={(_e, d) => setFilter(d.value)}
-            style={{ width: "240px" }}
-          />
-        </div>
-      </div>
+      {exportError && (
+        <MessageBar intent="error" style={{ marginBottom: "1rem" }}>
+          <MessageBarBody>{exportError}</MessageBarBody>
+          <MessageBarActions>
+            <Button appearance="transparent" onClick={() => setExportError(null)}>Dismiss</Button>
+          </MessageBarActions>
+        </MessageBar>
+      )}
 
-      {loading ? (
-        <Spinner label="Loading customers…" />
+      {detailId ? (
+        <CustomerDetail
+          customerId={detailId}
+          reloadKey={detailReloadKey}
+          canEdit={can("customers.edit")}
+          onEdit={openEdit}
+          onBack={() => openDetail(null)}
+        />
       ) : (
         <>
-          <Table sortable aria-label="Customers table">
-            <TableHeader>
-              <TableRow>
-                {columns.map((col) => (
-                  <TableHeaderCell
-                    key={col.columnId as string}
-                    sortDirection={getSortDirection(col.columnId)}
-                    onClick={(e) => toggleColumnSort(e, col.columnId)}
-                    style={
-                      col.columnId === "totalAmount" || col.columnId === "orderCount"
-                        ? { textAlign: "right" }
-                        : undefined
-                    }
-                  >
-                    {COLUMN_LABELS[col.columnId as string]}
-                  </TableHeaderCell>
-                ))}
-                <TableHeaderCell style={{ width: "80px" }} />
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {rows.length === 0 ? (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: "1rem", alignItems: "flex-end", marginBottom: "1rem" }}>
+          <div style={{ display: "flex", flexDirection: "column", gap: "4px" }}>
+            <Label htmlFor="customer-search">Customer</Label>
+            <Input
+              id="customer-search"
+              contentBefore={<SearchRegular />}
+              placeholder="Search by name or owner…"
+              value={filter}
+              onChange={(_e, d) => setFilter(d.value)}
+              style={{ width: "240px" }}
+            />
+          </div>
+          <div style={{ display: "flex", gap: "0.5rem", marginLeft: "auto" }}>
+            <ExportMenu path="/api/customers/export" params={exportParams} onError={setExportError} />
+            {can("customers.create") && (
+              <Button appearance="primary" icon={<AddRegular />} onClick={openNew}>
+                New Customer
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {loading ? (
+          <Spinner label="Loading customers…" />
+        ) : (
+          <>
+            <Table sortable aria-label="Customers table">
+              <TableHeader>
                 <TableRow>
-                  <TableCell colSpan={4}>
-                    <Text italic>No customers found.</Text>
-                  </TableCell>
+                  {columns.map((col) => (
+                    <TableHeaderCell
+                      key={col.columnId as string}
+                      sortDirection={getSortDirection(col.columnId)}
+                      onClick={(e) => toggleColumnSort(e, col.columnId)}
+                      style={
+                        col.columnId === "totalAmount" || col.columnId === "orderCount"
+                          ? { textAlign: "right" }
+                          : undefined
+                      }
+                    >
+                      {COLUMN_LABELS[col.columnId as string]}
+                    </TableHeaderCell>
+                  ))}
+                  <TableHeaderCell style={{ width: "152px" }} />
                 </TableRow>
-              ) : (
-                rows.map(({ item: c }) => (
-                  <TableRow key={c.customer}>
-                    <TableCell>
-                      <TableCellLayout>{c.customer}</TableCellLayout>
-                    </TableCell>
-                    <TableCell style={{ textAlign: "right" }}>
-                      {c.orderCount}
-                    </TableCell>
-                    <TableCell style={{ textAlign: "right" }}>
-                      {c.totalAmount.toLocaleString("en-US", { style: "currency", currency: "USD" })}
-                    </TableCell>
-                    <TableCell>{c.latestOrderDate}</TableCell>
-                    <TableCell style={{ width: "80px" }}>
-                      <div style={{ display: "flex", gap: "2px" }}>
-                        <Button
-                          appearance="subtle"
-                          icon={<EditRegular />}
-                          aria-label={`Edit ${c.customer}`}
-                          title="Edit customer"
-                          onClick={() => openEdit(c)}
-                        />
-                        <Button
-                          appearance="subtle"
-                          icon={<OpenRegular />}
-                          aria-label={`View orders for ${c.customer}`}
-                          title="View orders"
-                          onClick={() => setOrdersCustomer(c)}
-                        />
-                      </div>
+              </TableHeader>
+              <TableBody>
+                {rows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6}>
+                      <Text italic>No customers found.</Text>
                     </TableCell>
                   </TableRow>
-                ))
-              )}
-            </TableBody>
-          </Table>
-          <Text size={200} style={{ marginTop: "0.75rem", display: "block" }}>
-            {rows.length} of {customers.length} customers
-          </Text>
+                ) : (
+                  rows.map(({ item: c }) => (
+                    <TableRow key={c.id}>
+                      <TableCell>
+                        <TableCellLayout description={c.email}>
+                          <Link onClick={() => openDetail(c.id)}>{c.name}</Link>
+                        </TableCellLayout>
+                      </TableCell>
+                      <TableCell>{c.accountOwner ?? "—"}</TableCell>
+                      <TableCell style={{ textAlign: "right" }}>
+                        {c.orderCount}
+                      </TableCell>
+                      <TableCell style={{ textAlign: "right" }}>
+                        {c.totalAmount.toLocaleString("en-US", { style: "currency", currency: "USD" })}
+                      </TableCell>
+                      <TableCell>{c.latestOrderDate ?? "—"}</TableCell>
+                      <TableCell style={{ width: "152px" }}>
+                        <div style={{ display: "flex", gap: "2px" }}>
+                          <Button
+                            appearance="subtle"
+                            icon={<EditRegular />}
+                            aria-label={`Edit ${c.name}`}
+                            title="Edit customer"
+                            disabled={!can("customers.edit")}
+                            onClick={() => openEdit(c)}
+                          />
+                          <Button
+                            appearance="subtle"
+                            icon={<OpenRegular />}
+                            aria-label={`View details for ${c.name}`}
+                            title="View details"
+                            onClick={() => openDetail(c.id)}
+                          />
+                          <CopyLinkButton
+                            label={c.name}
+                            link={() => tabDeepLink(CUSTOMERS_TAB, c.id, teamsAppId.current)}
+                          />
+                          <Button
+                            appearance="subtle"
+                            icon={<DeleteRegular />}
+                            aria-label={`Delete ${c.name}`}
+                            title={c.orderCount ? "Customers with orders cannot be deleted" : "Delete customer"}
+                            disabled={c.orderCount > 0 || !can("customers.delete")}
+                            onClick={() => { setDeleteError(null); setDeleteTarget(c); }}
+                          />
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+            <Text size={200} style={{ marginTop: "0.75rem", display: "block" }}>
+              {rows.length} of {customers.length} customers
+            </Text>
+          </>
+        )}
         </>
       )}
     </FluentProvider>
@@ -0,0 +1,227 @@
+import React from "react";
+import {
+  Badge,
+  Button,
+  Card,
+  CardHeader,
+  MessageBar,
+  MessageBarBody,
+  Spinner,
+  Text,
+} from "@fluentui/react-components";
+import { ArrowLeftRegular, EditRegular } from "@fluentui/react-icons";
+
+import { apiFetch, ensureOk, errorMessage } from "../shared/api";
+
+type OrderStatus = "Submitted" | "Pending" | "Processing" | "Shipped" | "Delivered" | "Cancelled";
+
+const STATUS_APPEARANCE: Record<OrderStatus, "warning" | "informative" | "success" | "important"> = {
+  Submitted:  "informative",
+  Pending:    "warning",
+  Processing: "informative",
+  Shipped:    "success",
+  Delivered:  "success",
+  Cancelled:  "important",
+};
+
+interface BillingAddress {
+  street: string;
+  city: string;
+  postalCode: string;
+  country: string;
+}
+
+export interface Customer {
+  id: string;
+  name: string;
+  email?: string;
+  billingAddress?: BillingAddress;
+  accountOwner?: string;
+  etag: string;
+}
+
+type TimelineEvent =
+  | { type: "placed"; at: string; orderId: string; amount: number; status: OrderStatus }
+  | { type: "statusChanged"; at: string; orderId: string; from: OrderStatus; to: OrderStatus; actor: string };
+
+/** `GET /api/customers/:id/summary`; mirrors `CustomerSummary` in `src/customerSummary.ts`. */
+interface CustomerSummary {
+  customer: Customer;
+  orderCount: number;
+  lifetimeValue: number;
+  averageOrderValue: number;
+  firstOrderDate?: string;
+  lastOrderDate?: string;
+  daysSinceLastOrder?: number;
+  averageDaysBetweenOrders?: number;
+  statusBreakdown: { status: OrderStatus; count: number; amount: number }[];
+  timeline: TimelineEvent[];
+  timelineOrderCount: number;
+}
+
+function formatCurrency(amount: number): string {
+  return amount.toLocaleString("en-US", { style: "currency", currency: "USD" });
+}
+
+function formatDays(days: number): string {
+  return days === 1 ? "1 day" : `${days.toLocaleString("en-US")} days`;
+}
+
+/** Timestamps show date and time; plain order dates only the date. */
+function formatWhen(at: string): string {
+  return at.length > 10 ? new Date(at).toLocaleString() : at;
+}
+
+function StatusBadge({ status }: { status: OrderStatus }) {
+  return <Badge appearance="tint" color={STATUS_APPEARANCE[status]} shape="rounded">{status}</Badge>;
+}
+
+function Metric({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <Card style={{ flex: "1 1 160px" }}>
+      <Text size={200}>{label}</Text>
+      <Text size={600} weight="semibold">{value}</Text>
+      {detail && <Text size={200}>{detail}</Text>}
+    </Card>
+  );
+}
+
+interface CustomerDetailProps {
+  customerId: string;
+  /** Changes whenever the customer's orders may have changed, to reload the summary. */
+  reloadKey: number;
+  canEdit: boolean;
+  onEdit: (customer: Customer) => void;
+  onBack: () => void;
+}
+
+/** Profile, lifetime metrics and order timeline of one customer. */
+export function CustomerDetail({ customerId, reloadKey, canEdit, onEdit, onBack }: CustomerDetailProps) {
+  const [summary, setSummary] = React.useState<CustomerSummary | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    const controller = new AbortController();
+    setError(null);
+    apiFetch(`/api/customers/${encodeURIComponent(customerId)}/summary`, { signal: controller.signal })
+      .then(ensureOk)
+      .then((r) => r.json() as Promise<CustomerSummary>)
+      .then(setSummary)
+      .catch((err: unknown) => {
+        if (!controller.signal.aborted) setError(errorMessage(err));
+      });
+    return () => controller.abort();
+  }, [customerId, reloadKey]);
+
+  // Drop the previous customer's figures as soon as another one is opened
+  React.useEffect(() => setSummary(null), [customerId]);
+
+  const customer = summary?.customer;
+  const address = customer?.billingAddress;
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+      <div style={{ display: "flex", alignItems: "center", gap: "0.75rem" }}>
+        <Button appearance="subtle" icon={<ArrowLeftRegular />} onClick={onBack} aria-label="Back to customers" />
+        <Text as="h2" size={600} weight="semibold" style={{ margin: 0 }}>
+          {customer?.name ?? customerId}
+        </Text>
+        {customer && <Text font="monospace" size={200}>{customer.id}</Text>}
+        {customer && canEdit && (
+          <Button icon={<EditRegular />} onClick={() => onEdit(customer)} style={{ marginLeft: "auto" }}>
+            Edit
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <MessageBar intent="error">
+          <MessageBarBody>{error}</MessageBarBody>
+        </MessageBar>
+      )}
+
+      {!summary ? (
+        !error && <Spinner label="Loading customer…" />
+      ) : (
+        <>
+          <Text size={200}>
+            {[customer!.email, customer!.accountOwner && `Account owner: ${customer!.accountOwner}`,
+              address && `${address.street}, ${address.postalCode} ${address.city}, ${address.country}`]
+              .filter(Boolean)
+              .join(" · ") || "No contact details."}
+          </Text>
+
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "1rem" }}>
+            <Metric label="Lifetime value" value={formatCurrency(summary.lifetimeValue)} detail="Excludes cancelled orders" />
+            <Metric
+              label="Orders"
+              value={summary.orderCount.toLocaleString("en-US")}
+              detail={summary.firstOrderDate ? `Since ${summary.firstOrderDate}` : undefined}
+            />
+            <Metric label="Average order value" value={formatCurrency(summary.averageOrderValue)} />
+            <Metric
+              label="Order frequency"
+              value={summary.averageDaysBetweenOrders !== undefined ? `Every ${formatDays(Math.round(summary.averageDaysBetweenOrders))}` : "—"}
+              detail="Average time between orders"
+            />
+            <Metric
+              label="Last order"
+              value={summary.daysSinceLastOrder !== undefined ? `${formatDays(summary.daysSinceLastOrder)} ago` : "Never"}
+              detail={summary.lastOrderDate}
+            />
+          </div>
+
+          <Card>
+            <CardHeader header={<Text weight="semibold">Orders by status</Text>} />
+            <div style={{ display: "flex", flexWrap: "wrap", gap: "1rem" }}>
+              {summary.statusBreakdown.map((s) => (
+                <div key={s.status} style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
+                  <StatusBadge status={s.status} />
+                  <Text weight="semibold">{s.count}</Text>
+                  <Text size={200}>{formatCurrency(s.amount)}</Text>
+                </div>
+              ))}
+            </div>
+          </Card>
+
+          <Card>
+            <CardHeader
+              header={<Text weight="semibold">Timeline</Text>}
+              description={summary.timelineOrderCount < summary.orderCount
+                ? `Latest ${summary.timelineOrderCount} of ${summary.orderCount} orders`
+                : undefined}
+            />
+            {summary.timeline.length === 0 ? (
+              <Text italic>No orders yet.</Text>
+            ) : (
+              <ol style={{ listStyle: "none", margin: 0, padding: 0, maxHeight: "420px", overflowY: "auto" }}>
+                {[...summary.timeline].reverse().map((event) => (
+                  <li
+                    key={`${event.type}-${event.orderId}-${event.at}`}
+                    style={{ display: "flex", alignItems: "center", gap: "0.5rem", flexWrap: "wrap", padding: "0.375rem 0" }}
+                  >
+                    <Text size={200} style={{ minWidth: "150px" }}>{formatWhen(event.at)}</Text>
+                    <Text font="monospace">{event.orderId}</Text>
+                    {event.type === "placed" ? (
+                      <>
+                        <Text>placed for {formatCurrency(event.amount)}</Text>
+                        <StatusBadge status={event.status} />
+                      </>
+                    ) : (
+                      <>
+                        <StatusBadge status={event.from} />
+                        <Text>→</Text>
+                        <StatusBadge status={event.to} />
+                        <Text size={200}>by {event.actor}</Text>
+                      </>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+import React from "react";
+import * as teamsJs from "@microsoft/teams-js";
+import {
+  FluentProvider,
+  teamsDarkTheme,
+  teamsHighContrastTheme,
+  teamsLightTheme,
+  Card,
+  CardHeader,
+  Dropdown,
+  Input,
+  Label,
+  MessageBar,
+  MessageBarBody,
+  Option,
+  Spinner,
+  Table,
+  TableBody,
+  TableCell,
+  TableHeader,
+  TableHeaderCell,
+  TableRow,
+  Text,
+} from "@fluentui/react-components";
+
+import { apiFetch, ensureOk, errorMessage } from "../shared/api";
+import { subscribeOrderEvents } from "../shared/orderEvents";
+import { formatCurrency, RevenueChart, StatusChart, type MonthlyRevenue, type StatusCount } from "./Charts";
+
+type TeamsTheme = "default" | "dark" | "contrast";
+
+/** `GET /api/reports/summary`. */
+interface ReportSummary {
+  orderCount: number;
+  cancelledCount: number;
+  revenue: number;
+  averageOrderValue: number;
+}
+
+/** One entry of `GET /api/reports/top-customers`. */
+interface TopCustomer {
+  customerId: string;
+  customer: string;
+  orderCount: number;
+  revenue: number;
+}
+
+interface Reports {
+  summary: ReportSummary;
+  months: MonthlyRevenue[];
+  statuses: StatusCount[];
+  customers: TopCustomer[];
+}
+
+/** Inclusive `YYYY-MM-DD` bounds; "" leaves that end open. */
+interface DateRange {
+  dateFrom: string;
+  dateTo: string;
+}
+
+type RangePreset = "last30Days" | "last12Months" | "thisYear" | "allTime" | "custom";
+
+const PRESET_LABELS: Record<RangePreset, string> = {
+  last30Days:   "Last 30 days",
+  last12Months: "Last 12 months",
+  thisYear:     "This year",
+  allTime:      "All time",
+  custom:       "Custom",
+};
+
+const FLUENT_THEME: Record<TeamsTheme, typeof teamsLightTheme> = {
+  default:  teamsLightTheme,
+  dark:     teamsDarkTheme,
+  contrast: teamsHighContrastTheme,
+};
+
+const TOP_CUSTOMER_COUNT = 10;
+
+// Order events arrive in bursts (e.g. a bulk change), so the reports are refreshed once things settle
+const REPORTS_REFRESH_DELAY = 1000;
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** The range a preset stands for, ending today; "last 12 months" starts on the 1st so every month is whole. */
+function presetRange(preset: Exclude<RangePreset, "custom">): DateRange {
+  const now = new Date();
+  const [year, month, day] = [now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()];
+  const dateTo = isoDate(now);
+  switch (preset) {
+    case "last30Days":
+      return { dateFrom: isoDate(new Date(Date.UTC(year, month, day - 29))), dateTo };
+    case "last12Months":
+      return { dateFrom: isoDate(new Date(Date.UTC(year, month - 11, 1))), dateTo };
+    case "thisYear":
+      return { dateFrom: `${year}-01-01`, dateTo };
+    case "allTime":
+      return { dateFrom: "", dateTo: "" };
+  }
+}
+
+function rangeParams({ dateFrom, dateTo }: DateRange): URLSearchParams {
+  const params = new URLSearchParams();
+  if (dateFrom) params.set("dateFrom", dateFrom);
+  if (dateTo) params.set("dateTo", dateTo);
+  return params;
+}
+
+async function fetchJson<T>(url: string, signal: AbortSignal): Promise<T> {
+  const res = await ensureOk(await apiFetch(url, { signal }));
+  return res.json() as Promise<T>;
+}
+
+/** Loads every report for `range` in parallel. */
+async function fetchReports(range: DateRange, signal: AbortSignal): Promise<Reports> {
+  const params = rangeParams(range);
+  const topParams = new URLSearchParams(params);
+  topParams.set("limit", String(TOP_CUSTOMER_COUNT));
+  const [summary, months, statuses, customers] = await Promise.all([
+    fetchJson<ReportSummary>(`/api/reports/summary?${params}`, signal),
+    fetchJson<MonthlyRevenue[]>(`/api/reports/revenue-by-month?${params}`, signal),
+    fetchJson<StatusCount[]>(`/api/reports/orders-by-status?${params}`, signal),
+    fetchJson<TopCustomer[]>(`/api/reports/top-customers?${topParams}`, signal),
+  ]);
+  return { summary, months, statuses, customers };
+}
+
+function KpiCard({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <Card style={{ flex: "1 1 180px" }}>
+      <Text size={200}>{label}</Text>
+      <Text size={700} weight="semibold">{value}</Text>
+      {detail && <Text size={200}>{detail}</Text>}
+    </Card>
+  );
+}
+
+export default function App() {
+  const [theme, setTheme] = React.useState<TeamsTheme>("default");
+  const [preset, setPreset] = React.useState<RangePreset>("last12Months");
+  const [range, setRange] = React.useState<DateRange>(() => presetRange("last12Months"));
+  const [reports, setReports] = React.useState<Reports | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [fetchError, setFetchError] = React.useState<string | null>(null);
+  // Bumped to reload the reports after orders change
+  const [reloadKey, setReloadKey] = React.useState(0);
+
+  const rangeInvalid = !!range.dateFrom && !!range.dateTo && range.dateFrom > range.dateTo;
+
+  React.useEffect(() => {
+    teamsJs.app.initialize()
+      .then(() => {
+        teamsJs.app.getContext().then((ctx) => {
+          const t = (ctx.app.theme ?? "default") as TeamsTheme;
+          setTheme(t in FLUENT_THEME ? t : "default");
+        });
+        teamsJs.app.registerOnThemeChangeHandler((t) => {
+          setTheme(t in FLUENT_THEME ? (t as TeamsTheme) : "default");
+        });
+      })
+      .catch(() => {/* running outside Teams */});
+  }, []);
+
+  React.useEffect(() => {
+    if (rangeInvalid) return;
+    const controller = new AbortController();
+    setLoading(true);
+    setFetchError(null);
+    fetchReports(range, controller.signal)
+      .then((next) => {
+        setReports(next);
+        setLoading(false);
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return;
+        setFetchError(errorMessage(err));
+        setLoading(false);
+      });
+    return () => controller.abort();
+  }, [range, rangeInvalid, reloadKey]);
+
+  // SSE – any order change can move the totals
+  React.useEffect(() => {
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+    const refresh = () => {
+      clearTimeout(refreshTimer);
+      refreshTimer = setTimeout(() => setReloadKey((k) => k + 1), REPORTS_REFRESH_DELAY);
+    };
+    const unsubscribe = subscribeOrderEvents({
+      "order.created": refresh,
+      "order.updated": refresh,
+      "order.deleted": refresh,
+      "order.restored": refresh,
+      "customer.updated": refresh,
+      reset: refresh,
+    });
+    return () => {
+      clearTimeout(refreshTimer);
+      unsubscribe();
+    };
+  }, []);
+
+  const choosePreset = (next: RangePreset) => {
+    setPreset(next);
+    if (next !== "custom") setRange(presetRange(next));
+  };
+
+  const editRange = (field: keyof DateRange, value: string) => {
+    setPreset("custom");
+    setRange((r) => ({ ...r, [field]: value }));
+  };
+
+  return (
+    <FluentProvider theme={FLUENT_THEME[theme]} style={{ minHeight: "100vh", padding: "1.5rem" }}>
+      <Text as="h1" size={700} weight="semibold" block style={{ margin: "0 0 1rem" }}>
+        Dashboard
+      </Text>
+
+      <div style={{ display: "flex", flexWrap: "wrap", gap: "1rem", alignItems: "flex-end", marginBottom: "1rem" }}>
+        <div style={{ display: "flex", flexDirection: "column", gap: "4px" }}>
+          <Label>Period</Label>
+          <Dropdown
+            value={PRESET_LABELS[preset]}
+            selectedOptions={[preset]}
+            onOptionSelect={(_e, data) => choosePreset(data.optionValue as RangePreset)}
+            style={{ minWidth: "160px" }}
+          >
+            {(Object.keys(PRESET_LABELS) as RangePreset[]).map((p) => (
+              <Option key={p} value={p}>{PRESET_LABELS[p]}</Option>
+            ))}
+          </Dropdown>
+        </div>
+        <div style={{ display: "flex", flexDirection: "column", gap: "4px" }}>
+          <Label htmlFor="date-from">From</Label>
+          <Input id="date-from" type="date" value={range.dateFrom} onChange={(_e, d) => editRange("dateFrom", d.value)} />
+        </div>
+        <div style={{ display: "flex", flexDirection: "column", gap: "4px" }}>
+          <Label htmlFor="date-to">To</Label>
+          <Input id="date-to" type="date" value={range.dateTo} onChange={(_e, d) => editRange("dateTo", d.value)} />
+        </div>
+        {loading && reports && <Spinner size="tiny" />}
+      </div>
+
+      {rangeInvalid && (
+        <MessageBar intent="warning" style={{ marginBottom: "1rem" }}>
+          <MessageBarBody>The end of the period is before its start.</MessageBarBody>
+        </MessageBar>
+      )}
+
+      {fetchError && (
+        <MessageBar intent="error" style={{ marginBottom: "1rem" }}>
+          <MessageBarBody>{fetchError}</MessageBarBody>
+        </MessageBar>
+      )}
+
+      {!reports ? (
+        loading && <Spinner label="Loading reports…" />
+      ) : (
+        <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "1rem" }}>
+            <KpiCard label="Revenue" value={formatCurrency(reports.summary.revenue)} detail="Excludes cancelled orders" />
+            <KpiCard
+              label="Orders"
+              value={reports.summary.orderCount.toLocaleString("en-US")}
+              detail={reports.summary.cancelledCount ? `${reports.summary.cancelledCount} cancelled` : undefined}
+            />
+            <KpiCard label="Average order value" value={formatCurrency(reports.summary.averageOrderValue)} />
+          </div>
+
+          <Card>
+            <CardHeader header={<Text weight="semibold">Revenue by month</Text>} />
+            <RevenueChart months={reports.months} />
+          </Card>
+
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "1rem" }}>
+            <Card style={{ flex: "1 1 320px" }}>
+              <CardHeader header={<Text weight="semibold">Orders by status</Text>} />
+              <StatusChart counts={reports.statuses} />
+            </Card>
+
+            <Card style={{ flex: "2 1 420px" }}>
+              <CardHeader header={<Text weight="semibold">Top customers</Text>} />
+              {reports.customers.length === 0 ? (
+                <Text italic>No orders in this period.</Text>
+              ) : (
+                <Table size="small" aria-label="Top customers">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHeaderCell>Customer</TableHeaderCell>
+                      <TableHeaderCell style={{ textAlign: "right" }}>Orders</TableHeaderCell>
+                      <TableHeaderCell style={{ textAlign: "right" }}>Revenue</TableHeaderCell>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {reports.customers.map((c) => (
+                      <TableRow key={c.customerId}>
+                        <TableCell>{c.customer}</TableCell>
+                        <TableCell style={{ textAlign: "right" }}>{c.orderCount}</TableCell>
+                        <TableCell style={{ textAlign: "right" }}>{formatCurrency(c.revenue)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </Card>
+          </div>
+        </div>
+      )}
+    </FluentProvider>
+  );
+}
@@ -0,0 +1,111 @@
+import { Badge, Text, tokens } from "@fluentui/react-components";
+
+type OrderStatus = "Submitted" | "Pending" | "Processing" | "Shipped" | "Delivered" | "Cancelled";
+
+export interface MonthlyRevenue {
+  /** `YYYY-MM`. */
+  month: string;
+  revenue: number;
+  orderCount: number;
+}
+
+export interface StatusCount {
+  status: OrderStatus;
+  count: number;
+  amount: number;
+}
+
+const STATUS_APPEARANCE: Record<OrderStatus, "warning" | "informative" | "success" | "important"> = {
+  Submitted:  "informative",
+  Pending:    "warning",
+  Processing: "informative",
+  Shipped:    "success",
+  Delivered:  "success",
+  Cancelled:  "important",
+};
+
+// Bar colours matching each status badge
+const STATUS_COLOR: Record<OrderStatus, string> = {
+  Submitted:  tokens.colorPaletteBlueBorderActive,
+  Pending:    tokens.colorPaletteYellowBorderActive,
+  Processing: tokens.colorPaletteBlueBorderActive,
+  Shipped:    tokens.colorPaletteGreenBorderActive,
+  Delivered:  tokens.colorPaletteGreenBorderActive,
+  Cancelled:  tokens.colorPaletteRedBorderActive,
+};
+
+const CHART_HEIGHT = 200;
+
+export function formatCurrency(amount: number, compact = false): string {
+  return amount.toLocaleString("en-US", {
+    style: "currency",
+    currency: "USD",
+    ...(compact ? { notation: "compact", maximumFractionDigits: 1 } : {}),
+  });
+}
+
+/** `2026-03` as `Mar 2026`. */
+function monthLabel(month: string): string {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString("en-US", { month: "short", year: "numeric", timeZone: "UTC" });
+}
+
+/** Column chart of revenue per month; each bar's tooltip gives the exact figures. */
+export function RevenueChart({ months }: { months: MonthlyRevenue[] }) {
+  if (!months.length) return <Text italic>No orders in this period.</Text>;
+  const max = Math.max(...months.map((m) => m.revenue), 1);
+  // Label every nth month so long ranges stay readable
+  const labelEvery = Math.ceil(months.length / 12);
+
+  return (
+    <div role="img" aria-label="Revenue by month" style={{ overflowX: "auto" }}>
+      <div style={{ display: "flex", alignItems: "flex-end", gap: "4px", height: `${CHART_HEIGHT}px`, minWidth: `${months.length * 20}px` }}>
+        {months.map((m) => (
+          <div
+            key={m.month}
+            title={`${monthLabel(m.month)}: ${formatCurrency(m.revenue)} from ${m.orderCount} ${m.orderCount === 1 ? "order" : "orders"}`}
+            style={{
+              flex: 1,
+              height: `${(m.revenue / max) * 100}%`,
+              minHeight: m.revenue > 0 ? "2px" : 0,
+              backgroundColor: tokens.colorBrandBackground,
+              borderRadius: `${tokens.borderRadiusSmall} ${tokens.borderRadiusSmall} 0 0`,
+            }}
+          />
+        ))}
+      </div>
+      <div style={{ display: "flex", gap: "4px", marginTop: "4px", minWidth: `${months.length * 20}px` }}>
+        {months.map((m, i) => (
+          <Text key={m.month} size={100} align="center" style={{ flex: 1, whiteSpace: "nowrap", overflow: "visible" }}>
+            {i % labelEvery === 0 ? monthLabel(m.month) : ""}
+          </Text>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** One bar per status, longest for the status with the most orders. */
+export function StatusChart({ counts }: { counts: StatusCount[] }) {
+  const max = Math.max(...counts.map((c) => c.count), 1);
+
+  return (
+    <div role="list" aria-label="Orders by status" style={{ display: "flex", flexDirection: "column", gap: "0.5rem" }}>
+      {counts.map((c) => (
+        <div key={c.status} role="listitem" style={{ display: "grid", gridTemplateColumns: "100px 1fr 48px", alignItems: "center", gap: "0.5rem" }}>
+          <Badge appearance="tint" color={STATUS_APPEARANCE[c.status]} shape="rounded">{c.status}</Badge>
+          <div title={formatCurrency(c.amount)} style={{ height: "12px", backgroundColor: tokens.colorNeutralBackground3, borderRadius: tokens.borderRadiusSmall }}>
+            <div
+              style={{
+                width: `${(c.count / max) * 100}%`,
+                height: "100%",
+                backgroundColor: STATUS_COLOR[c.status],
+                borderRadius: tokens.borderRadiusSmall,
+              }}
+            />
+          </div>
+          <Text align="end">{c.count}</Text>
+        </div>
+      ))}
+    </div>
+  );
+}
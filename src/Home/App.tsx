@@ -9,6 +9,8 @@ import {
   Spinner,
   MessageBar,
   MessageBarBody,
+  MessageBarTitle,
+  MessageBarActions,
   Badge,
   Text,
   Table,
@@ -20,7 +22,12 @@ import {
   TableCellLayout,
   useTableFeatures,
   useTableSort,
+  useTableSelection,
+  TableSelectionCell,
   type TableColumnDefinition,
+  type TableColumnId,
+  type TableRowId,
+  type SortDirection,
   createTableColumn,
   Dropdown,
   Option,
@@ -33,24 +40,72 @@ import {
   DialogActions,
   Button,
   Field,
+  ToggleButton,
   type DialogOpenChangeData,
 } from "@fluentui/react-components";
-import { SearchRegular, EditRegular, AddRegular } from "@fluentui/react-icons";
+import {
+  SearchRegular,
+  EditRegular,
+  AddRegular,
+  DeleteRegular,
+  ArrowUndoRegular,
+  ArrowUploadRegular,
+} from "@fluentui/react-icons";
+
+import { ApiError, apiFetch, ensureOk, errorMessage, type ProblemDetails } from "../shared/api";
+import { channelViewFromQuery } from "../shared/channelView";
+import { CopyLinkButton } from "../shared/CopyLinkButton";
+import { useCurrentUser } from "../shared/currentUser";
+import { clearLinkedItemFromUrl, linkedItemFromUrl, tabDeepLink, type DeepLinkTab } from "../shared/deepLinks";
+import { ExportMenu } from "../shared/ExportMenu";
+import { subscribeOrderEvents } from "../shared/orderEvents";
+import { BulkActionBar, type BulkChange } from "./BulkActionBar";
+import { ColumnsMenu } from "./ColumnsMenu";
+import { CustomerPicker, type CustomerOption } from "./CustomerPicker";
+import { ImportDialog } from "./ImportDialog";
+import { LineItemsEditor, isCompleteLineItems, type LineItemDraft, type Product } from "./LineItemsEditor";
+import { SavedViewsMenu, type OrderColumn, type SavedView, type ViewSettings } from "./SavedViewsMenu";
 
 type TeamsTheme = "default" | "dark" | "contrast";
 
 type OrderStatus = "Submitted" | "Pending" | "Processing" | "Shipped" | "Delivered" | "Cancelled";
 
+interface LineItem extends LineItemDraft {
+  name: string;
+  taxRate: number;
+}
+
 interface Order {
   id: string;
+  customerId: string;
+  /** Current name of the customer, resolved by the server. */
   customer: string;
+  /** Computed by the server from `lineItems` when there are any. */
   amount: number;
   status: OrderStatus;
   date: string;
+  lineItems?: LineItem[];
+  etag: string;
+  /** Set while the order is in the trash. */
+  deletedAt?: string;
+}
+
+type AuditAction = "created" | "updated" | "deleted" | "restored" | "purged";
+
+interface AuditEntry {
+  orderId: string;
+  action: AuditAction;
+  actor: string;
+  timestamp: string;
+  changes: { field: string; from?: unknown; to?: unknown }[];
 }
 
 const ALL_STATUSES: OrderStatus[] = ["Submitted", "Pending", "Processing", "Shipped", "Delivered", "Cancelled"];
 
+function isOrderStatus(value: string): value is OrderStatus {
+  return (ALL_STATUSES as string[]).includes(value);
+}
+
 const STATUS_APPEARANCE: Record<OrderStatus, "warning" | "informative" | "success" | "important"> = {
   Submitted:  "informative",
   Pending:    "warning",
@@ -60,6 +115,9 @@ const STATUS_APPEARANCE: Record<OrderStatus, "warning" | "informative" | "succes
   Cancelled:  "important",
 };
 
+/** Deep links open an order's Edit dialog; outside Teams as `?order=ORD-042`, the form the bot's cards link to. */
+const HOME_TAB: DeepLinkTab = { entityId: "index0", param: "order" };
+
 const FLUENT_THEME: Record<TeamsTheme, typeof teamsLightTheme> = {
   default:  teamsLightTheme,
   dark:     teamsDarkTheme,
@@ -67,7 +125,7 @@ const FLUENT_THEME: Record<TeamsTheme, typeof teamsLightTheme> = {
 };
 
 const columns: TableColumnDefinition<Order>[] = [
-  createTableColumn<Order>({ columnId: "id",       compare: (a, b) => a.id.localeCompare(b.id) }),
+  createTableColumn<Order>({ columnId: "id",       compare: (a, b) => a.id.localeCompare(b.id, "en", { numeric: true }) }),
   createTableColumn<Order>({ columnId: "customer",  compare: (a, b) => a.customer.localeCompare(b.customer) }),
   createTableColumn<Order>({ columnId: "amount",    compare: (a, b) => a.amount - b.amount }),
   createTableColumn<Order>({ columnId: "status",    compare: (a, b) => a.status.localeCompare(b.status) }),
@@ -78,95 +136,501 @@ const COLUMN_LABELS: Record<string, string> = {
   id: "ID", customer: "Customer", amount: "Amount", status: "Status", date: "Date",
 };
 
+const ALL_COLUMNS: OrderColumn[] = ["id", "customer", "amount", "status", "date"];
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  created:  "Created",
+  updated:  "Updated",
+  deleted:  "Moved to trash",
+  restored: "Restored",
+  purged:   "Purged",
+};
+
+const PAGE_SIZE = 100;
+
+interface OrderFilters {
+  idPrefix: string;
+  customer: string;
+  /** Fixed by the configuration of a channel tab, like the date bounds. */
+  customerId?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  statuses: OrderStatus[];
+  /** Show the trash instead of live orders. */
+  trash: boolean;
+}
+
+interface SortState {
+  sortColumn: TableColumnId | undefined;
+  sortDirection: SortDirection;
+}
+
+interface OrderPage {
+  items: Order[];
+  /** Sent with the first page; later pages may leave it out. */
+  total?: number;
+  continuationToken?: string;
+}
+
+/** Outcome for one order of `POST /api/orders/bulk`. */
+type BulkResult =
+  | { id: string; ok: true; order: Order }
+  | { id: string; ok: false; error: ProblemDetails };
+
+/** Filter and sort parameters shared by `GET /api/orders` and `GET /api/orders/export`. */
+function viewParams(filters: OrderFilters, sort: SortState): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.idPrefix) params.set("idPrefix", filters.idPrefix);
+  if (filters.customer) params.set("customer", filters.customer);
+  if (filters.customerId) params.set("customerId", filters.customerId);
+  if (filters.dateFrom) params.set("dateFrom", filters.dateFrom);
+  if (filters.dateTo) params.set("dateTo", filters.dateTo);
+  if (filters.statuses.length) params.set("status", filters.statuses.join(","));
+  if (filters.trash) params.set("deleted", "only");
+  if (sort.sortColumn) {
+    params.set("sort", `${sort.sortDirection === "descending" ? "-" : ""}${String(sort.sortColumn)}`);
+  }
+  return params;
+}
+
+/** Builds the `GET /api/orders` query string; filtering, sorting and paging happen on the server. */
+function ordersQuery(filters: OrderFilters, sort: SortState, continuationToken?: string): string {
+  const params = viewParams(filters, sort);
+  params.set("pageSize", String(PAGE_SIZE));
+  if (continuationToken) params.set("continuationToken", continuationToken);
+  return params.toString();
+}
+
+/** Client-side mirror of the server filter, used for orders pushed over SSE. */
+function matchesFilters(order: Order, filters: OrderFilters): boolean {
+  return !!order.deletedAt === filters.trash
+    && order.id.toLowerCase().startsWith(filters.idPrefix.toLowerCase())
+    && order.customer.toLowerCase().includes(filters.customer.toLowerCase())
+    && (!filters.customerId || order.customerId === filters.customerId)
+    && (!filters.dateFrom || order.date >= filters.dateFrom)
+    && (!filters.dateTo || order.date <= filters.dateTo)
+    && (filters.statuses.length === 0 || filters.statuses.includes(order.status));
+}
+
+/** Renders one side of an audit field change. */
+function formatAuditValue(field: string, value: unknown): string {
+  if (value === undefined) return "—";
+  if (field === "amount" && typeof value === "number") {
+    return value.toLocaleString("en-US", { style: "currency", currency: "USD" });
+  }
+  if (field === "lineItems" && Array.isArray(value)) {
+    return (value as LineItem[]).map((item) => `${item.quantity} × ${item.sku}`).join(", ");
+  }
+  return String(value);
+}
+
+/** Inserts `order` where the current sort would put it. */
+function insertSorted(orders: Order[], order: Order, sort: SortState): Order[] {
+  const column = columns.find((c) => c.columnId === sort.sortColumn);
+  if (!column) return [...orders, order];
+  const sign = sort.sortDirection === "descending" ? -1 : 1;
+  const index = orders.findIndex((o) => sign * column.compare(order, o) < 0);
+  return index === -1 ? [...orders, order] : [...orders.slice(0, index), order, ...orders.slice(index)];
+}
+
+function emptyLine(): LineItemDraft {
+  return { sku: "", quantity: 1, unitPrice: 0, discountPercent: 0 };
+}
+
+function useDebouncedValue<T>(value: T, delayMs = 300): T {
+  const [debounced, setDebounced] = React.useState(value);
+  React.useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+  return debounced;
+}
+
 export default function App() {
   const [theme, setTheme] = React.useState<TeamsTheme>("default");
-  const [orders, setOrders] = React.useState<Order[]>([]);
+  // Loaded orders and the server's count of all matches, kept together so SSE inserts stay consistent
+  const [{ orders, total }, setView] = React.useState<{ orders: Order[]; total: number }>({ orders: [], total: 0 });
+  const setOrders = (update: (prev: Order[]) => Order[]) =>
+    setView((v) => ({ ...v, orders: update(v.orders) }));
+  const [continuationToken, setContinuationToken] = React.useState<string | undefined>();
   const [loading, setLoading] = React.useState(true);
+  const [loadingMore, setLoadingMore] = React.useState(false);
   const [fetchError, setFetchError] = React.useState<string | null>(null);
+  const [products, setProducts] = React.useState<Product[]>([]);
+  // Options for the customer pickers, sorted by name
+  const [customers, setCustomers] = React.useState<CustomerOption[]>([]);
   const [filter, setFilter] = React.useState("");
   const [customerFilter, setCustomerFilter] = React.useState("");
-  const [statusFilter, setStatusFilter] = React.useState<OrderStatus[]>([]);
+  // Filters of the channel tab this page was opened as; null in the personal tab
+  const [channelView] = React.useState(() => channelViewFromQuery(window.location.search));
+  const [statusFilter, setStatusFilter] = React.useState<OrderStatus[]>(() => channelView?.statuses.filter(isOrderStatus) ?? []);
+  const [showTrash, setShowTrash] = React.useState(false);
+  const [sortState, setSortState] = React.useState<SortState>({ sortColumn: "date", sortDirection: "descending" });
+  const [visibleColumns, setVisibleColumns] = React.useState<OrderColumn[]>(ALL_COLUMNS);
+  // Saved views of the user and those shared with them, and the one last applied
+  const [savedViews, setSavedViews] = React.useState<SavedView[]>([]);
+  const [activeViewId, setActiveViewId] = React.useState<string | null>(null);
+  const [viewError, setViewError] = React.useState<string | null>(null);
+  // Bumped to refetch the first page, e.g. after the event stream lost events
+  const [reloadKey, setReloadKey] = React.useState(0);
+
+  const debouncedFilter = useDebouncedValue(filter.trim());
+  const debouncedCustomerFilter = useDebouncedValue(customerFilter.trim());
+  const filters = React.useMemo<OrderFilters>(
+    () => ({
+      idPrefix: debouncedFilter,
+      customer: debouncedCustomerFilter,
+      customerId: channelView?.customerId,
+      dateFrom: channelView?.dateFrom,
+      dateTo: channelView?.dateTo,
+      statuses: statusFilter,
+      trash: showTrash,
+    }),
+    [debouncedFilter, debouncedCustomerFilter, channelView, statusFilter, showTrash]
+  );
+  // SSE handler reads the latest filters and sort without resubscribing
+  const viewRef = React.useRef({ filters, sortState });
+  viewRef.current = { filters, sortState };
+
+  const { user, can } = useCurrentUser();
 
   // Edit dialog state
   const [editOrder, setEditOrder] = React.useState<Order | null>(null);
   const [editDraft, setEditDraft] = React.useState<Order | null>(null);
   const [saving, setSaving] = React.useState(false);
   const [saveError, setSaveError] = React.useState<string | null>(null);
+  const [saveFieldErrors, setSaveFieldErrors] = React.useState<Record<string, string>>({});
+  // Line items of the edited order; empty for orders that only carry an amount
+  const [editLines, setEditLines] = React.useState<LineItemDraft[]>([]);
+  // Latest server copy when a save hit an ETag mismatch
+  const [conflict, setConflict] = React.useState<Order | null>(null);
+
+  // Statuses the edited order may move to next; null while loading
+  const [allowedStatuses, setAllowedStatuses] = React.useState<OrderStatus[] | null>(null);
+  // Audit trail of the order being edited; null while loading
+  const [history, setHistory] = React.useState<AuditEntry[] | null>(null);
+  const [historyError, setHistoryError] = React.useState<string | null>(null);
 
   // New order dialog state
-  const emptyDraft = (): { customer: string; amount: number } => ({ customer: "", amount: 0 });
+  const emptyDraft = (): { customerId: string; lineItems: LineItemDraft[] } =>
+    ({ customerId: "", lineItems: [emptyLine()] });
   const [newOrderOpen, setNewOrderOpen] = React.useState(false);
-  const [newDraft, setNewDraft] = React.useState<{ customer: string; amount: number }>(emptyDraft());
+  const [newDraft, setNewDraft] = React.useState<{ customerId: string; lineItems: LineItemDraft[] }>(emptyDraft());
   const [creating, setCreating] = React.useState(false);
   const [createError, setCreateError] = React.useState<string | null>(null);
+  const [createFieldErrors, setCreateFieldErrors] = React.useState<Record<string, string>>({});
+
+  const [importOpen, setImportOpen] = React.useState(false);
+
+  // Delete confirmation state
+  const [deleteTarget, setDeleteTarget] = React.useState<Order | null>(null);
+  const [deleting, setDeleting] = React.useState(false);
+  const [deleteError, setDeleteError] = React.useState<string | null>(null);
+  const [restoreError, setRestoreError] = React.useState<string | null>(null);
+  const [exportError, setExportError] = React.useState<string | null>(null);
+  // Why the order a deep link points at could not be opened
+  const [linkError, setLinkError] = React.useState<string | null>(null);
+  // ID of this app in Teams, which its deep links are addressed to
+  const teamsAppId = React.useRef<string | undefined>(undefined);
+
+  // Rows ticked for a bulk action, by order ID
+  const [selectedRows, setSelectedRows] = React.useState<Set<TableRowId>>(new Set());
+  const [bulkBusy, setBulkBusy] = React.useState(false);
+  // Orders a bulk action could not change, with the reason for each
+  const [bulkFailures, setBulkFailures] = React.useState<{ id: string; detail: string }[]>([]);
+  const [bulkError, setBulkError] = React.useState<string | null>(null);
 
   const openEdit = (order: Order) => {
     setEditOrder(order);
     setEditDraft({ ...order });
+    setEditLines((order.lineItems ?? []).map(({ sku, quantity, unitPrice, discountPercent }) =>
+      ({ sku, quantity, unitPrice, discountPercent })));
     setSaveError(null);
+    setSaveFieldErrors({});
+    setConflict(null);
   };
 
   const closeEdit = () => {
+    clearLinkedItemFromUrl(HOME_TAB);
     setEditOrder(null);
     setEditDraft(null);
     setSaveError(null);
+    setSaveFieldErrors({});
+    setConflict(null);
+  };
+
+  /** Opens the Edit dialog of a deep-linked order, which need not be on the loaded page. */
+  const openLinkedOrder = (id: string) => {
+    setLinkError(null);
+    apiFetch(`/api/orders/${encodeURIComponent(id)}`)
+      .then(ensureOk)
+      .then((r) => r.json() as Promise<Order>)
+      .then((order) => {
+        if (order.deletedAt) setLinkError(`Order ${order.id} is in the trash. Restore it to edit it.`);
+        else openEdit(order);
+      })
+      .catch((err: unknown) => setLinkError(`Could not open order ${id}: ${errorMessage(err)}`));
+  };
+
+  // What "Save as new view" and "Update" store: the filters as typed, the sort and the visible columns
+  const currentSettings: ViewSettings = {
+    filters: {
+      ...(filter.trim() ? { idPrefix: filter.trim() } : {}),
+      ...(customerFilter.trim() ? { customer: customerFilter.trim() } : {}),
+      ...(statusFilter.length ? { statuses: statusFilter } : {}),
+    },
+    sort: { field: (sortState.sortColumn ?? "date") as OrderColumn, direction: sortState.sortDirection },
+    columns: visibleColumns,
+  };
+
+  /** Shows the table as `view` saved it; `null` returns to the table the tab opens with. */
+  const applyView = (view: SavedView | null) => {
+    setFilter(view?.filters.idPrefix ?? "");
+    setCustomerFilter(view?.filters.customer ?? "");
+    setStatusFilter(view
+      ? (view.filters.statuses ?? []).filter(isOrderStatus)
+      : channelView?.statuses.filter(isOrderStatus) ?? []);
+    setSortState(view
+      ? { sortColumn: view.sort.field, sortDirection: view.sort.direction }
+      : { sortColumn: "date", sortDirection: "descending" });
+    setVisibleColumns(view?.columns ?? ALL_COLUMNS);
+    setActiveViewId(view?.id ?? null);
+  };
+
+  const loadSavedViews = () =>
+    apiFetch("/api/views")
+      .then(ensureOk)
+      .then((r) => r.json() as Promise<SavedView[]>);
+
+  /** Keeps the list in step after a view was saved; saving one as the default unsets the previous default. */
+  const handleViewSaved = (view: SavedView) => {
+    setActiveViewId(view.id);
+    setViewError(null);
+    loadSavedViews()
+      .then(setSavedViews)
+      .catch((err: unknown) => setViewError(`Could not load saved views: ${errorMessage(err)}`));
+  };
+
+  const handleViewDeleted = (id: string) => {
+    setSavedViews((prev) => prev.filter((v) => v.id !== id));
+    if (activeViewId === id) setActiveViewId(null);
+  };
+
+  const resetCreate = () => {
+    setCreateError(null);
+    setCreateFieldErrors({});
+  };
+
+  /** Adds a newly created order if it belongs in the current view and isn't shown yet. */
+  const addOrder = (order: Order) => {
+    const { filters: current, sortState: sort } = viewRef.current;
+    if (!matchesFilters(order, current)) return;
+    setView((v) => v.orders.some((o) => o.id === order.id)
+      ? v
+      : { orders: insertSorted(v.orders, order, sort), total: v.total + 1 });
+  };
+
+  /**
+   * Applies a changed order to the loaded rows: replaced in place while it still
+   * matches the filters, dropped once it doesn't. Orders not loaded are ignored.
+   */
+  const applyOrderChange = (order: Order) => {
+    const { filters: current } = viewRef.current;
+    setView((v) => {
+      if (!v.orders.some((o) => o.id === order.id)) return v;
+      return matchesFilters(order, current)
+        ? { ...v, orders: v.orders.map((o) => (o.id === order.id ? order : o)) }
+        : { orders: v.orders.filter((o) => o.id !== order.id), total: v.total - 1 };
+    });
+  };
+
+  const upsertCustomer = ({ id, name }: CustomerOption) => {
+    setCustomers((prev) => [...prev.filter((c) => c.id !== id), { id, name }]
+      .sort((a, b) => a.name.localeCompare(b.name)));
+  };
+
+  /** Shows a renamed customer's new name on its loaded orders, dropping any that no longer match. */
+  const applyCustomerChange = (customer: CustomerOption) => {
+    const { filters: current } = viewRef.current;
+    setView((v) => {
+      const renamed = v.orders.map((o) => (o.customerId === customer.id ? { ...o, customer: customer.name } : o));
+      const kept = renamed.filter((o) => o.customerId !== customer.id || matchesFilters(o, current));
+      return { orders: kept, total: v.total - (renamed.length - kept.length) };
+    });
+  };
+
+  const removeOrder = (id: string) => {
+    setView((v) => v.orders.some((o) => o.id === id)
+      ? { orders: v.orders.filter((o) => o.id !== id), total: v.total - 1 }
+      : v);
   };
 
   const handleCreate = async () => {
-    if (!newDraft.customer.trim()) return;
+    if (!newDraft.customerId || !isCompleteLineItems(newDraft.lineItems)) return;
     setCreating(true);
-    setCreateError(null);
+    resetCreate();
     try {
-      const res = await fetch("/api/orders", {
+      const res = await ensureOk(await apiFetch("/api/orders", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(newDraft),
-      });
-      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      }));
       const created: Order = await res.json();
       // Also add locally immediately (SSE may deduplicate)
-      setOrders((prev) => prev.some((o) => o.id === created.id) ? prev : [...prev, created]);
+      addOrder(created);
       setNewOrderOpen(false);
       setNewDraft(emptyDraft());
     } catch (err) {
-      setCreateError(String(err));
+      setCreateError(errorMessage(err));
+      if (err instanceof ApiError) setCreateFieldErrors(err.fieldErrors);
     } finally {
       setCreating(false);
     }
   };
 
-  const handleSave = async () => {
-    if (!editDraft) return;
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    setDeleting(true);
+    setDeleteError(null);
+    try {
+      await ensureOk(await apiFetch(`/api/orders/${deleteTarget.id}`, {
+        method: "DELETE",
+        headers: { "If-Match": deleteTarget.etag },
+      }));
+      removeOrder(deleteTarget.id);
+      setDeleteTarget(null);
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 412 && err.problem.current) {
+        const current = err.problem.current as Order;
+        setDeleteTarget(current);
+        applyOrderChange(current);
+        setDeleteError("Someone else changed this order. Check the latest version before deleting it.");
+      } else {
+        setDeleteError(errorMessage(err));
+      }
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const handleRestore = async (order: Order) => {
+    setRestoreError(null);
+    try {
+      const res = await ensureOk(await apiFetch(`/api/orders/${order.id}/restore`, { method: "POST" }));
+      applyOrderChange(await res.json());
+    } catch (err) {
+      setRestoreError(`Could not restore ${order.id}: ${errorMessage(err)}`);
+    }
+  };
+
+  /** Applies `change` to the selected orders; those that fail stay selected so they can be retried. */
+  const handleBulk = async (change: BulkChange) => {
+    const ids = orders.filter((o) => selectedRows.has(o.id)).map((o) => o.id);
+    if (!ids.length) return;
+    setBulkBusy(true);
+    setBulkError(null);
+    setBulkFailures([]);
+    try {
+      const res = await ensureOk(await apiFetch("/api/orders/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...change, ids }),
+      }));
+      const { results }: { results: BulkResult[] } = await res.json();
+      for (const result of results) {
+        if (!result.ok) continue;
+        if (change.action === "delete") removeOrder(result.id);
+        else applyOrderChange(result.order);
+      }
+      const failed = results.flatMap((r) => (r.ok ? [] : [{ id: r.id, detail: r.error.detail ?? r.error.title }]));
+      setBulkFailures(failed);
+      setSelectedRows(new Set(failed.map((f) => f.id)));
+    } catch (err) {
+      setBulkError(errorMessage(err));
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  // `overwrite` re-sends the draft against the newer version reported by a conflict
+  const handleSave = async (overwrite = false) => {
+    if (!editDraft || !editOrder) return;
+    const baseVersion = overwrite && conflict ? conflict.etag : editOrder.etag;
     setSaving(true);
     setSaveError(null);
+    setSaveFieldErrors({});
+    setConflict(null);
     try {
-      const res = await fetch(`/api/orders/${editDraft.id}`, {
+      const res = await ensureOk(await apiFetch(`/api/orders/${editDraft.id}`, {
         method: "PUT",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", "If-Match": baseVersion },
         body: JSON.stringify({
-          customer: editDraft.customer,
-          amount: editDraft.amount,
+          customerId: editDraft.customerId,
+          ...(editLines.length ? { lineItems: editLines } : { amount: editDraft.amount }),
           status: editDraft.status,
           date: editDraft.date,
         }),
-      });
-      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      }));
       const updated: Order = await res.json();
       setOrders((prev) => prev.map((o) => (o.id === updated.id ? updated : o)));
       closeEdit();
     } catch (err) {
-      setSaveError(String(err));
+      if (err instanceof ApiError && err.status === 412 && err.problem.current) {
+        const current = err.problem.current as Order;
+        setConflict(current);
+        setOrders((prev) => prev.map((o) => (o.id === current.id ? current : o)));
+      } else if (err instanceof ApiError && err.status === 409) {
+        setSaveError("This order changed while saving. Please try again.");
+      } else {
+        setSaveError(errorMessage(err));
+        if (err instanceof ApiError) setSaveFieldErrors(err.fieldErrors);
+      }
     } finally {
       setSaving(false);
     }
   };
 
   React.useEffect(() => {
+    apiFetch("/api/customers")
+      .then(ensureOk)
+      .then((r) => r.json() as Promise<CustomerOption[]>)
+      .then((list) => setCustomers(list.map(({ id, name }) => ({ id, name }))))
+      .catch((err: unknown) => setFetchError(`Could not load customers: ${errorMessage(err)}`));
+  }, [reloadKey]);
+
+  // The catalog rarely changes, so it is loaded once
+  React.useEffect(() => {
+    apiFetch("/api/products")
+      .then(ensureOk)
+      .then((r) => r.json() as Promise<Product[]>)
+      .then(setProducts)
+      .catch((err: unknown) => setFetchError(`Could not load products: ${errorMessage(err)}`));
+  }, []);
+
+  // Once the user is known, list their views; the personal tab opens with their default one,
+  // while a channel tab keeps the filters it was configured with
+  React.useEffect(() => {
+    if (!user) return;
+    loadSavedViews()
+      .then((list) => {
+        setSavedViews(list);
+        const preferred = list.find((v) => v.ownerId === user.userId && v.isDefault);
+        if (preferred && !channelView) applyView(preferred);
+      })
+      .catch((err: unknown) => setViewError(`Could not load saved views: ${errorMessage(err)}`));
+  }, [user?.userId]);
+
+  React.useEffect(() => {
+    const linked = linkedItemFromUrl(HOME_TAB);
+    if (linked) openLinkedOrder(linked);
     teamsJs.app.initialize()
       .then(() => {
         teamsJs.app.getContext().then((ctx) => {
           const t = (ctx.app.theme ?? "default") as TeamsTheme;
           setTheme(t in FLUENT_THEME ? t : "default");
+          teamsAppId.current = ctx.app.appId?.toString();
+          // Teams deep links carry the order ID as their subEntityId, which arrives as the page's subPageId
+          if (ctx.page.subPageId) openLinkedOrder(ctx.page.subPageId);
         });
         teamsJs.app.registerOnThemeChangeHandler((t) => {
           setTheme(t in FLUENT_THEME ? (t as TeamsTheme) : "default");
@@ -175,55 +639,135 @@ export default function App() {
       .catch(() => {/* running outside Teams */});
   }, []);
 
+  // Only offer the status changes the server's workflow allows
+  React.useEffect(() => {
+    setAllowedStatuses(null);
+    if (!editOrder) return;
+    const controller = new AbortController();
+    apiFetch(`/api/orders/${editOrder.id}/transitions`, { signal: controller.signal })
+      .then(ensureOk)
+      .then((r) => r.json() as Promise<{ status: OrderStatus; next: OrderStatus[] }>)
+      .then(({ status, next }) => setAllowedStatuses([status, ...next]))
+      .catch(() => {
+        // Fall back to the current status only; the server rejects illegal moves anyway
+        if (!controller.signal.aborted) setAllowedStatuses([editOrder.status]);
+      });
+    return () => controller.abort();
+  }, [editOrder?.id, editOrder?.etag]);
+
+  // Load the edited order's history, again whenever a reload brings a newer version
+  React.useEffect(() => {
+    setHistory(null);
+    setHistoryError(null);
+    if (!editOrder) return;
+    const controller = new AbortController();
+    apiFetch(`/api/orders/${editOrder.id}/history`, { signal: controller.signal })
+      .then(ensureOk)
+      .then((r) => r.json() as Promise<AuditEntry[]>)
+      .then(setHistory)
+      .catch((err: unknown) => {
+        if (!controller.signal.aborted) setHistoryError(errorMessage(err));
+      });
+    return () => controller.abort();
+  }, [editOrder?.id, editOrder?.etag]);
+
+  // A different view shows different rows, so start a fresh selection
+  React.useEffect(() => {
+    setSelectedRows(new Set());
+    setBulkFailures([]);
+  }, [filters]);
+
+  // Reload the first page whenever the filters or sort change
   React.useEffect(() => {
+    const controller = new AbortController();
     setLoading(true);
     setFetchError(null);
-    fetch("/api/orders")
-      .then((r) => {
-        if (!r.ok) throw new Error(`HTTP ${r.status}`);
-        return r.json() as Promise<Order[]>;
+    apiFetch(`/api/orders?${ordersQuery(filters, sortState)}`, { signal: controller.signal })
+      .then(ensureOk)
+      .then((r) => r.json() as Promise<OrderPage>)
+      .then((page) => {
+        setView({ orders: page.items, total: page.total ?? page.items.length });
+        setContinuationToken(page.continuationToken);
+        setLoading(false);
       })
-      .then((data) => setOrders(data))
-      .catch((err: unknown) => setFetchError(String(err)))
-      .finally(() => setLoading(false));
-  }, []);
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return;
+        setFetchError(errorMessage(err));
+        setLoading(false);
+      });
+    return () => controller.abort();
+  }, [filters, sortState, reloadKey]);
 
-  // SSE – auto-append any new order pushed by the server
-  React.useEffect(() => {
-    const es = new EventSource("/api/orders/events");
-    es.onmessage = (e) => {
-      try {
-        const order: Order = JSON.parse(e.data as string);
-        setOrders((prev) => prev.some((o) => o.id === order.id) ? prev : [...prev, order]);
-      } catch { /* ignore */ }
-    };
-    return () => es.close();
-  }, []);
+  const loadMore = async () => {
+    if (!continuationToken) return;
+    setLoadingMore(true);
+    try {
+      const res = await ensureOk(await apiFetch(`/api/orders?${ordersQuery(filters, sortState, continuationToken)}`));
+      const page: OrderPage = await res.json();
+      setView((v) => ({
+        orders: [...v.orders, ...page.items.filter((o) => !v.orders.some((p) => p.id === o.id))],
+        total: page.total ?? v.total,
+      }));
+      setContinuationToken(page.continuationToken);
+    } catch (err) {
+      setFetchError(errorMessage(err));
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
-  const filtered = React.useMemo(
-    () => orders.filter((o) => {
-      const matchesSearch =
-        filter === "" ||
-        o.id.toLowerCase().includes(filter.toLowerCase());
-      const matchesCustomer =
-        customerFilter === "" ||
-        o.customer.toLowerCase().includes(customerFilter.toLowerCase());
-      const matchesStatus =
-        statusFilter.length === 0 || statusFilter.includes(o.status);
-      return matchesSearch && matchesCustomer && matchesStatus;
-    }),
-    [orders, filter, customerFilter, statusFilter]
-  );
+  // SSE – keep the loaded rows in step with changes made elsewhere
+  React.useEffect(() => subscribeOrderEvents<Order, CustomerOption>({
+    "order.created": addOrder,
+    "order.updated": applyOrderChange,
+    "order.deleted": ({ id, purged }) => {
+      // The trash view can't show a newly trashed order from its ID alone
+      if (viewRef.current.filters.trash && !purged) setReloadKey((k) => k + 1);
+      else removeOrder(id);
+    },
+    "order.restored": (order) => {
+      addOrder(order);
+      applyOrderChange(order);
+    },
+    "customer.created": upsertCustomer,
+    "customer.updated": (customer) => {
+      upsertCustomer(customer);
+      applyCustomerChange(customer);
+    },
+    "customer.deleted": ({ id }) => setCustomers((prev) => prev.filter((c) => c.id !== id)),
+    reset: () => setReloadKey((k) => k + 1),
+  }), []);
 
+  // Sorting is controlled: the header only records the choice, the server applies it
   const {
     getRows,
-    sort: { getSortDirection, toggleColumnSort, sort },
+    sort: { getSortDirection, toggleColumnSort },
+    selection: { allRowsSelected, someRowsSelected, toggleAllRows, toggleRow, isRowSelected },
   } = useTableFeatures(
-    { columns, items: filtered },
-    [useTableSort({ defaultSortState: { sortColumn: "date", sortDirection: "descending" } })]
+    { columns, items: orders, getRowId: (order) => order.id },
+    [
+      useTableSort({ sortState, onSortChange: (_e, next) => setSortState(next) }),
+      useTableSelection({
+        selectionMode: "multiselect",
+        selectedItems: selectedRows,
+        onSelectionChange: (_e, data) => setSelectedRows(data.selectedItems),
+      }),
+    ]
   );
 
-  const rows = sort(getRows());
+  const rows = getRows();
+  const isVisible = (columnId: TableColumnId) => visibleColumns.includes(columnId as OrderColumn);
+
+  // Trashed orders can only be restored, so they aren't selectable
+  const bulkStatuses = can("orders.edit")
+    ? ALL_STATUSES.filter((s) => s !== "Cancelled" || can("orders.cancel"))
+    : [];
+  const selectable = !showTrash && (can("orders.edit") || can("orders.delete"));
+  const selectedCount = orders.filter((o) => selectedRows.has(o.id)).length;
+
+  // Only roles that may cancel orders are offered Cancelled
+  const selectableStatuses = (allowedStatuses ?? (editOrder ? [editOrder.status] : []))
+    .filter((s) => s !== "Cancelled" || s === editOrder?.status || can("orders.cancel"));
 
   return (
     <FluentProvider theme={FLUENT_THEME[theme]} style={{ minHeight: "100vh", padding: "1.5rem" }}>
@@ -231,23 +775,32 @@ export default function App() {
         <Text as="h1" size={700} weight="semibold" block style={{ margin: 0 }}>
           Orders
         </Text>
-        <Button
-          appearance="primary"
-          icon={<AddRegular />}
-          onClick={() => { setNewDraft(emptyDraft()); setCreateError(null); setNewOrderOpen(true); }}
-        >
-          New Order
-        </Button>
+        {can("orders.create") && (
+          <>
+            <Button
+              appearance="primary"
+              icon={<AddRegular />}
+              onClick={() => { setNewDraft(emptyDraft()); resetCreate(); setNewOrderOpen(true); }}
+            >
+              New Order
+            </Button>
+            <Button icon={<ArrowUploadRegular />} onClick={() => setImportOpen(true)}>
+              Import
+            </Button>
+          </>
+        )}
       </div>
 
+      <ImportDialog open={importOpen} onClose={() => setImportOpen(false)} />
+
       {/* New Order dialog */}
       <Dialog
         open={newOrderOpen}
         onOpenChange={(_e: React.SyntheticEvent, data: DialogOpenChangeData) => {
-          if (!data.open) { setNewOrderOpen(false); setCreateError(null); }
+          if (!data.open) { setNewOrderOpen(false); resetCreate(); }
         }}
       >
-        <DialogSurface>
+        <DialogSurface style={{ maxWidth: "760px" }}>
           <DialogTitle>New Order</DialogTitle>
           <DialogBody>
             <DialogContent>
@@ -257,29 +810,27 @@ export default function App() {
                 </MessageBar>
               )}
               <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
-                <Field label="Customer" required>
-                  <Input
-                    value={newDraft.customer}
-                    onChange={(_e, d) => setNewDraft((p) => ({ ...p, customer: d.value }))}
+                <Field label="Customer" required validationMessage={createFieldErrors.customerId}>
+                  <CustomerPicker
+                    customers={customers}
+                    value={newDraft.customerId}
+                    onChange={(customerId) => setNewDraft((p) => ({ ...p, customerId }))}
                     autoFocus
                   />
                 </Field>
-                <Field label="Amount" required>
-                  <Input
-                    type="number"
-                    value={String(newDraft.amount)}
-                    onChange={(_e, d) =>
-                      setNewDraft((p) => ({ ...p, amount: parseFloat(d.value) || 0 }))
-                    }
-                  />
-                </Field>
+                <LineItemsEditor
+                  products={products}
+                  items={newDraft.lineItems}
+                  onChange={(lineItems) => setNewDraft((p) => ({ ...p, lineItems }))}
+                  fieldErrors={createFieldErrors}
+                />
               </div>
             </DialogContent>
             <DialogActions>
               <Button
                 appearance="primary"
                 onClick={handleCreate}
-                disabled={creating || !newDraft.customer.trim()}
+                disabled={creating || !newDraft.customerId || !isCompleteLineItems(newDraft.lineItems)}
               >
                 {creating ? "Creating…" : "Create"}
               </Button>
@@ -298,7 +849,7 @@ export default function App() {
           if (!data.open) closeEdit();
         }}
       >
-        <DialogSurface>
+        <DialogSurface style={{ maxWidth: "760px" }}>
           <DialogTitle>Edit Order {editOrder?.id}</DialogTitle>
           <DialogBody>
             <DialogContent>
@@ -307,42 +858,72 @@ export default function App() {
                   <MessageBarBody>{saveError}</MessageBarBody>
                 </MessageBar>
               )}
+              {conflict && (
+                <MessageBar intent="warning" layout="multiline" style={{ marginBottom: "0.75rem" }}>
+                  <MessageBarBody>
+                    <MessageBarTitle>This order changed</MessageBarTitle>
+                    Someone else saved {conflict.id} after you opened it. Reload their version or overwrite it with yours?
+                  </MessageBarBody>
+                  <MessageBarActions>
+                    <Button onClick={() => openEdit(conflict)} disabled={saving}>Reload</Button>
+                    <Button onClick={() => handleSave(true)} disabled={saving}>Overwrite</Button>
+                  </MessageBarActions>
+                </MessageBar>
+              )}
               <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
-                <Field label="Customer" required>
-                  <Input
-                    value={editDraft?.customer ?? ""}
-                    onChange={(_e, d) =>
-                      setEditDraft((prev) => prev ? { ...prev, customer: d.value } : prev)
+                <Field label="Customer" required validationMessage={saveFieldErrors.customerId}>
+                  <CustomerPicker
+                    customers={customers}
+                    value={editDraft?.customerId ?? ""}
+                    onChange={(customerId) =>
+                      setEditDraft((prev) => prev ? { ...prev, customerId } : prev)
                     }
                   />
                 </Field>
-                <Field label="Amount" required>
-                  <Input
-                    type="number"
-                    value={String(editDraft?.amount ?? "")}
-                    onChange={(_e, d) =>
-                      setEditDraft((prev) =>
-                        prev ? { ...prev, amount: parseFloat(d.value) || 0 } : prev
-                      )
-                    }
+                {editLines.length ? (
+                  <LineItemsEditor
+                    products={products}
+                    items={editLines}
+                    onChange={setEditLines}
+                    fieldErrors={saveFieldErrors}
                   />
-                </Field>
-                <Field label="Status" required>
+                ) : (
+                  // Orders from before line items only have an amount until lines are added
+                  <Field label="Amount" required validationMessage={saveFieldErrors.amount}>
+                    <div style={{ display: "flex", gap: "0.5rem" }}>
+                      <Input
+                        type="number"
+                        value={String(editDraft?.amount ?? "")}
+                        onChange={(_e, d) =>
+                          setEditDraft((prev) =>
+                            prev ? { ...prev, amount: parseFloat(d.value) || 0 } : prev
+                          )
+                        }
+                        style={{ flex: 1 }}
+                      />
+                      <Button icon={<AddRegular />} onClick={() => setEditLines([emptyLine()])}>
+                        Use line items
+                      </Button>
+                    </div>
+                  </Field>
+                )}
+                <Field label="Status" required validationMessage={saveFieldErrors.status}>
                   <Dropdown
                     value={editDraft?.status ?? ""}
                     selectedOptions={editDraft ? [editDraft.status] : []}
+                    disabled={!allowedStatuses || selectableStatuses.length < 2}
                     onOptionSelect={(_e, data) =>
                       setEditDraft((prev) =>
                         prev ? { ...prev, status: data.optionValue as OrderStatus } : prev
                       )
                     }
                   >
-                    {ALL_STATUSES.map((s) => (
+                    {selectableStatuses.map((s) => (
                       <Option key={s} value={s}>{s}</Option>
                     ))}
                   </Dropdown>
                 </Field>
-                <Field label="Date" required>
+                <Field label="Date" required validationMessage={saveFieldErrors.date}>
                   <Input
                     type="date"
                     value={editDraft?.date ?? ""}
@@ -352,9 +933,43 @@ export default function App() {
                   />
                 </Field>
               </div>
+              <div style={{ marginTop: "1.25rem" }}>
+                <Text weight="semibold" block style={{ marginBottom: "0.5rem" }}>History</Text>
+                {historyError ? (
+                  <Text size={200}>Could not load history: {historyError}</Text>
+                ) : !history ? (
+                  <Spinner size="tiny" />
+                ) : history.length === 0 ? (
+                  <Text size={200} italic>No changes recorded yet.</Text>
+                ) : (
+                  <ol style={{ listStyle: "none", margin: 0, padding: 0, maxHeight: "200px", overflowY: "auto" }}>
+                    {[...history].reverse().map((entry) => (
+                      <li key={`${entry.timestamp}-${entry.action}`} style={{ marginBottom: "0.5rem" }}>
+                        <Text size={200} block>
+                          <Text size={200} weight="semibold">{ACTION_LABELS[entry.action]}</Text>
+                          {" "}by {entry.actor} · {new Date(entry.timestamp).toLocaleString()}
+                        </Text>
+                        {entry.changes
+                          .filter((c) => c.field !== "deletedAt")
+                          .map((c) => (
+                            <Text key={c.field} size={200} block>
+                              {COLUMN_LABELS[c.field] ?? c.field}: {formatAuditValue(c.field, c.from)} → {formatAuditValue(c.field, c.to)}
+                            </Text>
+                          ))}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
             </DialogContent>
             <DialogActions>
-              <Button appearance="primary" onClick={handleSave} disabled={saving}>
+              <Button
+                appearance="primary"
+                onClick={() => handleSave()}
+                disabled={
+                  saving || !!conflict || !can("orders.edit") || (editLines.length > 0 && !isCompleteLineItems(editLines))
+                }
+              >
                 {saving ? "Saving…" : "Save"}
               </Button>
               <Button appearance="secondary" onClick={closeEdit} disabled={saving}>
@@ -365,19 +980,122 @@ export default function App() {
         </DialogSurface>
       </Dialog>
 
+      {/* Delete confirmation */}
+      <Dialog
+        open={!!deleteTarget}
+        onOpenChange={(_e: React.SyntheticEvent, data: DialogOpenChangeData) => {
+          if (!data.open) { setDeleteTarget(null); setDeleteError(null); }
+        }}
+      >
+        <DialogSurface>
+          <DialogTitle>Delete Order {deleteTarget?.id}?</DialogTitle>
+          <DialogBody>
+            <DialogContent>
+              {deleteError && (
+                <MessageBar intent="error" style={{ marginBottom: "0.75rem" }}>
+                  <MessageBarBody>{deleteError}</MessageBarBody>
+                </MessageBar>
+              )}
+              <Text>
+                The order for {deleteTarget?.customer} moves to the trash. It can be restored from there until
+                it is purged.
+              </Text>
+            </DialogContent>
+            <DialogActions>
+              <Button appearance="primary" onClick={handleDelete} disabled={deleting}>
+                {deleting ? "Deleting…" : "Delete"}
+              </Button>
+              <Button appearance="secondary" onClick={() => setDeleteTarget(null)} disabled={deleting}>
+                Cancel
+              </Button>
+            </DialogActions>
+          </DialogBody>
+        </DialogSurface>
+      </Dialog>
+
+      {restoreError && (
+        <MessageBar intent="error" style={{ marginBottom: "1rem" }}>
+          <MessageBarBody>{restoreError}</MessageBarBody>
+        </MessageBar>
+      )}
+
       {fetchError && (
         <MessageBar intent="error" style={{ marginBottom: "1rem" }}>
           <MessageBarBody>{fetchError}</MessageBarBody>
         </MessageBar>
       )}
 
+      {bulkError && (
+        <MessageBar intent="error" style={{ marginBottom: "1rem" }}>
+          <MessageBarBody>{bulkError}</MessageBarBody>
+          <MessageBarActions>
+            <Button appearance="transparent" onClick={() => setBulkError(null)}>Dismiss</Button>
+          </MessageBarActions>
+        </MessageBar>
+      )}
+
+      {bulkFailures.length > 0 && (
+        <MessageBar intent="warning" layout="multiline" style={{ marginBottom: "1rem" }}>
+          <MessageBarBody>
+            <MessageBarTitle>
+              {bulkFailures.length} {bulkFailures.length === 1 ? "order was" : "orders were"} not changed
+            </MessageBarTitle>
+            <ul style={{ margin: "0.25rem 0 0", paddingLeft: "1.25rem" }}>
+              {bulkFailures.map((f) => (
+                <li key={f.id}><Text font="monospace">{f.id}</Text>: {f.detail}</li>
+              ))}
+            </ul>
+          </MessageBarBody>
+          <MessageBarActions>
+            <Button appearance="transparent" onClick={() => setBulkFailures([])}>Dismiss</Button>
+          </MessageBarActions>
+        </MessageBar>
+      )}
+
+      {linkError && (
+        <MessageBar intent="warning" style={{ marginBottom: "1rem" }}>
+          <MessageBarBody>{linkError}</MessageBarBody>
+          <MessageBarActions>
+            <Button appearance="transparent" onClick={() => setLinkError(null)}>Dismiss</Button>
+          </MessageBarActions>
+        </MessageBar>
+      )}
+
+      {exportError && (
+        <MessageBar intent="error" style={{ marginBottom: "1rem" }}>
+          <MessageBarBody>{exportError}</MessageBarBody>
+          <MessageBarActions>
+            <Button appearance="transparent" onClick={() => setExportError(null)}>Dismiss</Button>
+          </MessageBarActions>
+        </MessageBar>
+      )}
+
+      {viewError && (
+        <MessageBar intent="error" style={{ marginBottom: "1rem" }}>
+          <MessageBarBody>{viewError}</MessageBarBody>
+          <MessageBarActions>
+            <Button appearance="transparent" onClick={() => setViewError(null)}>Dismiss</Button>
+          </MessageBarActions>
+        </MessageBar>
+      )}
+
+      {channelView && (channelView.customerId || channelView.dateFrom || channelView.dateTo) && (
+        <Text size={200} block style={{ marginBottom: "0.5rem" }}>
+          This tab shows {channelView.customerId
+            ? `orders of ${customers.find((c) => c.id === channelView.customerId)?.name ?? channelView.customerId}`
+            : "all orders"}
+          {channelView.dateFrom && ` from ${channelView.dateFrom}`}
+          {channelView.dateTo && ` until ${channelView.dateTo}`}. Change it in the tab's settings.
+        </Text>
+      )}
+
       <div style={{ display: "flex", flexWrap: "wrap", gap: "1rem", alignItems: "flex-end", marginBottom: "1rem" }}>
         <div style={{ display: "flex", flexDirection: "column", gap: "4px" }}>
           <Label htmlFor="search-input">Order ID</Label>
           <Input
             id="search-input"
             contentBefore={<SearchRegular />}
-            placeholder="Search by ID…"
+            placeholder="ID starts with…"
             value={filter}
             onChange={(_e, d) => setFilter(d.value)}
             style={{ width: "220px" }}
@@ -411,8 +1129,46 @@ export default function App() {
             ))}
           </Dropdown>
         </div>
+        <ToggleButton
+          icon={<DeleteRegular />}
+          checked={showTrash}
+          onClick={() => { setShowTrash((t) => !t); setRestoreError(null); }}
+        >
+          Trash
+        </ToggleButton>
+        <div style={{ display: "flex", gap: "0.5rem", marginLeft: "auto" }}>
+          <SavedViewsMenu
+            views={savedViews}
+            userId={user?.userId}
+            active={savedViews.find((v) => v.id === activeViewId)}
+            current={currentSettings}
+            onApply={applyView}
+            onSaved={handleViewSaved}
+            onDeleted={handleViewDeleted}
+            onError={setViewError}
+          />
+          <ColumnsMenu columns={ALL_COLUMNS} labels={COLUMN_LABELS} visible={visibleColumns} onChange={setVisibleColumns} />
+          <ExportMenu
+            path="/api/orders/export"
+            params={viewParams(filters, sortState)}
+            onError={setExportError}
+          />
+        </div>
       </div>
 
+      {selectable && selectedCount > 0 && (
+        <BulkActionBar
+          count={selectedCount}
+          customers={customers}
+          statuses={bulkStatuses}
+          canReassign={can("orders.edit")}
+          canDelete={can("orders.delete")}
+          busy={bulkBusy}
+          onApply={handleBulk}
+          onClear={() => setSelectedRows(new Set())}
+        />
+      )}
+
       {loading ? (
         <Spinner label="Loading orders…" />
       ) : (
@@ -420,7 +1176,14 @@ export default function App() {
           <Table sortable aria-label="Orders table">
             <TableHeader>
               <TableRow>
-                  {columns.map((col) => (
+                {selectable && (
+                  <TableSelectionCell
+                    checked={allRowsSelected ? true : someRowsSelected ? "mixed" : false}
+                    onClick={toggleAllRows}
+                    checkboxIndicator={{ "aria-label": "Select all loaded orders" }}
+                  />
+                )}
+                {columns.filter((col) => isVisible(col.columnId)).map((col) => (
                   <TableHeaderCell
                     key={col.columnId as string}
                     sortDirection={getSortDirection(col.columnId)}
@@ -430,54 +1193,99 @@ export default function App() {
                     {COLUMN_LABELS[col.columnId as string]}
                   </TableHeaderCell>
                 ))}
-                <TableHeaderCell style={{ width: "48px" }} />
+                <TableHeaderCell style={{ width: "128px" }} />
               </TableRow>
             </TableHeader>
             <TableBody>
               {rows.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={5}>
-                    <Text italic>No orders found.</Text>
+                  <TableCell colSpan={visibleColumns.length + (selectable ? 2 : 1)}>
+                    <Text italic>{showTrash ? "The trash is empty." : "No orders found."}</Text>
                   </TableCell>
                 </TableRow>
               ) : (
-                rows.map(({ item: order }) => (
-                  <TableRow key={order.id}>
-                    <TableCell>
-                      <TableCellLayout>
-                        <Text font="monospace">{order.id}</Text>
-                      </TableCellLayout>
-                    </TableCell>
-                    <TableCell>{order.customer}</TableCell>
-                    <TableCell style={{ textAlign: "right" }}>
-                      {order.amount.toLocaleString("en-US", { style: "currency", currency: "USD" })}
-                    </TableCell>
-                    <TableCell>
-                      <Badge
-                        appearance="tint"
-                        color={STATUS_APPEARANCE[order.status]}
-                        shape="rounded"
-                      >
-                        {order.status}
-                      </Badge>
-                    </TableCell>
-                    <TableCell>{order.date}</TableCell>
-                    <TableCell style={{ width: "48px" }}>
-                      <Button
-                        appearance="subtle"
-                        icon={<EditRegular />}
-                        aria-label={`Edit ${order.id}`}
-                        onClick={() => openEdit(order)}
+                rows.map(({ item: order, rowId }) => (
+                  <TableRow key={order.id} aria-selected={selectable ? isRowSelected(rowId) : undefined}>
+                    {selectable && (
+                      <TableSelectionCell
+                        checked={isRowSelected(rowId)}
+                        onClick={(e) => toggleRow(e, rowId)}
+                        checkboxIndicator={{ "aria-label": `Select ${order.id}` }}
                       />
+                    )}
+                    {isVisible("id") && (
+                      <TableCell>
+                        <TableCellLayout>
+                          <Text font="monospace">{order.id}</Text>
+                        </TableCellLayout>
+                      </TableCell>
+                    )}
+                    {isVisible("customer") && <TableCell>{order.customer}</TableCell>}
+                    {isVisible("amount") && (
+                      <TableCell style={{ textAlign: "right" }}>
+                        {order.amount.toLocaleString("en-US", { style: "currency", currency: "USD" })}
+                      </TableCell>
+                    )}
+                    {isVisible("status") && (
+                      <TableCell>
+                        <Badge
+                          appearance="tint"
+                          color={STATUS_APPEARANCE[order.status]}
+                          shape="rounded"
+                        >
+                          {order.status}
+                        </Badge>
+                      </TableCell>
+                    )}
+                    {isVisible("date") && <TableCell>{order.date}</TableCell>}
+                    <TableCell style={{ width: "128px" }}>
+                      {order.deletedAt ? (
+                        <Button
+                          appearance="subtle"
+                          icon={<ArrowUndoRegular />}
+                          aria-label={`Restore ${order.id}`}
+                          title={`Deleted ${new Date(order.deletedAt).toLocaleString()}`}
+                          disabled={!can("orders.delete")}
+                          onClick={() => handleRestore(order)}
+                        />
+                      ) : (
+                        <>
+                          <Button
+                            appearance="subtle"
+                            icon={<EditRegular />}
+                            aria-label={`Edit ${order.id}`}
+                            disabled={!can("orders.edit")}
+                            onClick={() => openEdit(order)}
+                          />
+                          <CopyLinkButton
+                            label={order.id}
+                            link={() => tabDeepLink(HOME_TAB, order.id, teamsAppId.current)}
+                          />
+                          <Button
+                            appearance="subtle"
+                            icon={<DeleteRegular />}
+                            aria-label={`Delete ${order.id}`}
+                            disabled={!can("orders.delete")}
+                            onClick={() => { setDeleteError(null); setDeleteTarget(order); }}
+                          />
+                        </>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))
               )}
             </TableBody>
           </Table>
-          <Text size={200} style={{ marginTop: "0.75rem", display: "block" }}>
-            {rows.length} of {orders.length} orders
-          </Text>
+          <div style={{ display: "flex", alignItems: "center", gap: "1rem", marginTop: "0.75rem" }}>
+            <Text size={200}>
+              {rows.length} of {total} {showTrash ? "deleted orders" : "orders"}
+            </Text>
+            {continuationToken && (
+              <Button size="small" onClick={loadMore} disabled={loadingMore}>
+                {loadingMore ? "Loading…" : "Load more"}
+              </Button>
+            )}
+          </div>
         </>
       )}
     </FluentProvider>
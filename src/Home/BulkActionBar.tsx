@@ -0,0 +1,118 @@
+import React from "react";
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogBody,
+  DialogContent,
+  DialogSurface,
+  DialogTitle,
+  Dropdown,
+  Option,
+  Text,
+  type DialogOpenChangeData,
+} from "@fluentui/react-components";
+import { DeleteRegular, DismissRegular } from "@fluentui/react-icons";
+
+import { CustomerPicker, type CustomerOption } from "./CustomerPicker";
+
+/** The change `POST /api/orders/bulk` applies to every selected order; mirrors `BulkChange` in `src/ordersService.ts`. */
+export type BulkChange =
+  | { action: "setStatus"; status: string }
+  | { action: "reassignCustomer"; customerId: string }
+  | { action: "delete" };
+
+interface BulkActionBarProps {
+  /** Number of selected orders. */
+  count: number;
+  customers: CustomerOption[];
+  /** Statuses the user may move orders to; empty hides the status action. */
+  statuses: string[];
+  canReassign: boolean;
+  canDelete: boolean;
+  /** True while a bulk request is running. */
+  busy: boolean;
+  onApply: (change: BulkChange) => void;
+  onClear: () => void;
+}
+
+/** Toolbar shown above the orders table while rows are selected. */
+export function BulkActionBar({
+  count, customers, statuses, canReassign, canDelete, busy, onApply, onClear,
+}: BulkActionBarProps) {
+  // Pickers reset after each action so the next one starts blank
+  const [pickerKey, setPickerKey] = React.useState(0);
+  const [confirmDelete, setConfirmDelete] = React.useState(false);
+
+  const apply = (change: BulkChange) => {
+    onApply(change);
+    setPickerKey((k) => k + 1);
+  };
+
+  const label = `${count} ${count === 1 ? "order" : "orders"}`;
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Bulk actions"
+      style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: "0.75rem", marginBottom: "0.75rem" }}
+    >
+      <Text weight="semibold">{label} selected</Text>
+      {statuses.length > 0 && (
+        <Dropdown
+          key={`status-${pickerKey}`}
+          placeholder="Set status…"
+          disabled={busy}
+          onOptionSelect={(_e, data) => data.optionValue && apply({ action: "setStatus", status: data.optionValue })}
+          style={{ minWidth: "160px" }}
+        >
+          {statuses.map((s) => (
+            <Option key={s} value={s}>{s}</Option>
+          ))}
+        </Dropdown>
+      )}
+      {canReassign && (
+        <div style={{ width: "220px" }}>
+          <CustomerPicker
+            key={`customer-${pickerKey}`}
+            customers={customers}
+            value=""
+            onChange={(customerId) => !busy && apply({ action: "reassignCustomer", customerId })}
+          />
+        </div>
+      )}
+      {canDelete && (
+        <Button icon={<DeleteRegular />} disabled={busy} onClick={() => setConfirmDelete(true)}>
+          Delete
+        </Button>
+      )}
+      <Button appearance="subtle" icon={<DismissRegular />} disabled={busy} onClick={onClear}>
+        Clear selection
+      </Button>
+
+      <Dialog
+        open={confirmDelete}
+        onOpenChange={(_e: React.SyntheticEvent, data: DialogOpenChangeData) => setConfirmDelete(data.open)}
+      >
+        <DialogSurface>
+          <DialogTitle>Delete {label}?</DialogTitle>
+          <DialogBody>
+            <DialogContent>
+              <Text>
+                The selected orders move to the trash. They can be restored from there until they are purged.
+              </Text>
+            </DialogContent>
+            <DialogActions>
+              <Button appearance="primary" onClick={() => { setConfirmDelete(false); apply({ action: "delete" }); }}>
+                Delete
+              </Button>
+              <Button appearance="secondary" onClick={() => setConfirmDelete(false)}>
+                Cancel
+              </Button>
+            </DialogActions>
+          </DialogBody>
+        </DialogSurface>
+      </Dialog>
+    </div>
+  );
+}
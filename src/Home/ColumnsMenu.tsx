@@ -0,0 +1,42 @@
+import { Button, Menu, MenuItemCheckbox, MenuList, MenuPopover, MenuTrigger } from "@fluentui/react-components";
+import { ColumnEditRegular } from "@fluentui/react-icons";
+
+interface ColumnsMenuProps<C extends string> {
+  /** Every column of the table, in table order. */
+  columns: readonly C[];
+  labels: Record<C, string>;
+  visible: C[];
+  /** Called with the visible columns in table order; never with none. */
+  onChange: (visible: C[]) => void;
+}
+
+/** "Columns" button that shows or hides table columns. The last visible column can't be hidden. */
+export function ColumnsMenu<C extends string>({ columns, labels, visible, onChange }: ColumnsMenuProps<C>) {
+  return (
+    <Menu
+      checkedValues={{ columns: visible }}
+      onCheckedValueChange={(_e, data) => {
+        if (data.checkedItems.length === 0) return;
+        onChange(columns.filter((c) => data.checkedItems.includes(c)));
+      }}
+    >
+      <MenuTrigger disableButtonEnhancement>
+        <Button icon={<ColumnEditRegular />}>Columns</Button>
+      </MenuTrigger>
+      <MenuPopover>
+        <MenuList>
+          {columns.map((c) => (
+            <MenuItemCheckbox
+              key={c}
+              name="columns"
+              value={c}
+              disabled={visible.length === 1 && visible[0] === c}
+            >
+              {labels[c]}
+            </MenuItemCheckbox>
+          ))}
+        </MenuList>
+      </MenuPopover>
+    </Menu>
+  );
+}
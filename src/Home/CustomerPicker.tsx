@@ -0,0 +1,53 @@
+import React from "react";
+import { Combobox, Option } from "@fluentui/react-components";
+
+export interface CustomerOption {
+  id: string;
+  name: string;
+}
+
+interface CustomerPickerProps {
+  customers: CustomerOption[];
+  /** ID of the selected customer, or "" for none. */
+  value: string;
+  onChange: (customerId: string) => void;
+  autoFocus?: boolean;
+}
+
+/** Searchable list of customers; typing narrows the options by name. */
+export function CustomerPicker({ customers, value, onChange, autoFocus }: CustomerPickerProps) {
+  const selectedName = customers.find((c) => c.id === value)?.name ?? "";
+  const [query, setQuery] = React.useState(selectedName);
+
+  // Show the selected name again when the selection (or its name) changes elsewhere
+  React.useEffect(() => setQuery(selectedName), [selectedName]);
+
+  const needle = query.trim().toLowerCase();
+  const matches = needle && needle !== selectedName.toLowerCase()
+    ? customers.filter((c) => c.name.toLowerCase().includes(needle))
+    : customers;
+
+  return (
+    <Combobox
+      placeholder="Search customers…"
+      value={query}
+      selectedOptions={value ? [value] : []}
+      onChange={(e) => setQuery(e.target.value)}
+      onOptionSelect={(_e, d) => {
+        if (!d.optionValue) return;
+        onChange(d.optionValue);
+        setQuery(d.optionText ?? "");
+      }}
+      onBlur={() => setQuery(selectedName)}
+      autoFocus={autoFocus}
+    >
+      {matches.length === 0 ? (
+        <Option disabled value="" text="">No matching customers</Option>
+      ) : (
+        matches.map((c) => (
+          <Option key={c.id} value={c.id} text={c.name}>{c.name}</Option>
+        ))
+      )}
+    </Combobox>
+  );
+}
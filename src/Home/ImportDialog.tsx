@@ -0,0 +1,388 @@
+import React from "react";
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogBody,
+  DialogContent,
+  DialogSurface,
+  DialogTitle,
+  Dropdown,
+  Field,
+  MessageBar,
+  MessageBarBody,
+  Option,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHeader,
+  TableHeaderCell,
+  TableRow,
+  Text,
+  type DialogOpenChangeData,
+} from "@fluentui/react-components";
+import { ArrowUploadRegular } from "@fluentui/react-icons";
+
+import { ApiError, apiFetch, ensureOk, errorMessage } from "../shared/api";
+
+/** Order fields a CSV column can be mapped to; mirrors `IMPORT_FIELDS` in `src/orderImport.ts`. */
+type ImportField = "reference" | "customer" | "status" | "date" | "sku" | "quantity" | "unitPrice" | "discountPercent";
+
+type ImportMapping = Partial<Record<ImportField, string>>;
+
+interface ImportError {
+  line: number;
+  field: string;
+  message: string;
+}
+
+/** One order of `POST /api/orders/import`'s result. */
+interface ImportedOrder {
+  lines: number[];
+  id?: string;
+  customer?: string;
+  status?: string;
+  date?: string;
+  lineItems: unknown[];
+  amount?: number;
+  errors: ImportError[];
+}
+
+interface ImportResult {
+  dryRun: boolean;
+  imported: number;
+  skipped: number;
+  orders: ImportedOrder[];
+}
+
+interface FieldInfo {
+  field: ImportField;
+  label: string;
+  required?: boolean;
+  hint: string;
+  /** Header names (lowercase, letters and digits only) picked for this field automatically. */
+  aliases: string[];
+}
+
+const FIELDS: FieldInfo[] = [
+  { field: "customer",        label: "Customer",        required: true, hint: "Customer ID or exact name",   aliases: ["customer", "customername", "customerid", "client", "account"] },
+  { field: "sku",             label: "Product SKU",     required: true, hint: "One line item per row",        aliases: ["sku", "productsku", "product", "item", "itemsku"] },
+  { field: "quantity",        label: "Quantity",        hint: "Defaults to 1",                                 aliases: ["quantity", "qty", "units", "count"] },
+  { field: "reference",       label: "Order reference", hint: "Rows sharing one become a single order",        aliases: ["reference", "ref", "orderreference", "orderref", "ordernumber", "order"] },
+  { field: "status",          label: "Status",          hint: "Only Submitted; change it after importing",     aliases: ["status", "state", "orderstatus"] },
+  { field: "date",            label: "Date",            hint: "YYYY-MM-DD; defaults to today",                 aliases: ["date", "orderdate", "ordered"] },
+  { field: "unitPrice",       label: "Unit price",      hint: "Defaults to the catalog price",                 aliases: ["unitprice", "price"] },
+  { field: "discountPercent", label: "Discount %",      hint: "0–100",                                         aliases: ["discount", "discountpercent", "discountpct"] },
+];
+
+/** Orders listed in the preview; the counts above it cover the rest. */
+const PREVIEW_LIMIT = 200;
+
+const NOT_MAPPED = "";
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/** Reads the first record of a CSV file, honouring quoted fields. */
+function readCsvHeaders(text: string): string[] {
+  const headers: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === ",") {
+      headers.push(cell.trim());
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      break;
+    } else {
+      cell += ch;
+    }
+  }
+  headers.push(cell.trim());
+  return headers.filter(Boolean);
+}
+
+/** Maps every field whose name or alias matches a header. */
+function guessMapping(headers: string[]): ImportMapping {
+  const mapping: ImportMapping = {};
+  for (const { field, aliases } of FIELDS) {
+    const header = headers.find((h) => aliases.includes(normalizeHeader(h)));
+    if (header && !Object.values(mapping).includes(header)) mapping[field] = header;
+  }
+  return mapping;
+}
+
+function importUrl(mapping: ImportMapping, dryRun: boolean): string {
+  const params = new URLSearchParams({ dryRun: String(dryRun) });
+  for (const [field, header] of Object.entries(mapping)) {
+    if (header) params.set(field, header);
+  }
+  return `/api/orders/import?${params}`;
+}
+
+function formatLines(lines: number[]): string {
+  return lines.length === 1 ? `Line ${lines[0]}` : `Lines ${lines.join(", ")}`;
+}
+
+interface ImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Three-step CSV import: pick a file, map its columns to order fields, then
+ * review the server's validation of every row before importing. Imported
+ * orders reach the table through the usual `order.created` events.
+ */
+export function ImportDialog({ open, onClose }: ImportDialogProps) {
+  const [fileName, setFileName] = React.useState("");
+  const [csv, setCsv] = React.useState("");
+  const [headers, setHeaders] = React.useState<string[]>([]);
+  const [mapping, setMapping] = React.useState<ImportMapping>({});
+  const [preview, setPreview] = React.useState<ImportResult | null>(null);
+  const [result, setResult] = React.useState<ImportResult | null>(null);
+  const [onlyProblems, setOnlyProblems] = React.useState(false);
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [mappingErrors, setMappingErrors] = React.useState<Record<string, string>>({});
+  const fileInput = React.useRef<HTMLInputElement>(null);
+
+  function reset() {
+    setFileName("");
+    setCsv("");
+    setHeaders([]);
+    setMapping({});
+    setPreview(null);
+    setResult(null);
+    setOnlyProblems(false);
+    setError(null);
+    setMappingErrors({});
+  }
+
+  function close() {
+    reset();
+    onClose();
+  }
+
+  async function handleFile(file: File | undefined) {
+    if (!file) return;
+    reset();
+    const text = await file.text();
+    const found = readCsvHeaders(text);
+    setFileName(file.name);
+    setCsv(text);
+    setHeaders(found);
+    setMapping(guessMapping(found));
+    if (!found.length) setError("The file has no header row.");
+  }
+
+  async function send(dryRun: boolean): Promise<ImportResult | null> {
+    setBusy(true);
+    setError(null);
+    setMappingErrors({});
+    try {
+      const res = await ensureOk(await apiFetch(importUrl(mapping, dryRun), {
+        method: "POST",
+        headers: { "Content-Type": "text/csv" },
+        body: csv,
+      }));
+      return (await res.json()) as ImportResult;
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 422) setMappingErrors(err.fieldErrors);
+      setError(errorMessage(err));
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handlePreview() {
+    const checked = await send(true);
+    if (checked) {
+      setPreview(checked);
+      setOnlyProblems(checked.skipped > 0);
+    }
+  }
+
+  async function handleImport() {
+    const done = await send(false);
+    if (done) {
+      setPreview(null);
+      setResult(done);
+    }
+  }
+
+  const missingRequired = FIELDS.some((f) => f.required && !mapping[f.field]);
+  const shown = (result ?? preview)?.orders.filter((o) => !onlyProblems || o.errors.length > 0) ?? [];
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(_e: React.SyntheticEvent, data: DialogOpenChangeData) => {
+        if (!data.open && !busy) close();
+      }}
+    >
+      <DialogSurface style={{ maxWidth: "900px" }}>
+        <DialogTitle>Import Orders</DialogTitle>
+        <DialogBody>
+          <DialogContent>
+            {error && (
+              <MessageBar intent="error" style={{ marginBottom: "0.75rem" }}>
+                <MessageBarBody>{error}</MessageBarBody>
+              </MessageBar>
+            )}
+
+            {!preview && !result && (
+              <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
+                <div style={{ display: "flex", alignItems: "center", gap: "0.75rem" }}>
+                  <input
+                    ref={fileInput}
+                    type="file"
+                    accept=".csv,text/csv"
+                    style={{ display: "none" }}
+                    onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ""; }}
+                  />
+                  <Button icon={<ArrowUploadRegular />} onClick={() => fileInput.current?.click()}>
+                    {fileName ? "Choose another file" : "Choose CSV file"}
+                  </Button>
+                  {fileName && <Text>{fileName}</Text>}
+                </div>
+                {!fileName && (
+                  <Text>
+                    The first row must hold the column headers. Each row is one line item; rows with the same order
+                    reference are combined into one order.
+                  </Text>
+                )}
+                {headers.length > 0 && (
+                  <div style={{ display: "grid", gridTemplateColumns: "repeat(2, minmax(0, 1fr))", gap: "0.75rem" }}>
+                    {FIELDS.map(({ field, label, required, hint }) => (
+                      <Field
+                        key={field}
+                        label={label}
+                        required={required}
+                        hint={hint}
+                        validationMessage={mappingErrors[field]}
+                      >
+                        <Dropdown
+                          placeholder="Not imported"
+                          value={mapping[field] ?? ""}
+                          selectedOptions={[mapping[field] ?? NOT_MAPPED]}
+                          onOptionSelect={(_e, d) =>
+                            setMapping((m) => ({ ...m, [field]: d.optionValue === NOT_MAPPED ? undefined : d.optionValue }))
+                          }
+                        >
+                          <Option value={NOT_MAPPED} text="Not imported">Not imported</Option>
+                          {headers.map((h) => (
+                            <Option key={h} value={h}>{h}</Option>
+                          ))}
+                        </Dropdown>
+                      </Field>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {(preview || result) && (
+              <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
+                {result ? (
+                  <MessageBar intent={result.skipped ? "warning" : "success"}>
+                    <MessageBarBody>
+                      Imported {result.imported} order(s)
+                      {result.skipped > 0 && `; ${result.skipped} were skipped because of the problems below`}.
+                    </MessageBarBody>
+                  </MessageBar>
+                ) : (
+                  <Text>
+                    {preview!.imported} order(s) ready to import
+                    {preview!.skipped > 0 && `, ${preview!.skipped} with problems that will be skipped`}.
+                  </Text>
+                )}
+                <Switch
+                  label="Only show orders with problems"
+                  checked={onlyProblems}
+                  onChange={(_e, d) => setOnlyProblems(d.checked)}
+                />
+                <div style={{ maxHeight: "50vh", overflowY: "auto" }}>
+                  <Table size="small" aria-label="Import preview">
+                    <TableHeader>
+                      <TableRow>
+                        <TableHeaderCell style={{ width: "110px" }}>Rows</TableHeaderCell>
+                        {result && <TableHeaderCell style={{ width: "90px" }}>ID</TableHeaderCell>}
+                        <TableHeaderCell>Customer</TableHeaderCell>
+                        <TableHeaderCell style={{ width: "100px" }}>Status</TableHeaderCell>
+                        <TableHeaderCell style={{ width: "100px" }}>Date</TableHeaderCell>
+                        <TableHeaderCell style={{ width: "60px" }}>Items</TableHeaderCell>
+                        <TableHeaderCell style={{ width: "110px", textAlign: "right" }}>Amount</TableHeaderCell>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {shown.slice(0, PREVIEW_LIMIT).map((order) => (
+                        <React.Fragment key={order.lines[0]}>
+                          <TableRow>
+                            <TableCell>{formatLines(order.lines)}</TableCell>
+                            {result && <TableCell>{order.id ?? "—"}</TableCell>}
+                            <TableCell>{order.customer ?? "—"}</TableCell>
+                            <TableCell>{order.status}</TableCell>
+                            <TableCell>{order.date}</TableCell>
+                            <TableCell>{order.lineItems.length}</TableCell>
+                            <TableCell style={{ textAlign: "right" }}>
+                              {order.amount?.toLocaleString("en-US", { style: "currency", currency: "USD" }) ?? "—"}
+                            </TableCell>
+                          </TableRow>
+                          {order.errors.length > 0 && (
+                            <TableRow>
+                              <TableCell colSpan={result ? 7 : 6}>
+                                {order.errors.map((e, i) => (
+                                  <Text key={i} block size={200} style={{ color: "var(--colorPaletteRedForeground1)" }}>
+                                    Line {e.line}, {FIELDS.find((f) => f.field === e.field)?.label ?? e.field}: {e.message}
+                                  </Text>
+                                ))}
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </React.Fragment>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  {shown.length > PREVIEW_LIMIT && (
+                    <Text italic block style={{ marginTop: "0.5rem" }}>
+                      …and {shown.length - PREVIEW_LIMIT} more.
+                    </Text>
+                  )}
+                </div>
+              </div>
+            )}
+          </DialogContent>
+          <DialogActions>
+            {!preview && !result && (
+              <Button appearance="primary" onClick={handlePreview} disabled={busy || !csv || missingRequired}>
+                {busy ? "Checking…" : "Preview"}
+              </Button>
+            )}
+            {preview && (
+              <>
+                <Button appearance="primary" onClick={handleImport} disabled={busy || preview.imported === 0}>
+                  {busy ? "Importing…" : `Import ${preview.imported} order(s)`}
+                </Button>
+                <Button onClick={() => setPreview(null)} disabled={busy}>Back</Button>
+              </>
+            )}
+            <Button appearance="secondary" onClick={close} disabled={busy}>
+              {result ? "Close" : "Cancel"}
+            </Button>
+          </DialogActions>
+        </DialogBody>
+      </DialogSurface>
+    </Dialog>
+  );
+}
@@ -0,0 +1,131 @@
+import { Button, Dropdown, Field, Input, Option, Text } from "@fluentui/react-components";
+import { AddRegular, DismissRegular } from "@fluentui/react-icons";
+
+export interface Product {
+  sku: string;
+  name: string;
+  unitPrice: number;
+  taxRate: number;
+}
+
+/** A line item as edited in the dialogs; the server fills in the name and tax rate. */
+export interface LineItemDraft {
+  sku: string;
+  quantity: number;
+  unitPrice: number;
+  discountPercent: number;
+}
+
+const formatCurrency = (value: number) => value.toLocaleString("en-US", { style: "currency", currency: "USD" });
+
+/** Client-side preview of the server's line total: discounted net plus tax, in cents. */
+function previewLineTotal(item: LineItemDraft, product: Product | undefined): number {
+  const net = item.quantity * item.unitPrice * (1 - item.discountPercent / 100);
+  return Math.round(net * (1 + (product?.taxRate ?? 0)) * 100) / 100;
+}
+
+function previewOrderTotal(items: LineItemDraft[], products: Product[]): number {
+  const total = items.reduce((sum, item) => sum + previewLineTotal(item, products.find((p) => p.sku === item.sku)), 0);
+  return Math.round(total * 100) / 100;
+}
+
+/** True when every line has a product and a positive quantity. */
+export function isCompleteLineItems(items: LineItemDraft[]): boolean {
+  return items.length > 0 && items.every((item) => item.sku && item.quantity >= 1);
+}
+
+interface LineItemsEditorProps {
+  products: Product[];
+  items: LineItemDraft[];
+  onChange: (items: LineItemDraft[]) => void;
+  /** API field errors, keyed like `lineItems.0.quantity`. */
+  fieldErrors: Record<string, string>;
+}
+
+/** Rows of product, quantity, unit price and discount, with the computed total underneath. */
+export function LineItemsEditor({ products, items, onChange, fieldErrors }: LineItemsEditorProps) {
+  const update = (index: number, change: Partial<LineItemDraft>) =>
+    onChange(items.map((item, i) => (i === index ? { ...item, ...change } : item)));
+
+  const selectProduct = (index: number, sku: string) => {
+    const product = products.find((p) => p.sku === sku);
+    update(index, { sku, unitPrice: product?.unitPrice ?? 0 });
+  };
+
+  return (
+    <Field label="Line items" required validationMessage={fieldErrors.lineItems}>
+      <div style={{ display: "flex", flexDirection: "column", gap: "0.5rem" }}>
+        {items.map((item, index) => {
+          const product = products.find((p) => p.sku === item.sku);
+          const error = (field: keyof LineItemDraft) => fieldErrors[`lineItems.${index}.${field}`];
+          return (
+            <div key={index} style={{ display: "flex", gap: "0.5rem", alignItems: "flex-start" }}>
+              <Field validationMessage={error("sku")} style={{ flex: 3 }}>
+                <Dropdown
+                  aria-label="Product"
+                  placeholder="Product"
+                  value={product ? `${product.sku} · ${product.name}` : item.sku}
+                  selectedOptions={item.sku ? [item.sku] : []}
+                  onOptionSelect={(_e, d) => selectProduct(index, d.optionValue ?? "")}
+                  style={{ minWidth: 0 }}
+                >
+                  {products.map((p) => (
+                    <Option key={p.sku} value={p.sku} text={`${p.sku} · ${p.name}`}>
+                      {`${p.sku} · ${p.name}`}
+                    </Option>
+                  ))}
+                </Dropdown>
+              </Field>
+              <Field validationMessage={error("quantity")} style={{ flex: 1 }}>
+                <Input
+                  aria-label="Quantity"
+                  type="number"
+                  min={1}
+                  value={String(item.quantity)}
+                  onChange={(_e, d) => update(index, { quantity: parseInt(d.value, 10) || 0 })}
+                />
+              </Field>
+              <Field validationMessage={error("unitPrice")} style={{ flex: 1.5 }}>
+                <Input
+                  aria-label="Unit price"
+                  type="number"
+                  contentBefore="$"
+                  value={String(item.unitPrice)}
+                  onChange={(_e, d) => update(index, { unitPrice: parseFloat(d.value) || 0 })}
+                />
+              </Field>
+              <Field validationMessage={error("discountPercent")} style={{ flex: 1 }}>
+                <Input
+                  aria-label="Discount percent"
+                  type="number"
+                  contentAfter="%"
+                  value={String(item.discountPercent)}
+                  onChange={(_e, d) => update(index, { discountPercent: parseFloat(d.value) || 0 })}
+                />
+              </Field>
+              <Text style={{ flex: 1.5, textAlign: "right", paddingTop: "6px" }}>
+                {formatCurrency(previewLineTotal(item, product))}
+              </Text>
+              <Button
+                appearance="subtle"
+                icon={<DismissRegular />}
+                aria-label="Remove line"
+                onClick={() => onChange(items.filter((_, i) => i !== index))}
+              />
+            </div>
+          );
+        })}
+        <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between" }}>
+          <Button
+            size="small"
+            icon={<AddRegular />}
+            onClick={() => onChange([...items, { sku: "", quantity: 1, unitPrice: 0, discountPercent: 0 }])}
+          >
+            Add line
+          </Button>
+          <Text weight="semibold">Total incl. tax: {formatCurrency(previewOrderTotal(items, products))}</Text>
+        </div>
+      </div>
+    </Field>
+  );
+}
@@ -0,0 +1,306 @@
+import React from "react";
+import {
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogBody,
+  DialogContent,
+  DialogSurface,
+  DialogTitle,
+  Field,
+  Input,
+  Menu,
+  MenuDivider,
+  MenuGroup,
+  MenuGroupHeader,
+  MenuItem,
+  MenuList,
+  MenuPopover,
+  MenuTrigger,
+  MessageBar,
+  MessageBarBody,
+  Text,
+  type DialogOpenChangeData,
+} from "@fluentui/react-components";
+import {
+  ArrowResetRegular,
+  BookmarkRegular,
+  DeleteRegular,
+  PeopleRegular,
+  SaveRegular,
+  StarFilled,
+  StarRegular,
+} from "@fluentui/react-icons";
+
+import { ApiError, apiFetch, ensureOk, errorMessage } from "../shared/api";
+
+export type OrderColumn = "id" | "customer" | "amount" | "status" | "date";
+
+/** How a view shows the orders table; mirrors `ViewSettings` in `src/savedViews.ts`. */
+export interface ViewSettings {
+  filters: { idPrefix?: string; customer?: string; statuses?: string[] };
+  sort: { field: OrderColumn; direction: "ascending" | "descending" };
+  columns: OrderColumn[];
+}
+
+/** A view as returned by `GET /api/views`; mirrors `SavedView` in `src/savedViews.ts`. */
+export interface SavedView extends ViewSettings {
+  id: string;
+  name: string;
+  ownerId: string;
+  ownerName: string;
+  shared: boolean;
+  /** The owner's default; only meaningful on the user's own views. */
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type ViewChange = Partial<ViewSettings & { name: string; shared: boolean; isDefault: boolean }>;
+
+/** Compares settings regardless of the order statuses were picked in. */
+export function sameSettings(a: ViewSettings, b: ViewSettings): boolean {
+  const key = ({ filters, sort, columns }: ViewSettings) => JSON.stringify([
+    filters.idPrefix ?? "",
+    filters.customer ?? "",
+    [...(filters.statuses ?? [])].sort(),
+    sort.field,
+    sort.direction,
+    columns,
+  ]);
+  return key(a) === key(b);
+}
+
+interface SavedViewsMenuProps {
+  /** The user's own views followed by those shared with them, as `GET /api/views` lists them. */
+  views: SavedView[];
+  /** The signed-in user, whose views they may change; undefined while loading. */
+  userId: string | undefined;
+  /** The view last applied, if any. */
+  active: SavedView | undefined;
+  /** What the table shows right now, saved by "Save as" and "Update". */
+  current: ViewSettings;
+  /** Applies a view to the table; `null` goes back to the unfiltered table. */
+  onApply: (view: SavedView | null) => void;
+  /** Called after a view was created or changed, with the server's copy. */
+  onSaved: (view: SavedView) => void;
+  onDeleted: (id: string) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * "Views" button listing the user's saved views and those teammates shared.
+ * The user's own views can be updated from the table, shared, made their
+ * default or deleted; shared ones can only be applied or saved as a copy.
+ */
+export function SavedViewsMenu({ views, userId, active, current, onApply, onSaved, onDeleted, onError }: SavedViewsMenuProps) {
+  const [saveOpen, setSaveOpen] = React.useState(false);
+  const [draft, setDraft] = React.useState({ name: "", shared: false, isDefault: false });
+  const [saving, setSaving] = React.useState(false);
+  const [saveError, setSaveError] = React.useState<string | null>(null);
+  const [nameError, setNameError] = React.useState<string | undefined>();
+  const [deleteTarget, setDeleteTarget] = React.useState<SavedView | null>(null);
+  const [deleting, setDeleting] = React.useState(false);
+
+  const own = views.filter((v) => v.ownerId === userId);
+  const shared = views.filter((v) => v.ownerId !== userId);
+  const activeIsOwn = !!active && active.ownerId === userId;
+  const modified = !!active && !sameSettings(active, current);
+
+  const openSave = () => {
+    setDraft({ name: "", shared: false, isDefault: false });
+    setSaveError(null);
+    setNameError(undefined);
+    setSaveOpen(true);
+  };
+
+  const handleSaveAs = async () => {
+    setSaving(true);
+    setSaveError(null);
+    setNameError(undefined);
+    try {
+      const res = await ensureOk(await apiFetch("/api/views", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...current, ...draft }),
+      }));
+      onSaved(await res.json());
+      setSaveOpen(false);
+    } catch (err) {
+      if (err instanceof ApiError && err.fieldErrors.name) setNameError(err.fieldErrors.name);
+      else setSaveError(errorMessage(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const change = async (view: SavedView, patch: ViewChange) => {
+    try {
+      const res = await ensureOk(await apiFetch(`/api/views/${view.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(patch),
+      }));
+      onSaved(await res.json());
+    } catch (err) {
+      onError(`Could not change view "${view.name}": ${errorMessage(err)}`);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    setDeleting(true);
+    try {
+      await ensureOk(await apiFetch(`/api/views/${deleteTarget.id}`, { method: "DELETE" }));
+      onDeleted(deleteTarget.id);
+    } catch (err) {
+      onError(`Could not delete view "${deleteTarget.name}": ${errorMessage(err)}`);
+    } finally {
+      setDeleting(false);
+      setDeleteTarget(null);
+    }
+  };
+
+  return (
+    <>
+      <Menu>
+        <MenuTrigger disableButtonEnhancement>
+          <Button icon={<BookmarkRegular />}>
+            {active ? `${active.name}${modified ? " (edited)" : ""}` : "Views"}
+          </Button>
+        </MenuTrigger>
+        <MenuPopover>
+          <MenuList>
+            {own.length > 0 && (
+              <MenuGroup>
+                <MenuGroupHeader>My views</MenuGroupHeader>
+                {own.map((v) => (
+                  <MenuItem
+                    key={v.id}
+                    icon={v.isDefault ? <StarFilled /> : undefined}
+                    secondaryContent={v.shared ? "Shared" : undefined}
+                    onClick={() => onApply(v)}
+                  >
+                    {v.name}
+                  </MenuItem>
+                ))}
+              </MenuGroup>
+            )}
+            {shared.length > 0 && (
+              <MenuGroup>
+                <MenuGroupHeader>Shared with me</MenuGroupHeader>
+                {shared.map((v) => (
+                  <MenuItem key={v.id} secondaryContent={v.ownerName} onClick={() => onApply(v)}>
+                    {v.name}
+                  </MenuItem>
+                ))}
+              </MenuGroup>
+            )}
+            {views.length > 0 && <MenuDivider />}
+            <MenuItem icon={<SaveRegular />} onClick={openSave}>Save as new view…</MenuItem>
+            {active && activeIsOwn && (
+              <>
+                <MenuItem icon={<SaveRegular />} disabled={!modified} onClick={() => change(active, current)}>
+                  Update "{active.name}"
+                </MenuItem>
+                <MenuItem icon={<PeopleRegular />} onClick={() => change(active, { shared: !active.shared })}>
+                  {active.shared ? "Stop sharing" : "Share with teammates"}
+                </MenuItem>
+                <MenuItem
+                  icon={active.isDefault ? <StarFilled /> : <StarRegular />}
+                  onClick={() => change(active, { isDefault: !active.isDefault })}
+                >
+                  {active.isDefault ? "Don't open with this view" : "Open with this view"}
+                </MenuItem>
+                <MenuItem icon={<DeleteRegular />} onClick={() => setDeleteTarget(active)}>
+                  Delete "{active.name}"
+                </MenuItem>
+              </>
+            )}
+            {active && (
+              <MenuItem icon={<ArrowResetRegular />} onClick={() => onApply(null)}>Show all orders</MenuItem>
+            )}
+          </MenuList>
+        </MenuPopover>
+      </Menu>
+
+      <Dialog
+        open={saveOpen}
+        onOpenChange={(_e: React.SyntheticEvent, data: DialogOpenChangeData) => {
+          if (!data.open) setSaveOpen(false);
+        }}
+      >
+        <DialogSurface>
+          <DialogTitle>Save view</DialogTitle>
+          <DialogBody>
+            <DialogContent>
+              {saveError && (
+                <MessageBar intent="error" style={{ marginBottom: "0.75rem" }}>
+                  <MessageBarBody>{saveError}</MessageBarBody>
+                </MessageBar>
+              )}
+              <Text block style={{ marginBottom: "0.75rem" }}>
+                Saves the current filters, sort order and columns.
+              </Text>
+              <Field label="Name" required validationMessage={nameError}>
+                <Input
+                  value={draft.name}
+                  maxLength={100}
+                  autoFocus
+                  onChange={(_e, d) => setDraft((p) => ({ ...p, name: d.value }))}
+                />
+              </Field>
+              <Checkbox
+                label="Share with teammates"
+                checked={draft.shared}
+                onChange={(_e, d) => setDraft((p) => ({ ...p, shared: !!d.checked }))}
+              />
+              <Checkbox
+                label="Open the Orders tab with this view"
+                checked={draft.isDefault}
+                onChange={(_e, d) => setDraft((p) => ({ ...p, isDefault: !!d.checked }))}
+              />
+            </DialogContent>
+            <DialogActions>
+              <Button appearance="primary" onClick={handleSaveAs} disabled={saving || !draft.name.trim()}>
+                {saving ? "Saving…" : "Save"}
+              </Button>
+              <Button appearance="secondary" onClick={() => setSaveOpen(false)} disabled={saving}>
+                Cancel
+              </Button>
+            </DialogActions>
+          </DialogBody>
+        </DialogSurface>
+      </Dialog>
+
+      <Dialog
+        open={!!deleteTarget}
+        onOpenChange={(_e: React.SyntheticEvent, data: DialogOpenChangeData) => {
+          if (!data.open) setDeleteTarget(null);
+        }}
+      >
+        <DialogSurface>
+          <DialogTitle>Delete view "{deleteTarget?.name}"?</DialogTitle>
+          <DialogBody>
+            <DialogContent>
+              <Text>
+                {deleteTarget?.shared
+                  ? "Teammates you shared it with will no longer see it either."
+                  : "The orders it shows are not affected."}
+              </Text>
+            </DialogContent>
+            <DialogActions>
+              <Button appearance="primary" onClick={handleDelete} disabled={deleting}>
+                {deleting ? "Deleting…" : "Delete"}
+              </Button>
+              <Button appearance="secondary" onClick={() => setDeleteTarget(null)} disabled={deleting}>
+                Cancel
+              </Button>
+            </DialogActions>
+          </DialogBody>
+        </DialogSurface>
+      </Dialog>
+    </>
+  );
+}
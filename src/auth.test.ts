@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { authConfigFromEnv, bearerToken, createAuthenticator, type Identity } from "./auth.js";
+import { UnauthorizedError } from "./errors.js";
+
+const ada: Identity = {
+  userId: "00000000-0000-0000-0000-0000000000ad",
+  tenantId: "contoso",
+  name: "Ada Lovelace",
+  username: "ada@contoso.com",
+  groups: ["sales"],
+};
+
+function localAuthenticator() {
+  return createAuthenticator(authConfigFromEnv({ AUTH_MODE: "local" }));
+}
+
+describe("local tokens", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("verifies a token it issued back to the same identity", async () => {
+    const auth = localAuthenticator();
+    const { token } = await auth.issueLocalToken!(ada);
+    await expect(auth.verify(token)).resolves.toEqual(ada);
+  });
+
+  it("rejects a token signed with another key", async () => {
+    const { token } = await localAuthenticator().issueLocalToken!(ada);
+    await expect(localAuthenticator().verify(token)).rejects.toBeInstanceOf(UnauthorizedError);
+  });
+
+  it("rejects a token whose claims were changed after signing", async () => {
+    const auth = localAuthenticator();
+    const { token } = await auth.issueLocalToken!(ada);
+    const [header, payload, signature] = token.split(".");
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    const forged = Buffer.from(JSON.stringify({ ...claims, tid: "fabrikam" })).toString("base64url");
+    await expect(auth.verify(`${header}.${forged}.${signature}`)).rejects.toThrow("invalid or has expired");
+  });
+
+  it("accepts a token a little past its expiry but not beyond the clock tolerance", async () => {
+    vi.useFakeTimers();
+    const auth = localAuthenticator();
+    const { token, expiresOn } = await auth.issueLocalToken!(ada);
+    const expiry = Date.parse(expiresOn);
+
+    vi.setSystemTime(expiry + 60_000);
+    await expect(auth.verify(token)).resolves.toMatchObject({ userId: ada.userId });
+    vi.setSystemTime(expiry + 6 * 60_000);
+    await expect(auth.verify(token)).rejects.toBeInstanceOf(UnauthorizedError);
+  });
+});
+
+describe("auth configuration", () => {
+  it("accepts the client ID and its api:// URI as audiences in teams mode", () => {
+    const config = authConfigFromEnv({ AAD_APP_CLIENT_ID: "app-id" });
+    expect(config.mode).toBe("teams");
+    expect(config.audiences).toEqual(["app-id", "api://app-id"]);
+    expect(authConfigFromEnv({ AAD_APP_CLIENT_ID: "app-id", AUTH_AUDIENCE: "a, b" }).audiences).toEqual(["a", "b"]);
+  });
+
+  it("refuses teams mode without an audience, and unknown modes", () => {
+    expect(() => authConfigFromEnv({})).toThrow(/AAD_APP_CLIENT_ID/);
+    expect(() => authConfigFromEnv({ AUTH_MODE: "basic" })).toThrow(/Unknown AUTH_MODE/);
+  });
+
+  it("reads bearer tokens only from well-formed Authorization headers", () => {
+    expect(bearerToken("Bearer abc.def.ghi")).toBe("abc.def.ghi");
+    expect(bearerToken("bearer abc")).toBe("abc");
+    expect(bearerToken("Basic abc")).toBeUndefined();
+    expect(bearerToken(undefined)).toBeUndefined();
+  });
+});
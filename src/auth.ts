@@ -0,0 +1,163 @@
+import { generateKeyPairSync, type KeyObject } from "crypto";
+import { createRemoteJWKSet, jwtVerify, SignJWT, type JWTPayload, type JWTVerifyGetKey } from "jose";
+
+import { UnauthorizedError } from "./errors.js";
+
+/** The signed-in user behind a request, read from a validated token. */
+export interface Identity {
+  /** Entra object ID (`oid`) of the user; stable across sign-ins. */
+  userId: string;
+  /** Entra tenant ID (`tid`) the user signed in to. */
+  tenantId: string;
+  /** Display name, falling back to the user principal name or the object ID. */
+  name: string;
+  /** Sign-in name (`preferred_username`), e.g. `ada@contoso.com`. */
+  username?: string;
+  /** IDs of the Entra groups the user belongs to, when the token carries a `groups` claim. */
+  groups: string[];
+}
+
+/** `teams` validates Teams SSO tokens from Entra ID; `local` signs and checks tokens with a key made at start-up. */
+export type AuthMode = "teams" | "local";
+
+export interface AuthConfig {
+  mode: AuthMode;
+  /** Accepted `aud` values. */
+  audiences: string[];
+  /** Accepted `iss` values; `{tenantid}` stands for the token's own `tid`. */
+  issuers: string[];
+  /** Where the token signing keys are published. Unused in `local` mode. */
+  jwksUri: string;
+}
+
+export interface Authenticator {
+  readonly mode: AuthMode;
+  /** Checks the signature, issuer, audience and lifetime of `token`, or throws `UnauthorizedError`. */
+  verify(token: string): Promise<Identity>;
+  /**
+   * Signs a token for `identity` with the local key. Only present in `local`
+   * mode, so development and test clients can call the API without Teams.
+   */
+  issueLocalToken?(identity: Identity): Promise<{ token: string; expiresOn: string }>;
+}
+
+const LOCAL_ISSUER = "urn:contoso-orders:local";
+const LOCAL_AUDIENCE = "urn:contoso-orders:api";
+const LOCAL_KEY_ID = "local";
+const LOCAL_TOKEN_LIFETIME = 60 * 60; // seconds
+
+// Teams SSO tokens come from Entra ID as v2.0 or, for older app registrations, v1.0 tokens
+const ENTRA_ISSUERS = ["https://login.microsoftonline.com/{tenantid}/v2.0", "https://sts.windows.net/{tenantid}/"];
+const ENTRA_JWKS_URI = "https://login.microsoftonline.com/common/discovery/v2.0/keys";
+
+// Entra ID and the API server clocks may drift apart a little
+const CLOCK_TOLERANCE = 5 * 60; // seconds
+
+function commaList(value: string | undefined): string[] | undefined {
+  const items = value?.split(",").map((s) => s.trim()).filter(Boolean);
+  return items?.length ? items : undefined;
+}
+
+/**
+ * Reads the authentication settings from the environment. In `teams` mode
+ * (the default) the audience is the Entra app registration's client ID,
+ * `AAD_APP_CLIENT_ID`, unless `AUTH_AUDIENCE` lists the accepted values.
+ */
+export function authConfigFromEnv(env: NodeJS.ProcessEnv = process.env): AuthConfig {
+  const mode = (env.AUTH_MODE ?? "teams").toLowerCase();
+  if (mode === "local") {
+    return { mode, audiences: [LOCAL_AUDIENCE], issuers: [LOCAL_ISSUER], jwksUri: "" };
+  }
+  if (mode !== "teams") {
+    throw new Error(`Unknown AUTH_MODE "${mode}" (expected teams or local)`);
+  }
+
+  const clientId = env.AAD_APP_CLIENT_ID;
+  const audiences = commaList(env.AUTH_AUDIENCE) ?? (clientId ? [clientId, `api://${clientId}`] : undefined);
+  if (!audiences) {
+    throw new Error("AAD_APP_CLIENT_ID or AUTH_AUDIENCE must be set when AUTH_MODE is teams");
+  }
+  return {
+    mode,
+    audiences,
+    issuers: commaList(env.AUTH_ISSUERS) ?? ENTRA_ISSUERS,
+    jwksUri: env.AUTH_JWKS_URI ?? ENTRA_JWKS_URI,
+  };
+}
+
+function claim(payload: JWTPayload, name: string): string | undefined {
+  const value = payload[name];
+  return typeof value === "string" && value ? value : undefined;
+}
+
+async function verifyToken(
+  config: AuthConfig,
+  key: JWTVerifyGetKey | KeyObject,
+  token: string,
+): Promise<Identity> {
+  let payload: JWTPayload;
+  try {
+    ({ payload } = await jwtVerify(token, key as JWTVerifyGetKey, {
+      audience: config.audiences,
+      algorithms: ["RS256"],
+      clockTolerance: CLOCK_TOLERANCE,
+    }));
+  } catch {
+    throw new UnauthorizedError("The access token is invalid or has expired");
+  }
+
+  const userId = claim(payload, "oid");
+  const tenantId = claim(payload, "tid");
+  if (!userId || !tenantId) {
+    throw new UnauthorizedError("The access token does not identify a user and tenant");
+  }
+  if (!config.issuers.some((issuer) => issuer.replace("{tenantid}", tenantId) === payload.iss)) {
+    throw new UnauthorizedError("The access token was issued by an untrusted authority");
+  }
+  const username = claim(payload, "preferred_username");
+  const groups = Array.isArray(payload.groups) ? payload.groups.filter((g): g is string => typeof g === "string") : [];
+  return {
+    userId,
+    tenantId,
+    name: claim(payload, "name") ?? username ?? userId,
+    ...(username ? { username } : {}),
+    groups,
+  };
+}
+
+/** Creates the token checker for `config`; the `local` signing key only lives as long as the process. */
+export function createAuthenticator(config: AuthConfig): Authenticator {
+  if (config.mode === "teams") {
+    const jwks = createRemoteJWKSet(new URL(config.jwksUri));
+    return { mode: config.mode, verify: (token) => verifyToken(config, jwks, token) };
+  }
+
+  const { publicKey, privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  return {
+    mode: config.mode,
+    verify: (token) => verifyToken(config, publicKey, token),
+    async issueLocalToken(identity) {
+      const expiresAt = Math.floor(Date.now() / 1000) + LOCAL_TOKEN_LIFETIME;
+      const token = await new SignJWT({
+        oid: identity.userId,
+        tid: identity.tenantId,
+        name: identity.name,
+        preferred_username: identity.username,
+        groups: identity.groups,
+      })
+        .setProtectedHeader({ alg: "RS256", kid: LOCAL_KEY_ID })
+        .setIssuer(LOCAL_ISSUER)
+        .setAudience(LOCAL_AUDIENCE)
+        .setIssuedAt()
+        .setExpirationTime(expiresAt)
+        .sign(privateKey);
+      return { token, expiresOn: new Date(expiresAt * 1000).toISOString() };
+    },
+  };
+}
+
+/** Reads the token from an `Authorization: Bearer …` header. */
+export function bearerToken(header: string | undefined): string | undefined {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1];
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+
+import { parseCsv } from "./csv.js";
+
+describe("parseCsv", () => {
+  it("splits records on CRLF or LF and cells on commas", () => {
+    expect(parseCsv("a,b\r\nc,d\ne,f")).toEqual([
+      { line: 1, cells: ["a", "b"] },
+      { line: 2, cells: ["c", "d"] },
+      { line: 3, cells: ["e", "f"] },
+    ]);
+  });
+
+  it("reads quoted cells with commas, doubled quotes and line breaks", () => {
+    expect(parseCsv('name,note\n"Contoso, Ltd.","Say ""hi""\nto them"\nlast,row\n')).toEqual([
+      { line: 1, cells: ["name", "note"] },
+      { line: 2, cells: ["Contoso, Ltd.", 'Say "hi"\nto them'] },
+      { line: 4, cells: ["last", "row"] },
+    ]);
+  });
+
+  it("keeps empty cells and ignores a byte order mark", () => {
+    expect(parseCsv("﻿a,,c\n,\n")).toEqual([
+      { line: 1, cells: ["a", "", "c"] },
+      { line: 2, cells: ["", ""] },
+    ]);
+  });
+
+  it("returns no records for an empty file", () => {
+    expect(parseCsv("")).toEqual([]);
+    expect(parseCsv("﻿")).toEqual([]);
+  });
+});
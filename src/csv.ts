@@ -0,0 +1,56 @@
+/** One record of a CSV file and the line it starts on (1-based), for error messages. */
+export interface CsvRecord {
+  line: number;
+  cells: string[];
+}
+
+/**
+ * Parses RFC 4180 CSV: comma-separated, fields optionally in double quotes
+ * (`""` inside quotes is a quote), records ending in CRLF or LF. A quoted
+ * field may span lines. A leading byte order mark is ignored.
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    records.push({ line: recordLine, cells });
+    cells = [];
+    cell = "";
+    recordLine = line;
+  };
+
+  for (let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === "\n") line++;
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      line++;
+      endRecord();
+    } else {
+      cell += ch;
+    }
+  }
+  // the last record need not end in a line break
+  if (cell !== "" || cells.length) endRecord();
+  return records;
+}
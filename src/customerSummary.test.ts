@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+
+import { getCustomerSummary, TIMELINE_ORDER_LIMIT } from "./customerSummary.js";
+import { createCustomer } from "./customersService.js";
+import { priceLineItems } from "./lineItems.js";
+import { createOrder, updateOrder } from "./ordersService.js";
+import { MemoryOrdersRepository } from "./storage/memoryRepository.js";
+
+async function customerWithOrders(count: number) {
+  const repo = new MemoryOrdersRepository();
+  const customer = await createCustomer(repo, { name: "Contoso Ltd." });
+  for (let i = 0; i < count; i++) {
+    const day = new Date(Date.UTC(2025, 0, 1) + i * 86_400_000).toISOString().slice(0, 10);
+    await createOrder(repo, {
+      customerId: customer.id,
+      status: "Submitted",
+      date: day,
+      lineItems: priceLineItems([{ sku: "SVC-SETUP", quantity: 1 }]),
+    }, "tester");
+  }
+  return { repo, customer };
+}
+
+describe("customer summary", () => {
+  it("puts orders and their status changes on the timeline, oldest first", async () => {
+    const { repo, customer } = await customerWithOrders(2);
+    await updateOrder(repo, "ORD-001", { status: "Pending" }, "alice");
+
+    const summary = await getCustomerSummary(repo, customer.id);
+    expect(summary.orderCount).toBe(2);
+    expect(summary.timelineOrderCount).toBe(2);
+    expect(summary.timeline.map((e) => `${e.type}:${e.orderId}`)).toEqual([
+      "placed:ORD-001",
+      "placed:ORD-002",
+      "statusChanged:ORD-001",
+    ]);
+    expect(summary.timeline[2]).toMatchObject({ from: "Submitted", to: "Pending", actor: "alice" });
+  });
+
+  it("limits the timeline to the latest orders and reads a few audit trails at a time", async () => {
+    const { repo, customer } = await customerWithOrders(TIMELINE_ORDER_LIMIT + 10);
+    let reading = 0;
+    let mostAtOnce = 0;
+    const read: string[] = [];
+    const listAudit = repo.listAudit.bind(repo);
+    repo.listAudit = async (orderId) => {
+      read.push(orderId);
+      mostAtOnce = Math.max(mostAtOnce, ++reading);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      reading--;
+      return listAudit(orderId);
+    };
+
+    const summary = await getCustomerSummary(repo, customer.id);
+    expect(summary.orderCount).toBe(TIMELINE_ORDER_LIMIT + 10);
+    expect(summary.timelineOrderCount).toBe(TIMELINE_ORDER_LIMIT);
+    expect(read).toHaveLength(TIMELINE_ORDER_LIMIT);
+    expect(read).not.toContain("ORD-010");
+    expect(read).toContain("ORD-011");
+    expect(mostAtOnce).toBeGreaterThan(1);
+    expect(mostAtOnce).toBeLessThanOrEqual(5);
+    expect(summary.timeline[0]).toMatchObject({ type: "placed", orderId: "ORD-011" });
+  });
+});
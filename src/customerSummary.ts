@@ -0,0 +1,113 @@
+import { getCustomer, type Customer } from "./customersService.js";
+import { roundCents } from "./lineItems.js";
+import type { AuditEntry } from "./orderAudit.js";
+import { compareOrderIds, type Order, type OrderStatus } from "./ordersService.js";
+import { countByStatus, earns, type StatusCount } from "./reports.js";
+import type { OrdersRepository } from "./storage/ordersRepository.js";
+
+const DAY_MS = 86_400_000;
+
+/** Most recent orders the timeline covers; each costs a query of its own audit trail. */
+export const TIMELINE_ORDER_LIMIT = 50;
+
+/** Audit trails read at once while building a timeline. */
+const AUDIT_READ_CONCURRENCY = 5;
+
+/**
+ * One entry of a customer's timeline: an order being placed (on its order
+ * date) or an order's status changing (at the time of the change).
+ */
+export type TimelineEvent =
+  | { type: "placed"; at: string; orderId: string; amount: number; status: OrderStatus }
+  | { type: "statusChanged"; at: string; orderId: string; from: OrderStatus; to: OrderStatus; actor: string };
+
+/** A customer with lifetime metrics over their live orders. Cancelled orders count but earn nothing. */
+export interface CustomerSummary {
+  customer: Customer;
+  orderCount: number;
+  lifetimeValue: number;
+  /** Revenue per order that wasn't cancelled; 0 when there are none. */
+  averageOrderValue: number;
+  firstOrderDate?: string;
+  lastOrderDate?: string;
+  /** Whole days from the last order date to today. */
+  daysSinceLastOrder?: number;
+  /** Average days between consecutive orders; absent with fewer than two orders. */
+  averageDaysBetweenOrders?: number;
+  statusBreakdown: StatusCount[];
+  /** Events of the latest `timelineOrderCount` orders, oldest first. */
+  timeline: TimelineEvent[];
+  /** How many orders the timeline covers: all of them, or the latest `TIMELINE_ORDER_LIMIT`. */
+  timelineOrderCount: number;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/** Reads the audit trail of each order, no more than `AUDIT_READ_CONCURRENCY` at a time. */
+async function readAudits(repo: OrdersRepository, orders: Order[]): Promise<AuditEntry[][]> {
+  const audits: AuditEntry[][] = new Array(orders.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < orders.length) {
+      const i = next++;
+      audits[i] = await repo.listAudit(orders[i].id);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(AUDIT_READ_CONCURRENCY, orders.length) }, worker));
+  return audits;
+}
+
+/** Placed and status-changed events for the given orders, oldest first. */
+async function buildTimeline(repo: OrdersRepository, orders: Order[]): Promise<TimelineEvent[]> {
+  const audits = await readAudits(repo, orders);
+  const events: TimelineEvent[] = [];
+  orders.forEach((order, i) => {
+    events.push({ type: "placed", at: order.date, orderId: order.id, amount: order.amount, status: order.status });
+    for (const entry of audits[i]) {
+      if (entry.action !== "updated") continue;
+      const change = entry.changes.find((c) => c.field === "status");
+      if (!change) continue;
+      events.push({
+        type: "statusChanged",
+        at: entry.timestamp,
+        orderId: order.id,
+        from: change.from as OrderStatus,
+        to: change.to as OrderStatus,
+        actor: entry.actor,
+      });
+    }
+  });
+  // a bare order date sorts before any timestamp on the same day, so orders come before their changes
+  return events.sort((a, b) => a.at.localeCompare(b.at) || a.orderId.localeCompare(b.orderId, "en", { numeric: true }));
+}
+
+/** Lifetime metrics and the order timeline of one customer, or `NotFoundError`. */
+export async function getCustomerSummary(repo: OrdersRepository, id: string): Promise<CustomerSummary> {
+  const customer = await getCustomer(repo, id);
+  const orders = await repo.list({ customerIds: [id] });
+  const earning = orders.filter(earns);
+  const lifetimeValue = roundCents(earning.reduce((sum, o) => sum + o.amount, 0));
+  const dates = orders.map((o) => o.date).sort();
+  const firstOrderDate = dates[0];
+  const lastOrderDate = dates[dates.length - 1];
+  const today = new Date().toISOString().slice(0, 10);
+  const recent = [...orders]
+    .sort((a, b) => b.date.localeCompare(a.date) || compareOrderIds(b.id, a.id))
+    .slice(0, TIMELINE_ORDER_LIMIT);
+
+  return {
+    customer,
+    orderCount: orders.length,
+    lifetimeValue,
+    averageOrderValue: earning.length ? roundCents(lifetimeValue / earning.length) : 0,
+    ...(firstOrderDate ? { firstOrderDate, lastOrderDate, daysSinceLastOrder: Math.max(0, daysBetween(lastOrderDate, today)) } : {}),
+    ...(dates.length > 1
+      ? { averageDaysBetweenOrders: Math.round((daysBetween(firstOrderDate, lastOrderDate) / (dates.length - 1)) * 10) / 10 }
+      : {}),
+    statusBreakdown: countByStatus(orders),
+    timeline: await buildTimeline(repo, recent),
+    timelineOrderCount: recent.length,
+  };
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+
+import { createCustomer, deleteCustomer, getCustomer, updateCustomer } from "./customersService.js";
+import { PreconditionFailedError } from "./errors.js";
+import { MemoryOrdersRepository } from "./storage/memoryRepository.js";
+
+describe("optimistic concurrency on customers", () => {
+  it("rejects an update made against a stale ETag and reports the current customer", async () => {
+    const repo = new MemoryOrdersRepository();
+    const customer = await createCustomer(repo, { name: "Fabrikam Inc." });
+    const renamed = await updateCustomer(repo, customer.id, { name: "Fabrikam" }, customer.etag);
+
+    const stale = updateCustomer(repo, customer.id, { accountOwner: "Bob" }, customer.etag);
+    await expect(stale).rejects.toBeInstanceOf(PreconditionFailedError);
+    await expect(stale).rejects.toMatchObject({ current: { etag: renamed.etag, name: "Fabrikam" } });
+  });
+
+  it("rejects a delete made against a stale ETag", async () => {
+    const repo = new MemoryOrdersRepository();
+    const customer = await createCustomer(repo, { name: "Fabrikam Inc." });
+    await updateCustomer(repo, customer.id, { accountOwner: "Alice" });
+
+    await expect(deleteCustomer(repo, customer.id, customer.etag)).rejects.toBeInstanceOf(PreconditionFailedError);
+    await expect(getCustomer(repo, customer.id)).resolves.toMatchObject({ accountOwner: "Alice" });
+  });
+});
@@ -0,0 +1,235 @@
+import { ConflictError, NotFoundError, PreconditionFailedError, ValidationError } from "./errors.js";
+import { isUnconditional, readOrderPages } from "./ordersService.js";
+import type { ExportColumn } from "./spreadsheetExport.js";
+import type { OrdersRepository } from "./storage/ordersRepository.js";
+
+export interface BillingAddress {
+  street: string;
+  city: string;
+  postalCode: string;
+  country: string;
+}
+
+export interface Customer {
+  /** Stable ID such as `CUST-007`; orders reference customers by it. */
+  id: string;
+  name: string;
+  email?: string;
+  billingAddress?: BillingAddress;
+  /** Person on our side who looks after the account. */
+  accountOwner?: string;
+  /** Opaque version of the stored customer, sent back in `If-Match` to detect lost updates. */
+  etag: string;
+}
+
+/** A customer as written to storage, before the store has assigned an ETag. */
+export type CustomerData = Omit<Customer, "etag">;
+
+/** Profile fields that can be set on create or update; `null` clears an optional field. */
+export interface CustomerProfile {
+  name: string;
+  email?: string | null;
+  billingAddress?: BillingAddress | null;
+  accountOwner?: string | null;
+}
+
+/** A customer together with totals over their live orders. */
+export interface CustomerWithStats extends Customer {
+  orderCount: number;
+  totalAmount: number;
+  /** Date of the newest order; absent when the customer has none. */
+  latestOrderDate?: string;
+}
+
+/** Counter that hands out the numeric part of new customer IDs. */
+const CUSTOMER_SEQUENCE = "customers";
+
+function formatCustomerId(num: number): string {
+  return `CUST-${String(num).padStart(3, "0")}`;
+}
+
+function parseCustomerNumber(id: string): number | undefined {
+  const match = id.match(/^CUST-(\d+)$/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/** Highest `CUST-NNN` number in the store. Only used to start the ID counter. */
+async function maxCustomerNumber(repo: OrdersRepository): Promise<number> {
+  let maxNum = 0;
+  for (const customer of await repo.listCustomers()) {
+    maxNum = Math.max(maxNum, parseCustomerNumber(customer.id) ?? 0);
+  }
+  return maxNum;
+}
+
+/** Applies `profile` on top of `base`, dropping optional fields set to `null`. */
+function applyProfile(base: CustomerData, profile: Partial<CustomerProfile>): CustomerData {
+  const next: CustomerData = { ...base, name: profile.name ?? base.name };
+  for (const field of ["email", "billingAddress", "accountOwner"] as const) {
+    const value = profile[field];
+    if (value === null) delete next[field];
+    else if (value !== undefined) (next as unknown as Record<string, unknown>)[field] = value;
+  }
+  return next;
+}
+
+/** Customer names must stay unique (ignoring case) so people can tell customers apart. */
+async function assertNameAvailable(repo: OrdersRepository, name: string, exceptId?: string): Promise<void> {
+  const wanted = name.toLowerCase();
+  const taken = (await repo.listCustomers()).some((c) => c.id !== exceptId && c.name.toLowerCase() === wanted);
+  if (taken) {
+    throw new ValidationError("The customer name is taken", [
+      { field: "name", message: `A customer named ${name} already exists` },
+    ]);
+  }
+}
+
+export type CustomerSortField = "name" | "accountOwner" | "orderCount" | "totalAmount" | "latestOrderDate";
+
+export interface CustomerSort {
+  field: CustomerSortField;
+  direction: "ascending" | "descending";
+}
+
+/** Customer list options as the API takes them. */
+export interface CustomerQuery {
+  /** Case-insensitive text matched against the name and account owner. */
+  search?: string;
+  sort?: CustomerSort;
+}
+
+const CUSTOMER_COMPARERS: Record<CustomerSortField, (a: CustomerWithStats, b: CustomerWithStats) => number> = {
+  name:            (a, b) => a.name.localeCompare(b.name),
+  accountOwner:    (a, b) => (a.accountOwner ?? "").localeCompare(b.accountOwner ?? ""),
+  orderCount:      (a, b) => a.orderCount - b.orderCount,
+  totalAmount:     (a, b) => a.totalAmount - b.totalAmount,
+  latestOrderDate: (a, b) => (a.latestOrderDate ?? "").localeCompare(b.latestOrderDate ?? ""),
+};
+
+/** Columns of `GET /api/customers/export`, in the order the Customers tab shows them. */
+export const CUSTOMER_EXPORT_COLUMNS: ExportColumn<CustomerWithStats>[] = [
+  { header: "Customer ID",   value: (c) => c.id },
+  { header: "Name",          value: (c) => c.name },
+  { header: "Account owner", value: (c) => c.accountOwner },
+  { header: "Email",         value: (c) => c.email },
+  { header: "Orders",        value: (c) => c.orderCount },
+  { header: "Total amount",  value: (c) => c.totalAmount },
+  { header: "Latest order",  value: (c) => c.latestOrderDate },
+  { header: "Street",        value: (c) => c.billingAddress?.street },
+  { header: "City",          value: (c) => c.billingAddress?.city },
+  { header: "Postal code",   value: (c) => c.billingAddress?.postalCode },
+  { header: "Country",       value: (c) => c.billingAddress?.country },
+];
+
+/**
+ * Returns the customers matching `query.search`, each with totals over their
+ * live orders, sorted by `query.sort` (by name unless given; ties broken by name).
+ */
+export async function listCustomers(repo: OrdersRepository, query: CustomerQuery = {}): Promise<CustomerWithStats[]> {
+  const customers = await repo.listCustomers();
+  const stats = new Map<string, Omit<CustomerWithStats, keyof Customer>>();
+  // orders are only tallied, so read them a page at a time rather than all at once
+  for await (const orders of readOrderPages(repo)) {
+    for (const order of orders) {
+      const entry = stats.get(order.customerId) ?? { orderCount: 0, totalAmount: 0 };
+      entry.orderCount += 1;
+      entry.totalAmount = Math.round((entry.totalAmount + order.amount) * 100) / 100;
+      if (!entry.latestOrderDate || order.date > entry.latestOrderDate) entry.latestOrderDate = order.date;
+      stats.set(order.customerId, entry);
+    }
+  }
+  const { field, direction } = query.sort ?? { field: "name", direction: "ascending" };
+  const sign = direction === "descending" ? -1 : 1;
+  const needle = query.search?.trim().toLowerCase() ?? "";
+  return customers
+    .filter((c) => !needle || c.name.toLowerCase().includes(needle) || (c.accountOwner ?? "").toLowerCase().includes(needle))
+    .map((c) => ({ ...c, orderCount: 0, totalAmount: 0, ...stats.get(c.id) }))
+    .sort((a, b) => sign * CUSTOMER_COMPARERS[field](a, b) || a.name.localeCompare(b.name));
+}
+
+/** Returns a single customer, or throws `NotFoundError`. */
+export async function getCustomer(repo: OrdersRepository, id: string): Promise<Customer> {
+  const customer = await repo.getCustomer(id);
+  if (!customer) {
+    throw new NotFoundError(`Customer ${id} not found`);
+  }
+  return customer;
+}
+
+/** Creates a customer with the next ID from the durable customer counter. */
+export async function createCustomer(repo: OrdersRepository, profile: CustomerProfile): Promise<Customer> {
+  await assertNameAvailable(repo, profile.name);
+  const id = formatCustomerId(await repo.nextSequence(CUSTOMER_SEQUENCE, () => maxCustomerNumber(repo)));
+  return repo.insertCustomer(applyProfile({ id, name: profile.name }, profile));
+}
+
+/**
+ * Updates a customer's profile. Orders only hold the customer ID, so a rename
+ * is a single write. When `ifMatch` is given it must equal the stored ETag,
+ * otherwise a `PreconditionFailedError` carrying the current customer is thrown.
+ */
+export async function updateCustomer(
+  repo: OrdersRepository,
+  id: string,
+  patch: Partial<CustomerProfile>,
+  ifMatch?: string,
+): Promise<Customer> {
+  const existing = await getCustomer(repo, id);
+  if (!isUnconditional(ifMatch) && existing.etag !== ifMatch) {
+    throw new PreconditionFailedError(`Customer ${id} has been modified`, existing);
+  }
+  if (patch.name && patch.name !== existing.name) await assertNameAvailable(repo, patch.name, id);
+
+  const { etag, ...data } = existing;
+  try {
+    return await repo.replaceCustomer(applyProfile(data, patch), etag);
+  } catch (err) {
+    if (err instanceof PreconditionFailedError) {
+      throw new ConflictError(`Customer ${id} changed while it was being updated`);
+    }
+    throw err;
+  }
+}
+
+/** Deletes a customer that no order refers to any more, including orders in the trash. */
+export async function deleteCustomer(repo: OrdersRepository, id: string, ifMatch?: string): Promise<void> {
+  const existing = await getCustomer(repo, id);
+  if (!isUnconditional(ifMatch) && existing.etag !== ifMatch) {
+    throw new PreconditionFailedError(`Customer ${id} has been modified`, existing);
+  }
+  const orders = await repo.list({ customerIds: [id], deleted: "include" });
+  if (orders.length) {
+    throw new ConflictError(`Customer ${existing.name} still has ${orders.length} order(s)`);
+  }
+  await repo.deleteCustomer(id, existing.etag);
+}
+
+/** Returns the customer with this name (ignoring case), creating it if there is none. */
+export async function findOrCreateCustomer(repo: OrdersRepository, name: string): Promise<Customer> {
+  const wanted = name.toLowerCase();
+  const existing = (await repo.listCustomers()).find((c) => c.name.toLowerCase() === wanted);
+  return existing ?? createCustomer(repo, { name });
+}
+
+/**
+ * Links orders written before customers had their own rows to a customer
+ * record, creating one per distinct name. Safe to run on every start: orders
+ * that already carry a `customerId` are left alone, and an order changed
+ * mid-migration is picked up on the next run. Returns how many were linked.
+ */
+export async function migrateOrderCustomers(repo: OrdersRepository): Promise<number> {
+  const unlinked = (await repo.list({ deleted: "include" })).filter((o) => !o.customerId);
+  const byName = new Map<string, Customer>();
+  let migrated = 0;
+  for (const { etag, ...order } of unlinked) {
+    const customer = byName.get(order.customer) ?? await findOrCreateCustomer(repo, order.customer);
+    byName.set(order.customer, customer);
+    try {
+      await repo.replace({ ...order, customerId: customer.id }, etag);
+      migrated++;
+    } catch (err) {
+      if (!(err instanceof PreconditionFailedError)) throw err;
+    }
+  }
+  return migrated;
+}
@@ -0,0 +1,59 @@
+import type { Customer } from "./customersService.js";
+import type { Order } from "./ordersService.js";
+
+/** One invalid input, reported back to the client next to the matching form field. */
+export interface FieldError {
+  /** Dotted path of the offending value, e.g. `amount` or `query.dateFrom`. */
+  field: string;
+  message: string;
+}
+
+/** The request itself is malformed, e.g. an unreadable continuation token or query parameter. */
+export class BadRequestError extends Error {
+  override name = "BadRequestError";
+
+  constructor(message: string, readonly errors: FieldError[] = []) {
+    super(message);
+  }
+}
+
+/** The request is well-formed but its values break a business rule, e.g. a negative amount. */
+export class ValidationError extends Error {
+  override name = "ValidationError";
+
+  constructor(message: string, readonly errors: FieldError[] = []) {
+    super(message);
+  }
+}
+
+/** The request carries no access token, or one that failed validation. */
+export class UnauthorizedError extends Error {
+  override name = "UnauthorizedError";
+}
+
+/** The signed-in user's role does not allow the requested action. */
+export class ForbiddenError extends Error {
+  override name = "ForbiddenError";
+}
+
+/** The requested order or customer does not exist. */
+export class NotFoundError extends Error {
+  override name = "NotFoundError";
+}
+
+/**
+ * The caller's `If-Match` version no longer matches what is stored.
+ * `current` carries the latest order or customer when there is one to show.
+ */
+export class PreconditionFailedError extends Error {
+  override name = "PreconditionFailedError";
+
+  constructor(message: string, readonly current?: Order | Customer) {
+    super(message);
+  }
+}
+
+/** The store changed underneath an operation while it was running. */
+export class ConflictError extends Error {
+  override name = "ConflictError";
+}
@@ -2,20 +2,111 @@ import fs from "fs";
 import https from "https";
 import path from "path";
 
+import { toActivityParams, type Activity, type ConversationReference } from "@microsoft/teams.api";
 import { App, HttpPlugin, IPlugin } from "@microsoft/teams.apps";
+import type { IAdaptiveCard } from "@microsoft/teams.cards";
 import { ConsoleLogger } from "@microsoft/teams.common/logging";
 import { DevtoolsPlugin } from "@microsoft/teams.dev";
+import { Client as GraphClient } from "@microsoft/teams.graph";
+import { users } from "@microsoft/teams.graph-endpoints";
 
-import { createOrder, listOrders, renameCustomer, seedIfEmpty, updateOrder, type Order, type OrderStatus } from "./ordersService.js";
+import { authConfigFromEnv, bearerToken, createAuthenticator, type Identity } from "./auth.js";
+import { getCustomerSummary } from "./customerSummary.js";
+import {
+  CUSTOMER_EXPORT_COLUMNS,
+  createCustomer,
+  deleteCustomer,
+  getCustomer,
+  listCustomers,
+  migrateOrderCustomers,
+  updateCustomer,
+} from "./customersService.js";
+import { BadRequestError, NotFoundError, UnauthorizedError } from "./errors.js";
+import { priceLineItems } from "./lineItems.js";
+import { NOTIFICATION_HELP, runNotificationCommand } from "./notificationCommands.js";
+import { SYSTEM_ACTOR } from "./orderAudit.js";
+import { OrderCardActions } from "./orderCardActions.js";
+import { orderLink } from "./orderCards.js";
+import { OrderEventStream } from "./orderEvents.js";
+import { importOrders, readImportRows } from "./orderImport.js";
+import { OrderNotifier, subscriptionTarget, unsubscribeAll } from "./orderNotifications.js";
+import { OrderSearchExtension } from "./orderSearchExtension.js";
+import {
+  bulkUpdateOrders,
+  createOrder,
+  deleteOrder,
+  exportOrders,
+  getOrder,
+  getOrderHistory,
+  getOrderTransitions,
+  listOrders,
+  ORDER_EXPORT_COLUMNS,
+  purgeDeletedOrders,
+  queryOrders,
+  restoreOrder,
+  seedIfEmpty,
+  updateOrder,
+  type Order,
+} from "./ordersService.js";
+import { findProduct, listProducts } from "./productCatalog.js";
+import { problemFromError, problemText, sendProblem, type ProblemDetails } from "./problemDetails.js";
+import { ordersByStatus, reportSummary, revenueByMonth, topCustomers } from "./reports.js";
+import { assertPermission, permissionsOf, resolveRole, roleConfigFromEnv, type Permission, type Role } from "./roles.js";
+import { createView, deleteView, listViews, updateView } from "./savedViews.js";
+import { sendExport } from "./spreadsheetExport.js";
+import { nextStatuses, statusTransitionsFromEnv } from "./statusWorkflow.js";
+import { createOrdersStore, storageConfigFromEnv, type OrdersRepository } from "./storage/index.js";
+import {
+  bulkOrdersBody,
+  createCustomerBody,
+  createOrderBody,
+  createViewBody,
+  customerIdParams,
+  exportQuery,
+  importOrdersQuery,
+  listCustomersQuery,
+  listOrdersQuery,
+  localTokenBody,
+  orderIdParams,
+  parseBody,
+  parseReportQuery,
+  parseRequestPart,
+  reportQuery,
+  topCustomersQuery,
+  updateCustomerBody,
+  updateOrderBody,
+  updateViewBody,
+  viewIdParams,
+} from "./validation.js";
 
-const STORAGE_CONNECTION =
-  process.env.AZURE_STORAGE_CONNECTION_STRING ?? "UseDevelopmentStorage=true";
+// ORDERS_STORAGE picks the backend: azure (default), memory or file
+const store = createOrdersStore(storageConfigFromEnv());
+
+// AUTH_MODE=local swaps Teams SSO for tokens signed by the server itself
+const auth = createAuthenticator(authConfigFromEnv());
+
+// AUTH_ROLES maps users and Entra groups to roles; everyone else is a viewer
+const roleConfig = roleConfigFromEnv();
+
+// ORDER_STATUS_TRANSITIONS overrides which status changes PUT /api/orders/:id allows
+const statusTransitions = statusTransitionsFromEnv();
+
+// Deleted orders stay restorable from the trash for this many days
+const TRASH_RETENTION_DAYS = Number(process.env.ORDERS_TRASH_RETENTION_DAYS ?? 30);
+const PURGE_INTERVAL = 24 * 60 * 60 * 1000;
+
+// Devtools activities carry no tenant, so the bot treats them as coming from this one
+const DEVTOOLS_TENANT_ID = process.env.DEVTOOLS_TENANT_ID ?? "local-tenant";
+
+// Public address of the tabs, which cards link back to and links are unfurled for
+const TAB_ENDPOINT = process.env.TAB_ENDPOINT ?? `http://localhost:${process.env.PORT || 3978}`;
 
 const sslOptions = {
   key: process.env.SSL_KEY_FILE ? fs.readFileSync(process.env.SSL_KEY_FILE) : undefined,
   cert: process.env.SSL_CRT_FILE ? fs.readFileSync(process.env.SSL_CRT_FILE) : undefined,
 };
-const plugins: IPlugin[] = [new DevtoolsPlugin()];
+const devtools = new DevtoolsPlugin();
+const plugins: IPlugin[] = [devtools];
 if (sslOptions.cert && sslOptions.key) {
   plugins.push(new HttpPlugin(https.createServer(sslOptions)));
 }
@@ -26,89 +117,595 @@ const app = new App({
 
 app.tab("home", path.join(__dirname, "./Home"));
 app.tab("customers", path.join(__dirname, "./Customers"));
+app.tab("dashboard", path.join(__dirname, "./Dashboard"));
+app.tab("configure", path.join(__dirname, "./Configure"));
+
+/**
+ * Posts a card to a conversation without a message to reply to. Devtools
+ * only shows what the app reports as sent, so it is told about it too.
+ */
+async function sendCard(conversation: ConversationReference, card: IAdaptiveCard): Promise<void> {
+  const sent = await app.http.send(toActivityParams(card), conversation);
+  devtools.onActivitySent({ ...conversation, sender: app.http, activity: sent });
+}
+
+/** Links an order's card back to the Home tab and offers the status changes the workflow allows next. */
+function orderCardExtras(order: Order) {
+  return {
+    link: orderLink(TAB_ENDPOINT, order.id),
+    nextStatuses: order.deletedAt ? [] : nextStatuses(statusTransitions, order.status),
+  };
+}
+
+// Posts order changes to the chats and channels that subscribed through the bot
+const notifier = new OrderNotifier(sendCard, orderCardExtras, (err) => app.log.error(err));
 
 // REST API – orders
+// Imports upload the CSV file as is; it may hold up to MAX_IMPORT_ROWS rows
+app.http.use("/api/orders/import", require("express").text({ type: "text/csv", limit: "5mb" }));
 app.http.use(require("express").json());
 
-// SSE – push new orders to all connected clients
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const sseClients = new Set<any>();
+/** Answers with RFC 9457 problem details; unexpected errors are logged, not echoed. */
+function sendError(req: any, res: any, err: unknown): void {
+  const problem = problemFromError(err);
+  if (problem.status === 500) app.log.error(err);
+  sendProblem(res, problem, req.originalUrl);
+}
 
-function broadcastNewOrder(order: Order): void {
-  const payload = `data: ${JSON.stringify(order)}\n\n`;
-  for (const client of sseClients) {
-    if (!client.writableEnded) client.write(payload);
+// Unreadable JSON bodies are rejected by express.json() before any route runs
+app.http.use((err: unknown, req: any, res: any, next: (err: unknown) => void) => {
+  if (!req.path.startsWith("/api/")) return next(err);
+  sendError(req, res, err);
+});
+
+// The bot endpoint is authenticated by the Teams SDK, and local tokens are what you sign in with
+const PUBLIC_API_PATHS = new Set(["/api/messages", "/api/auth/local-token"]);
+
+/** One tenant's repository and the event stream its clients listen to. */
+interface TenantContext {
+  repo: OrdersRepository;
+  events: OrderEventStream;
+}
+
+const tenants = new Map<string, Promise<TenantContext>>();
+
+/**
+ * Returns a tenant's repository and event stream. The first request from a
+ * tenant registers it, seeds it with sample data and links any orders stored
+ * before customers had their own records.
+ */
+function tenantContext(tenantId: string): Promise<TenantContext> {
+  let context = tenants.get(tenantId);
+  if (!context) {
+    context = prepareTenant(tenantId);
+    tenants.set(tenantId, context);
+    // let a later request try again if preparing failed
+    context.catch(() => tenants.delete(tenantId));
   }
+  return context;
+}
+
+async function prepareTenant(tenantId: string): Promise<TenantContext> {
+  const repo = store.forTenant(tenantId);
+  await store.addTenant(tenantId);
+  await seedIfEmpty(repo);
+  const migrated = await migrateOrderCustomers(repo);
+  if (migrated) app.log.info(`linked ${migrated} order(s) of tenant ${tenantId} to customer records`);
+  const events = new OrderEventStream();
+  events.listen(notifier.listener(repo));
+  return { repo, events };
 }
 
-app.http.get("/api/orders/events", (req: any, res: any) => {
-  res.setHeader("Content-Type", "text/event-stream");
-  res.setHeader("Cache-Control", "no-cache");
-  res.setHeader("Connection", "keep-alive");
-  res.flushHeaders();
-  sseClients.add(res);
-  req.on("close", () => sseClients.delete(res));
+// Every other API route needs a valid bearer token; the verified user is kept on `req.identity`
+// and their tenant's data on `req.tenant`
+app.http.use(async (req: any, res: any, next: () => void) => {
+  if (!req.path.startsWith("/api/") || PUBLIC_API_PATHS.has(req.path)) return next();
+  try {
+    // EventSource can't send headers, so the event stream takes the token in the query string
+    const token = bearerToken(req.get("Authorization"))
+      ?? (req.path === "/api/orders/events" && typeof req.query.access_token === "string" ? req.query.access_token : undefined);
+    if (!token) throw new UnauthorizedError("Sign in to use the orders API");
+    req.identity = await auth.verify(token);
+    req.tenant = await tenantContext(req.identity.tenantId);
+    next();
+  } catch (err) {
+    if (err instanceof UnauthorizedError) res.set("WWW-Authenticate", "Bearer");
+    sendError(req, res, err);
+  }
 });
 
+/** The user making the request, as verified by the auth middleware. */
+function requestIdentity(req: any): Identity {
+  return req.identity;
+}
+
+/** The signed-in user's tenant. Routes only ever touch this tenant's data. */
+function requestTenant(req: any): TenantContext {
+  return req.tenant;
+}
+
+/** Who is making the request, for the audit log. */
+function requestActor(req: any): string {
+  return requestIdentity(req).name;
+}
+
+function requestRole(req: any): Role {
+  return resolveRole(roleConfig, requestIdentity(req));
+}
+
+/** Throws a `ForbiddenError` unless the signed-in user's role has `permission`. */
+function requirePermission(req: any, permission: Permission): void {
+  assertPermission(requestRole(req), permission);
+}
+
+/** Reads the `If-Match` request header; `undefined` means an unconditional write. */
+function ifMatchHeader(req: any): string | undefined {
+  const value = req.get("If-Match");
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+// Development sign-in – only served when AUTH_MODE=local
+app.http.post("/api/auth/local-token", async (req, res) => {
+  try {
+    if (!auth.issueLocalToken) throw new NotFoundError("Local sign-in is disabled");
+    const { userId = "local-user", tenantId = "local-tenant", name = "Local Developer", username, groups = [] } =
+      parseBody(localTokenBody, req.body ?? {});
+    res.json(await auth.issueLocalToken({ userId, tenantId, name, ...(username ? { username } : {}), groups }));
+  } catch (err) {
+    sendError(req, res, err);
+  }
+});
+
+// The signed-in user and what their role allows, so the tabs can hide controls they can't use
+app.http.get("/api/me", (req, res) => {
+  const { userId, tenantId, name, username } = requestIdentity(req);
+  const role = requestRole(req);
+  res.json({ userId, tenantId, name, username, role, permissions: permissionsOf(role) });
+});
+
+// SSE – push order changes to the connected clients of the same tenant
+app.http.get("/api/orders/events", (req: any, res: any) => requestTenant(req).events.subscribe(req, res));
+
 app.http.post("/api/orders", async (req: any, res: any) => {
   try {
-    const { customer, amount } = req.body as { customer: string; amount: number };
+    requirePermission(req, "orders.create");
+    const { customerId, lineItems } = parseBody(createOrderBody, req.body);
     const today = new Date().toISOString().slice(0, 10);
-    const created = await createOrder(STORAGE_CONNECTION, {
-      customer,
-      amount,
+    const created = await createOrder(requestTenant(req).repo, {
+      customerId,
       status: "Submitted",
       date: today,
+      lineItems: priceLineItems(lineItems),
+    }, requestActor(req));
+    requestTenant(req).events.publish("order.created", created);
+    res.set("ETag", created.etag).status(201).json(created);
+  } catch (err) {
+    sendError(req, res, err);
+  }
+});
+
+// The body is the CSV file; the query maps its columns to order fields, and `dryRun` only validates
+app.http.post("/api/orders/import", async (req, res) => {
+  try {
+    requirePermission(req, "orders.create");
+    const { dryRun, ...mapping } = parseRequestPart(importOrdersQuery, req.query, "query");
+    if (typeof req.body !== "string") {
+      throw new BadRequestError("Send the CSV file as the request body with Content-Type: text/csv");
+    }
+    const rows = readImportRows(req.body, mapping);
+    const { result, created } = await importOrders(requestTenant(req).repo, rows, requestActor(req), dryRun);
+    for (const order of created) requestTenant(req).events.publish("order.created", order);
+    res.json(result);
+  } catch (err) {
+    sendError(req, res, err);
+  }
+});
+
+// Applies one change to many orders; each order succeeds or fails on its own
+app.http.post("/api/orders/bulk", async (req, res) => {
+  try {
+    const { ids, ...change } = parseBody(bulkOrdersBody, req.body);
+    requirePermission(req, change.action === "delete" ? "orders.delete" : "orders.edit");
+    if (change.action === "setStatus" && change.status === "Cancelled") requirePermission(req, "orders.cancel");
+    const outcomes = await bulkUpdateOrders(requestTenant(req).repo, ids, change, requestActor(req), statusTransitions);
+    const results = outcomes.map((outcome) => {
+      if ("error" in outcome) {
+        const problem = problemFromError(outcome.error);
+        if (problem.status === 500) app.log.error(outcome.error);
+        return { id: outcome.id, ok: false, error: problem };
+      }
+      if (change.action === "delete") {
+        requestTenant(req).events.publish("order.deleted", { id: outcome.id, purged: false });
+      } else {
+        requestTenant(req).events.publish("order.updated", outcome.order);
+      }
+      return { id: outcome.id, ok: true, order: outcome.order };
     });
-    broadcastNewOrder(created);
+    res.json({ results });
+  } catch (err) {
+    sendError(req, res, err);
+  }
+});
+
+app.http.get("/api/orders", async (req, res) => {
+  try {
+    const { sort, pageSize, continuationToken, status, customerId, ...filter } = parseRequestPart(listOrdersQuery, req.query, "query");
+    const query = { ...filter, statuses: status, customerIds: customerId };
+    res.json(await queryOrders(requestTenant(req).repo, query, sort, pageSize, continuationToken));
+  } catch (err) {
+    sendError(req, res, err);
+  }
+});
+
+// Same filters and sort as GET /api/orders, without paging; the file is streamed row by row as storage is read
+app.http.get("/api/orders/export", async (req, res) => {
+  try {
+    const { format } = parseRequestPart(exportQuery, req.query, "query");
+    const { sort, status, customerId, pageSize, continuationToken, ...filter } = parseRequestPart(listOrdersQuery, req.query, "query");
+    const orders = exportOrders(requestTenant(req).repo, { ...filter, statuses: status, customerIds: customerId }, sort);
+    await sendExport(res, format, "orders", ORDER_EXPORT_COLUMNS, orders);
+  } catch (err) {
+    sendError(req, res, err);
+  }
+});
+
+app.http.get("/api/orders/:id", async (req, res) => {
+  try {
+    const { id } = parseRequestPart(orderIdParams, req.params, "params");
+    const order = await getOrder(requestTenant(req).repo, id);
+    res.set("ETag", order.etag).json(order);
+  } catch (err) {
+    sendError(req, res, err);
+  }
+});
+
+app.http.get("/api/orders/:id/history", async (req, res) => {
+  try {
+    const { id } = parseRequestPart(orderIdParams, req.params, "params");
+    res.json(await getOrderHistory(requestTenant(req).repo, id));
+  } catch (err) {
+    sendError(req, res, err);
+  }
+});
+
+app.http.get("/api/orders/:id/transitions", async (req, res) => {
+  try {
+    const { id } = parseRequestPart(orderIdParams, req.params, "params");
+    res.json(await getOrderTransitions(requestTenant(req).repo, id, statusTransitions));
+  } catch (err) {
+    sendError(req, res, err);
+  }
+});
+
+// Saved views of the orders table – each user's own plus those teammates shared; only the owner may change one
+app.http.get("/api/views", async (req, res) => {
+  try {
+    res.json(await listViews(requestTenant(req).repo, requestIdentity(req).userId));
+  } catch (err) {
+    sendError(req, res, err);
+  }
+});
+
+app.http.post("/api/views", async (req, res) => {
+  try {
+    const created = await createView(requestTenant(req).repo, requestIdentity(req), parseBody(createViewBody, req.body));
     res.status(201).json(created);
   } catch (err) {
-    res.status(500).json({ error: String(err) });
+    sendError(req, res, err);
+  }
+});
+
+app.http.put("/api/views/:id", async (req, res) => {
+  try {
+    const { id } = parseRequestPart(viewIdParams, req.params, "params");
+    res.json(await updateView(requestTenant(req).repo, requestIdentity(req), id, parseBody(updateViewBody, req.body)));
+  } catch (err) {
+    sendError(req, res, err);
   }
 });
 
-app.http.get("/api/orders", async (_req, res) => {
+app.http.delete("/api/views/:id", async (req, res) => {
   try {
-    const orders = await listOrders(STORAGE_CONNECTION);
-    res.json(orders);
+    const { id } = parseRequestPart(viewIdParams, req.params, "params");
+    await deleteView(requestTenant(req).repo, requestIdentity(req).userId, id);
+    res.status(204).end();
   } catch (err) {
-    res.status(500).json({ error: String(err) });
+    sendError(req, res, err);
   }
 });
 
-app.http.get("/api/customers/:name/orders", async (req, res) => {
+// Product catalog – read-only, used to price line items
+app.http.get("/api/products", (_req, res) => {
+  res.json(listProducts());
+});
+
+app.http.get("/api/products/:sku", (req, res) => {
+  const product = findProduct(req.params.sku);
+  if (!product) return sendError(req, res, new NotFoundError(`Product ${req.params.sku} not found`));
+  res.json(product);
+});
+
+// REST API – customers
+app.http.get("/api/customers", async (req, res) => {
   try {
-    const { name } = req.params as { name: string };
-    const orders = await listOrders(STORAGE_CONNECTION);
-    res.json(orders.filter((o) => o.customer === decodeURIComponent(name)));
+    res.json(await listCustomers(requestTenant(req).repo, parseRequestPart(listCustomersQuery, req.query, "query")));
   } catch (err) {
-    res.status(500).json({ error: String(err) });
+    sendError(req, res, err);
   }
 });
 
-app.http.put("/api/customers/:name", async (req, res) => {
+// Customers are sorted in memory; their orders are only tallied, a page at a time
+app.http.get("/api/customers/export", async (req, res) => {
   try {
-    const { name } = req.params as { name: string };
-    const { newName } = req.body as { newName: string };
-    const updated = await renameCustomer(STORAGE_CONNECTION, decodeURIComponent(name), newName);
-    res.json({ updated });
+    const { format } = parseRequestPart(exportQuery, req.query, "query");
+    const customers = await listCustomers(requestTenant(req).repo, parseRequestPart(listCustomersQuery, req.query, "query"));
+    await sendExport(res, format, "customers", CUSTOMER_EXPORT_COLUMNS, customers);
   } catch (err) {
-    res.status(500).json({ error: String(err) });
+    sendError(req, res, err);
+  }
+});
+
+app.http.post("/api/customers", async (req, res) => {
+  try {
+    requirePermission(req, "customers.create");
+    const created = await createCustomer(requestTenant(req).repo, parseBody(createCustomerBody, req.body));
+    requestTenant(req).events.publish("customer.created", created);
+    res.set("ETag", created.etag).status(201).json(created);
+  } catch (err) {
+    sendError(req, res, err);
+  }
+});
+
+app.http.get("/api/customers/:id", async (req, res) => {
+  try {
+    const { id } = parseRequestPart(customerIdParams, req.params, "params");
+    const customer = await getCustomer(requestTenant(req).repo, id);
+    res.set("ETag", customer.etag).json(customer);
+  } catch (err) {
+    sendError(req, res, err);
+  }
+});
+
+app.http.get("/api/customers/:id/orders", async (req, res) => {
+  try {
+    const { id } = parseRequestPart(customerIdParams, req.params, "params");
+    await getCustomer(requestTenant(req).repo, id);
+    res.json(await listOrders(requestTenant(req).repo, { customerIds: [id] }));
+  } catch (err) {
+    sendError(req, res, err);
+  }
+});
+
+// Lifetime metrics and the order timeline for the customer detail view
+app.http.get("/api/customers/:id/summary", async (req, res) => {
+  try {
+    const { id } = parseRequestPart(customerIdParams, req.params, "params");
+    res.json(await getCustomerSummary(requestTenant(req).repo, id));
+  } catch (err) {
+    sendError(req, res, err);
+  }
+});
+
+app.http.put("/api/customers/:id", async (req, res) => {
+  try {
+    requirePermission(req, "customers.edit");
+    const { id } = parseRequestPart(customerIdParams, req.params, "params");
+    const patch = parseBody(updateCustomerBody, req.body);
+    if (patch.name !== undefined && patch.name !== (await getCustomer(requestTenant(req).repo, id)).name) {
+      requirePermission(req, "customers.rename");
+    }
+    const updated = await updateCustomer(requestTenant(req).repo, id, patch, ifMatchHeader(req));
+    requestTenant(req).events.publish("customer.updated", updated);
+    res.set("ETag", updated.etag).json(updated);
+  } catch (err) {
+    sendError(req, res, err);
+  }
+});
+
+app.http.delete("/api/customers/:id", async (req, res) => {
+  try {
+    requirePermission(req, "customers.delete");
+    const { id } = parseRequestPart(customerIdParams, req.params, "params");
+    await deleteCustomer(requestTenant(req).repo, id, ifMatchHeader(req));
+    requestTenant(req).events.publish("customer.deleted", { id });
+    res.status(204).end();
+  } catch (err) {
+    sendError(req, res, err);
   }
 });
 
 app.http.put("/api/orders/:id", async (req, res) => {
   try {
-    const { id } = req.params as { id: string };
-    const patch = req.body as { customer?: string; amount?: number; status?: OrderStatus; date?: string };
-    const updated = await updateOrder(STORAGE_CONNECTION, id, patch);
-    res.json(updated);
+    requirePermission(req, "orders.edit");
+    const { id } = parseRequestPart(orderIdParams, req.params, "params");
+    const { lineItems, ...fields } = parseBody(updateOrderBody, req.body);
+    if (fields.status === "Cancelled" && (await getOrder(requestTenant(req).repo, id)).status !== "Cancelled") {
+      requirePermission(req, "orders.cancel");
+    }
+    const patch = lineItems ? { ...fields, lineItems: priceLineItems(lineItems) } : fields;
+    const updated = await updateOrder(requestTenant(req).repo, id, patch, requestActor(req), ifMatchHeader(req), statusTransitions);
+    requestTenant(req).events.publish("order.updated", updated);
+    res.set("ETag", updated.etag).json(updated);
+  } catch (err) {
+    sendError(req, res, err);
+  }
+});
+
+app.http.delete("/api/orders/:id", async (req, res) => {
+  try {
+    requirePermission(req, "orders.delete");
+    const { id } = parseRequestPart(orderIdParams, req.params, "params");
+    const deleted = await deleteOrder(requestTenant(req).repo, id, requestActor(req), ifMatchHeader(req));
+    requestTenant(req).events.publish("order.deleted", { id, purged: false });
+    res.set("ETag", deleted.etag).json(deleted);
+  } catch (err) {
+    sendError(req, res, err);
+  }
+});
+
+app.http.post("/api/orders/:id/restore", async (req, res) => {
+  try {
+    requirePermission(req, "orders.delete");
+    const { id } = parseRequestPart(orderIdParams, req.params, "params");
+    const restored = await restoreOrder(requestTenant(req).repo, id, requestActor(req));
+    requestTenant(req).events.publish("order.restored", restored);
+    res.set("ETag", restored.etag).json(restored);
+  } catch (err) {
+    sendError(req, res, err);
+  }
+});
+
+// Dashboard reports – aggregated on the server over live orders dated within dateFrom..dateTo
+app.http.get("/api/reports/summary", async (req, res) => {
+  try {
+    res.json(await reportSummary(requestTenant(req).repo, parseReportQuery(reportQuery, req.query)));
+  } catch (err) {
+    sendError(req, res, err);
+  }
+});
+
+app.http.get("/api/reports/revenue-by-month", async (req, res) => {
+  try {
+    res.json(await revenueByMonth(requestTenant(req).repo, parseReportQuery(reportQuery, req.query)));
   } catch (err) {
-    res.status(500).json({ error: String(err) });
+    sendError(req, res, err);
   }
 });
 
+app.http.get("/api/reports/orders-by-status", async (req, res) => {
+  try {
+    res.json(await ordersByStatus(requestTenant(req).repo, parseReportQuery(reportQuery, req.query)));
+  } catch (err) {
+    sendError(req, res, err);
+  }
+});
+
+app.http.get("/api/reports/top-customers", async (req, res) => {
+  try {
+    const { limit, ...range } = parseReportQuery(topCustomersQuery, req.query);
+    res.json(await topCustomers(requestTenant(req).repo, range, limit));
+  } catch (err) {
+    sendError(req, res, err);
+  }
+});
+
+/** Removes a tenant's trashed orders past the retention window and tells its connected clients. */
+async function purgeTrash({ repo, events }: TenantContext, actor: string): Promise<string[]> {
+  const purged = await purgeDeletedOrders(repo, TRASH_RETENTION_DAYS, actor);
+  for (const id of purged) events.publish("order.deleted", { id, purged: true });
+  if (purged.length) app.log.info(`purged ${purged.length} deleted order(s)`);
+  return purged;
+}
+
+/** Purges the trash of every tenant that has used the app. */
+async function purgeAllTenants(): Promise<void> {
+  for (const tenantId of await store.listTenants()) {
+    await purgeTrash(await tenantContext(tenantId), SYSTEM_ACTOR);
+  }
+}
+
+app.http.post("/api/orders/trash/purge", async (req, res) => {
+  try {
+    requirePermission(req, "orders.purge");
+    res.json({ purged: await purgeTrash(requestTenant(req), requestActor(req)), retentionDays: TRASH_RETENTION_DAYS });
+  } catch (err) {
+    sendError(req, res, err);
+  }
+});
+
+// Bot – chats and channels subscribe to order notifications with text commands
+
+/** The tenant a bot activity comes from. */
+function activityTenant(activity: Activity): string {
+  return activity.conversation.tenantId ?? activity.channelData?.tenant?.id ?? DEVTOOLS_TENANT_ID;
+}
+
+/**
+ * The user behind a bot activity, for roles and the audit log. Activities
+ * carry no group claims; card actions look the groups up when roles need them.
+ */
+function activityIdentity(activity: Activity): Identity {
+  const { from } = activity;
+  return { userId: from.aadObjectId ?? from.id, tenantId: activityTenant(activity), name: from.name, groups: [] };
+}
+
+/** What to tell a chat user about a failed command or action; unexpected errors are logged, not echoed. */
+function problemMessage(err: unknown): ProblemDetails & { message: string } {
+  const problem = problemFromError(err);
+  if (problem.status === 500) app.log.error(err);
+  return { ...problem, message: problemText(problem) };
+}
+
+app.on("message", async ({ activity, ref, send }) => {
+  try {
+    const { repo } = await tenantContext(activityTenant(activity));
+    await send(await runNotificationCommand(repo, activity.text ?? "", subscriptionTarget(ref), activity.from.name));
+  } catch (err) {
+    await send(problemMessage(err).message);
+  }
+});
+
+app.on("install.add", async ({ send }) => {
+  await send(NOTIFICATION_HELP);
+});
+
+// Removing the app from a chat or team ends the subscriptions made there
+app.on("install.remove", async ({ activity, ref }) => {
+  const { repo } = await tenantContext(activityTenant(activity));
+  const removed = await unsubscribeAll(repo, subscriptionTarget(ref).conversation.id);
+  if (removed) app.log.info(`removed ${removed} subscription(s) of conversation ${ref.conversation.id}`);
+});
+
+// Messaging extension – search orders from the compose box and unfurl links to them
+
+const searchExtension = new OrderSearchExtension(
+  async (tenantId) => (await tenantContext(tenantId)).repo,
+  TAB_ENDPOINT,
+  orderCardExtras,
+  (err) => app.log.error(err),
+);
+
+app.on("message.ext.query", ({ activity }) => searchExtension.query(activityTenant(activity), activity.value));
+
+app.on("message.ext.query-link", ({ activity }) => searchExtension.queryLink(activityTenant(activity), activity.value));
+
+// Universal actions – the buttons on order cards, and the refresh that keeps the cards current
+
+/** Groups `checkMemberGroups` checks per call. */
+const MEMBER_GROUPS_PER_CALL = 20;
+
+/**
+ * Looks a chat user's groups up in Graph with the app's own token for their
+ * tenant, which needs the `GroupMember.Read.All` application permission.
+ * Without app credentials (Devtools only) nobody is in any group.
+ */
+async function memberGroups(tenantId: string, userId: string, groupIds: string[]): Promise<string[]> {
+  if (!app.credentials) return [];
+  const graph = new GraphClient(app.client.clone({ token: async () => (await app.tokenManager.getGraphToken(tenantId)) ?? undefined }));
+  const found: string[] = [];
+  for (let i = 0; i < groupIds.length; i += MEMBER_GROUPS_PER_CALL) {
+    const { value } = await graph.call(users.checkMemberGroups.create, { groupIds: groupIds.slice(i, i + MEMBER_GROUPS_PER_CALL) }, { "user-id": userId });
+    found.push(...(value ?? []));
+  }
+  return found;
+}
+
+const cardActions = new OrderCardActions(
+  tenantContext,
+  roleConfig,
+  statusTransitions,
+  orderCardExtras,
+  memberGroups,
+  (err) => app.log.error(err),
+);
+
+app.on("card.action", ({ activity }) => cardActions.execute(activityIdentity(activity), activity.value.action));
+
 (async () => {
-  await seedIfEmpty(STORAGE_CONNECTION);
+  await store.init();
   await app.start(+(process.env.PORT || 3978));
+
+  const purgeTimer = setInterval(() => purgeAllTenants().catch((err) => app.log.error(err)), PURGE_INTERVAL);
+  purgeTimer.unref();
+  purgeAllTenants().catch((err) => app.log.error(err));
 })();
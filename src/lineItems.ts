@@ -0,0 +1,66 @@
+import { ValidationError, type FieldError } from "./errors.js";
+import { findProduct } from "./productCatalog.js";
+
+/** One product on an order, priced when it was added. */
+export interface LineItem {
+  sku: string;
+  /** Product name at the time of ordering. */
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  /** Percentage taken off the line before tax, 0–100. */
+  discountPercent: number;
+  /** Tax rate of the product, as a fraction. */
+  taxRate: number;
+}
+
+/** A line item as sent by clients; price and discount default from the catalog. */
+export interface LineItemInput {
+  sku: string;
+  quantity: number;
+  unitPrice?: number;
+  discountPercent?: number;
+}
+
+/** Rounds an amount to whole cents. */
+export function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Net price of a line after discount, plus its tax, rounded to cents. */
+export function lineTotal(item: Pick<LineItem, "quantity" | "unitPrice" | "discountPercent" | "taxRate">): number {
+  const net = item.quantity * item.unitPrice * (1 - item.discountPercent / 100);
+  return roundCents(net * (1 + item.taxRate));
+}
+
+/** The order amount: the sum of its line totals. */
+export function orderTotal(items: LineItem[]): number {
+  return roundCents(items.reduce((sum, item) => sum + lineTotal(item), 0));
+}
+
+/**
+ * Resolves client line items against the product catalog, filling in name,
+ * tax rate and (unless overridden) unit price. Unknown SKUs are reported as a
+ * `ValidationError` against `lineItems.<index>.sku`.
+ */
+export function priceLineItems(inputs: LineItemInput[]): LineItem[] {
+  const errors: FieldError[] = [];
+  const items: LineItem[] = [];
+  inputs.forEach((input, index) => {
+    const product = findProduct(input.sku);
+    if (!product) {
+      errors.push({ field: `lineItems.${index}.sku`, message: `Unknown product ${input.sku}` });
+      return;
+    }
+    items.push({
+      sku: product.sku,
+      name: product.name,
+      quantity: input.quantity,
+      unitPrice: input.unitPrice ?? product.unitPrice,
+      discountPercent: input.discountPercent ?? 0,
+      taxRate: product.taxRate,
+    });
+  });
+  if (errors.length) throw new ValidationError("The order has invalid line items", errors);
+  return items;
+}
@@ -0,0 +1,88 @@
+import type { ConversationReference } from "@microsoft/teams.api";
+import { describe, expect, it } from "vitest";
+
+import { createCustomer } from "./customersService.js";
+import { BadRequestError, ConflictError, NotFoundError } from "./errors.js";
+import { NOTIFICATION_HELP, runNotificationCommand } from "./notificationCommands.js";
+import { listSubscriptions } from "./orderNotifications.js";
+import { MemoryOrdersRepository } from "./storage/memoryRepository.js";
+
+function conversation(id: string): ConversationReference {
+  return {
+    channelId: "msteams",
+    serviceUrl: "https://smba.trafficmanager.net/teams/",
+    bot: { id: "bot", name: "Orders", role: "bot" },
+    conversation: { id, conversationType: "groupChat" },
+  };
+}
+
+const SALES = conversation("19:sales@thread.v2");
+
+async function repoWithCustomers() {
+  const repo = new MemoryOrdersRepository();
+  await createCustomer(repo, { name: "Contoso Ltd." });
+  await createCustomer(repo, { name: "Contoso Pharmaceuticals" });
+  await createCustomer(repo, { name: "Fabrikam" });
+  return repo;
+}
+
+async function filters(repo: MemoryOrdersRepository) {
+  return (await listSubscriptions(repo, SALES.conversation.id)).map(({ customerId, status }) => ({ customerId, status }));
+}
+
+describe("runNotificationCommand", () => {
+  it("subscribes to a customer reaching a status, however the sentence is phrased", async () => {
+    const repo = await repoWithCustomers();
+    expect(await runNotificationCommand(repo, "notify me when any Contoso Ltd. order ships", SALES, "Ada"))
+      .toBe("Done – I'll post here when an order of Contoso Ltd. moves to Shipped.");
+    expect(await runNotificationCommand(repo, "<at>Orders</at> subscribe to fabrikam", SALES, "Ada"))
+      .toBe("Done – I'll post here when an order of Fabrikam is created or changes.");
+    await runNotificationCommand(repo, "subscribe when cancelled", SALES, "Ada");
+    await runNotificationCommand(repo, "Subscribe", SALES, "Ada");
+    expect(await filters(repo)).toEqual([
+      { customerId: "CUST-001", status: "Shipped" },
+      { customerId: "CUST-003", status: undefined },
+      { customerId: undefined, status: "Cancelled" },
+      { customerId: undefined, status: undefined },
+    ]);
+  });
+
+  it("finds customers by ID or by a part of the name only one of them has", async () => {
+    const repo = await repoWithCustomers();
+    await runNotificationCommand(repo, "subscribe to cust-002", SALES, "Ada");
+    await runNotificationCommand(repo, "subscribe to fabri", SALES, "Ada");
+    expect((await filters(repo)).map((f) => f.customerId)).toEqual(["CUST-002", "CUST-003"]);
+  });
+
+  it("refuses customers it can't pin down and repeated subscriptions", async () => {
+    const repo = await repoWithCustomers();
+    await expect(runNotificationCommand(repo, "subscribe to contoso", SALES, "Ada")).rejects.toBeInstanceOf(BadRequestError);
+    await expect(runNotificationCommand(repo, "subscribe to Northwind", SALES, "Ada")).rejects.toBeInstanceOf(NotFoundError);
+    await runNotificationCommand(repo, "subscribe", SALES, "Ada");
+    await expect(runNotificationCommand(repo, "subscribe", SALES, "Grace")).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it("lists and removes only this conversation's subscriptions", async () => {
+    const repo = await repoWithCustomers();
+    await runNotificationCommand(repo, "subscribe to Fabrikam", SALES, "Ada");
+    await runNotificationCommand(repo, "subscribe when delivered", SALES, "Grace");
+    await runNotificationCommand(repo, "subscribe", conversation("19:support@thread.v2"), "Alan");
+
+    expect(await runNotificationCommand(repo, "list", SALES, "Ada")).toBe([
+      "This conversation is notified:",
+      "1. When an order of Fabrikam is created or changes (added by Ada)",
+      "2. When an order moves to Delivered (added by Grace)",
+    ].join("\n"));
+    expect(await runNotificationCommand(repo, "unsubscribe 1", SALES, "Ada")).toBe("Removed subscription 1.");
+    await expect(runNotificationCommand(repo, "unsubscribe 5", SALES, "Ada")).rejects.toBeInstanceOf(BadRequestError);
+    expect(await runNotificationCommand(repo, "unsubscribe", SALES, "Ada")).toBe("Removed subscription 1.");
+    expect(await runNotificationCommand(repo, "unsubscribe all", SALES, "Ada")).toBe("There was nothing to remove.");
+    expect(await runNotificationCommand(repo, "list", SALES, "Ada")).toBe("This conversation has no subscriptions. Say **subscribe** to add one.");
+    expect(await listSubscriptions(repo, "19:support@thread.v2")).toHaveLength(1);
+  });
+
+  it("answers anything else with the help text", async () => {
+    const repo = await repoWithCustomers();
+    expect(await runNotificationCommand(repo, "hello", SALES, "Ada")).toBe(NOTIFICATION_HELP);
+  });
+});
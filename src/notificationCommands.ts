@@ -0,0 +1,140 @@
+import type { ConversationReference } from "@microsoft/teams.api";
+
+import { getCustomer, type Customer } from "./customersService.js";
+import { BadRequestError, NotFoundError } from "./errors.js";
+import {
+  listSubscriptions,
+  subscribe,
+  unsubscribe,
+  unsubscribeAll,
+  type NotificationSubscription,
+  type SubscriptionFilter,
+} from "./orderNotifications.js";
+import type { OrderStatus } from "./ordersService.js";
+import type { OrdersRepository } from "./storage/ordersRepository.js";
+
+export const NOTIFICATION_HELP = [
+  "I post a card here when orders are created or change. Try:",
+  "- **subscribe** – every new or changed order",
+  "- **subscribe to Contoso Ltd.** – orders of one customer (name or ID)",
+  "- **notify me when any Contoso Ltd. order ships** – orders of one customer reaching a status",
+  "- **subscribe when cancelled** – any order reaching a status",
+  "- **list** – this conversation's subscriptions",
+  "- **unsubscribe 2** or **unsubscribe all**",
+].join("\n");
+
+/** Words that name a status in a command, e.g. "ships" or "shipped". */
+const STATUS_WORDS: Record<string, OrderStatus> = {
+  submitted: "Submitted",
+  pending: "Pending",
+  processing: "Processing",
+  processed: "Processing",
+  ship: "Shipped",
+  ships: "Shipped",
+  shipped: "Shipped",
+  deliver: "Delivered",
+  delivers: "Delivered",
+  delivered: "Delivered",
+  cancel: "Cancelled",
+  cancels: "Cancelled",
+  cancelled: "Cancelled",
+  canceled: "Cancelled",
+};
+
+// Filler around the customer and status, as in "when any Contoso Ltd. order is shipped"
+const LEADING_FILLER = new Set(["to", "about", "for", "on", "when", "any", "all", "every", "of"]);
+const TRAILING_FILLER = new Set(["when", "order", "orders", "is", "are", "gets", "get", "becomes", "become"]);
+
+/** Removes `<at>…</at>` mentions of the bot, which channel messages start with. */
+function stripMentions(text: string): string {
+  return text.replace(/<at>.*?<\/at>/g, " ").replace(/\s+/g, " ").trim();
+}
+
+/** Splits what follows "subscribe" into the customer it names (if any) and a trailing status word. */
+function parseSubscribeArgs(args: string): { customer?: string; status?: OrderStatus } {
+  const words = args.split(" ").filter(Boolean);
+  const status = STATUS_WORDS[words[words.length - 1]?.toLowerCase()];
+  if (status) words.pop();
+  while (words.length && TRAILING_FILLER.has(words[words.length - 1].toLowerCase())) words.pop();
+  while (words.length && LEADING_FILLER.has(words[0].toLowerCase())) words.shift();
+  return { ...(words.length ? { customer: words.join(" ") } : {}), ...(status ? { status } : {}) };
+}
+
+/** Finds a customer by ID, exact name, or a part of the name that only one customer has. */
+async function findCustomer(repo: OrdersRepository, query: string): Promise<Customer> {
+  if (/^CUST-\d+$/i.test(query)) return getCustomer(repo, query.toUpperCase());
+  const wanted = query.toLowerCase();
+  const customers = await repo.listCustomers();
+  const exact = customers.find((c) => c.name.toLowerCase() === wanted);
+  if (exact) return exact;
+  const partial = customers.filter((c) => c.name.toLowerCase().includes(wanted));
+  if (partial.length === 1) return partial[0];
+  if (!partial.length) throw new NotFoundError(`There is no customer called "${query}"`);
+  const names = partial.slice(0, 5).map((c) => c.name).join(", ");
+  throw new BadRequestError(`"${query}" matches several customers (${names}); use the full name or the customer ID`);
+}
+
+/** "an order of Contoso Ltd. moves to Shipped", for replies and the subscription list. */
+function describeFilter(filter: SubscriptionFilter, customerName?: string): string {
+  const subject = customerName ? `an order of ${customerName}` : "an order";
+  return filter.status ? `${subject} moves to ${filter.status}` : `${subject} is created or changes`;
+}
+
+async function describeSubscriptions(repo: OrdersRepository, subscriptions: NotificationSubscription[]): Promise<string> {
+  const names = new Map((await repo.listCustomers()).map((c) => [c.id, c.name]));
+  return subscriptions
+    .map((s, i) => {
+      const customer = s.customerId ? names.get(s.customerId) ?? s.customerId : undefined;
+      return `${i + 1}. When ${describeFilter(s, customer)} (added by ${s.createdBy})`;
+    })
+    .join("\n");
+}
+
+/**
+ * Runs one bot command sent in a chat or channel and returns the reply.
+ * `conversation` is where the conversation's notifications are posted and
+ * `user` who sent the command. Unknown commands get the help text.
+ */
+export async function runNotificationCommand(
+  repo: OrdersRepository,
+  text: string,
+  conversation: ConversationReference,
+  user: string,
+): Promise<string> {
+  const command = stripMentions(text);
+  const conversationId = conversation.conversation.id;
+
+  const subscribeMatch = /^(?:subscribe|notify me)\b(.*)$/i.exec(command);
+  if (subscribeMatch) {
+    const args = parseSubscribeArgs(subscribeMatch[1].trim());
+    const customer = args.customer ? await findCustomer(repo, args.customer) : undefined;
+    const filter = { ...(customer ? { customerId: customer.id } : {}), ...(args.status ? { status: args.status } : {}) };
+    await subscribe(repo, conversation, filter, user);
+    return `Done – I'll post here when ${describeFilter(filter, customer?.name)}.`;
+  }
+
+  if (/^(?:list|subscriptions)\b/i.test(command)) {
+    const subscriptions = await listSubscriptions(repo, conversationId);
+    if (!subscriptions.length) return "This conversation has no subscriptions. Say **subscribe** to add one.";
+    return `This conversation is notified:\n${await describeSubscriptions(repo, subscriptions)}`;
+  }
+
+  const unsubscribeMatch = /^(?:unsubscribe|stop)\b\s*(.*)$/i.exec(command);
+  if (unsubscribeMatch) {
+    const which = unsubscribeMatch[1].trim().toLowerCase();
+    if (which === "all") {
+      const removed = await unsubscribeAll(repo, conversationId);
+      return removed ? `Removed ${removed === 1 ? "the subscription" : `all ${removed} subscriptions`}.` : "There was nothing to remove.";
+    }
+    const subscriptions = await listSubscriptions(repo, conversationId);
+    const index = /^\d+$/.test(which) ? Number(which) - 1 : subscriptions.length === 1 && !which ? 0 : -1;
+    const subscription = subscriptions[index];
+    if (!subscription) {
+      throw new BadRequestError("Say **unsubscribe** followed by a number from **list**, or **unsubscribe all**");
+    }
+    await unsubscribe(repo, conversationId, subscription.id);
+    return `Removed subscription ${index + 1}.`;
+  }
+
+  return NOTIFICATION_HELP;
+}
@@ -0,0 +1,40 @@
+import type { OrderData } from "./ordersService.js";
+
+export type AuditAction = "created" | "updated" | "deleted" | "restored" | "purged";
+
+/** One field that changed; `from` is absent for fields that were unset before, `to` for ones cleared. */
+export interface FieldChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+/** A single change to an order: who made it, when, and which fields moved. */
+export interface AuditEntry {
+  orderId: string;
+  action: AuditAction;
+  actor: string;
+  /** ISO timestamp of the change. */
+  timestamp: string;
+  changes: FieldChange[];
+}
+
+/** Actor recorded for changes the server makes on its own, e.g. purging the trash. */
+export const SYSTEM_ACTOR = "system";
+
+const AUDITED_FIELDS = ["customer", "amount", "status", "date", "lineItems", "deletedAt"] as const;
+
+/** Field-level diff between two versions of an order. Pass `{}` as `before` for a new order. */
+export function diffOrders(before: Partial<OrderData>, after: Partial<OrderData>): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of AUDITED_FIELDS) {
+    // line items are arrays, so compare them by value
+    if (JSON.stringify(before[field]) === JSON.stringify(after[field])) continue;
+    changes.push({
+      field,
+      ...(before[field] !== undefined ? { from: before[field] } : {}),
+      ...(after[field] !== undefined ? { to: after[field] } : {}),
+    });
+  }
+  return changes;
+}
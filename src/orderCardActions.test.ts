@@ -0,0 +1,127 @@
+import type { AdaptiveCardActionResponse } from "@microsoft/teams.api";
+import { describe, expect, it, vi } from "vitest";
+
+import type { Identity } from "./auth.js";
+import { createCustomer } from "./customersService.js";
+import { priceLineItems } from "./lineItems.js";
+import { OrderCardActions, type MemberGroupsLookup } from "./orderCardActions.js";
+import { REFRESH_VERB, SET_STATUS_VERB } from "./orderCards.js";
+import { OrderEventStream } from "./orderEvents.js";
+import { createOrder, getOrder } from "./ordersService.js";
+import type { RoleConfig } from "./roles.js";
+import { DEFAULT_STATUS_TRANSITIONS } from "./statusWorkflow.js";
+import { MemoryOrdersRepository } from "./storage/memoryRepository.js";
+
+const SALES_GROUP = "6f1c0c2e-0000-0000-0000-00000000a1e5";
+const MANAGERS_GROUP = "6f1c0c2e-0000-0000-0000-0000000000ad";
+
+const ada: Identity = { userId: "00000000-0000-0000-0000-0000000000ad", tenantId: "contoso", name: "Ada Lovelace", groups: [] };
+
+async function setup(roles: Partial<RoleConfig> = {}, memberGroups: MemberGroupsLookup = async () => []) {
+  const repo = new MemoryOrdersRepository();
+  const customer = await createCustomer(repo, { name: "Contoso Ltd." });
+  await createOrder(repo, { customerId: customer.id, status: "Processing", date: "2026-01-15", lineItems: priceLineItems([{ sku: "MON-27", quantity: 1 }]) }, "tester");
+  const events = new OrderEventStream();
+  const published = vi.fn();
+  events.listen(published);
+  const lookup = vi.fn(memberGroups);
+  const onError = vi.fn();
+  const actions = new OrderCardActions(
+    async () => ({ repo, events }),
+    { defaultRole: "viewer", users: {}, groups: {}, ...roles },
+    DEFAULT_STATUS_TRANSITIONS,
+    () => ({}),
+    lookup,
+    onError,
+  );
+  return { repo, actions, published, lookup, onError };
+}
+
+/** The heading of the card an action answered with. */
+function heading(response: AdaptiveCardActionResponse): string {
+  expect(response.type).toBe("application/vnd.microsoft.card.adaptive");
+  return (response.value as any).body[0].columns[0].items[0].text;
+}
+
+function errorOf(response: AdaptiveCardActionResponse) {
+  expect(response.type).toBe("application/vnd.microsoft.error");
+  return { statusCode: response.statusCode, message: (response.value as { message: string }).message };
+}
+
+describe("OrderCardActions", () => {
+  it("refreshes a card for anyone without checking roles", async () => {
+    const { actions, lookup } = await setup({ groups: { [SALES_GROUP]: "salesRep" } });
+    expect(heading(await actions.execute(ada, { verb: REFRESH_VERB, data: { orderId: "ORD-001" } }))).toBe("Order ORD-001");
+    expect(lookup).not.toHaveBeenCalled();
+  });
+
+  it("changes the status for a user given a role by object ID and tells the other clients", async () => {
+    const { repo, actions, published } = await setup({ users: { [ada.userId]: "salesRep" } });
+    const response = await actions.execute(ada, { verb: SET_STATUS_VERB, data: { orderId: "ORD-001", status: "Shipped" } });
+    expect(heading(response)).toBe("Order ORD-001 is now Shipped");
+    expect((await getOrder(repo, "ORD-001")).status).toBe("Shipped");
+    expect(published).toHaveBeenCalledWith(expect.objectContaining({ type: "order.updated" }));
+  });
+
+  it("applies roles granted to the groups the user turns out to be in", async () => {
+    const { repo, actions, lookup } = await setup(
+      { groups: { [SALES_GROUP]: "salesRep", [MANAGERS_GROUP]: "manager" } },
+      async () => [MANAGERS_GROUP],
+    );
+    const response = await actions.execute(ada, { verb: SET_STATUS_VERB, data: { orderId: "ORD-001", status: "Cancelled" } });
+    expect(heading(response)).toBe("Order ORD-001 is now Cancelled");
+    expect(lookup).toHaveBeenCalledWith("contoso", ada.userId, [SALES_GROUP, MANAGERS_GROUP]);
+    expect((await getOrder(repo, "ORD-001")).status).toBe("Cancelled");
+  });
+
+  it("refuses a change the user's groups don't allow", async () => {
+    const { repo, actions } = await setup({ groups: { [SALES_GROUP]: "salesRep" } }, async () => [SALES_GROUP]);
+    const response = await actions.execute(ada, { verb: SET_STATUS_VERB, data: { orderId: "ORD-001", status: "Cancelled" } });
+    expect(errorOf(response)).toEqual({ statusCode: 400, message: "The salesRep role does not allow orders.cancel" });
+    expect((await getOrder(repo, "ORD-001")).status).toBe("Processing");
+  });
+
+  it("falls back to the roles by object ID when the groups can't be looked up", async () => {
+    const failure = new Error("Insufficient privileges to complete the operation");
+    const { actions, onError } = await setup({ groups: { [SALES_GROUP]: "salesRep" } }, async () => {
+      throw failure;
+    });
+    const response = await actions.execute(ada, { verb: SET_STATUS_VERB, data: { orderId: "ORD-001", status: "Shipped" } });
+    expect(errorOf(response)).toEqual({ statusCode: 400, message: "The viewer role does not allow orders.edit" });
+    expect(onError).toHaveBeenCalledWith(failure);
+  });
+
+  it("skips the lookup when no roles are given to groups", async () => {
+    const { actions, lookup } = await setup();
+    await actions.execute(ada, { verb: SET_STATUS_VERB, data: { orderId: "ORD-001", status: "Shipped" } });
+    expect(lookup).not.toHaveBeenCalled();
+  });
+
+  it("shows a button's status as is when the order already has it", async () => {
+    const { actions } = await setup();
+    expect(heading(await actions.execute(ada, { verb: SET_STATUS_VERB, data: { orderId: "ORD-001", status: "Processing" } }))).toBe("Order ORD-001");
+  });
+
+  it("answers unusable actions with the reason", async () => {
+    const { actions, onError } = await setup({ defaultRole: "admin" });
+    expect(errorOf(await actions.execute(ada, { verb: SET_STATUS_VERB, data: { orderId: "ORD-001", status: "Submitted" } })))
+      .toEqual({ statusCode: 400, message: "Cannot change status from Processing to Submitted; allowed: Shipped, Cancelled" });
+    expect(errorOf(await actions.execute(ada, { verb: "order.delete", data: { orderId: "ORD-001" } })))
+      .toEqual({ statusCode: 400, message: "Unknown card action order.delete" });
+    expect(errorOf(await actions.execute(ada, { verb: REFRESH_VERB, data: { orderId: "ORD-404" } })))
+      .toEqual({ statusCode: 400, message: "Order ORD-404 not found" });
+    expect(errorOf(await actions.execute(ada, { verb: REFRESH_VERB, data: {} })).statusCode).toBe(400);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it("hides unexpected errors from the card and reports them", async () => {
+    const { repo, actions, onError } = await setup();
+    const failure = new Error("storage is down");
+    repo.get = async () => {
+      throw failure;
+    };
+    expect(errorOf(await actions.execute(ada, { verb: REFRESH_VERB, data: { orderId: "ORD-001" } })))
+      .toEqual({ statusCode: 500, message: "Sorry, something went wrong. Please try again." });
+    expect(onError).toHaveBeenCalledWith(failure);
+  });
+});
@@ -0,0 +1,94 @@
+import type { AdaptiveCardActionResponse, AdaptiveCardInvokeAction } from "@microsoft/teams.api";
+import type { IAdaptiveCard } from "@microsoft/teams.cards";
+
+import type { Identity } from "./auth.js";
+import { BadRequestError } from "./errors.js";
+import { orderCard, REFRESH_VERB, SET_STATUS_VERB } from "./orderCards.js";
+import type { OrderEventStream } from "./orderEvents.js";
+import type { OrderCardExtras } from "./orderNotifications.js";
+import { getOrder, updateOrder } from "./ordersService.js";
+import { problemFromError, problemText } from "./problemDetails.js";
+import { assertPermission, resolveRole, type Role, type RoleConfig } from "./roles.js";
+import type { StatusTransitions } from "./statusWorkflow.js";
+import type { OrdersRepository } from "./storage/ordersRepository.js";
+import { orderCardActionData, parseBody } from "./validation.js";
+
+/**
+ * The groups among `groupIds` that a user of `tenantId` belongs to, directly
+ * or through other groups. Chat activities carry no group claims, so card
+ * actions look the user's groups up instead.
+ */
+export type MemberGroupsLookup = (tenantId: string, userId: string, groupIds: string[]) => Promise<string[]>;
+
+function cardResponse(card: IAdaptiveCard): AdaptiveCardActionResponse {
+  return { statusCode: 200, type: "application/vnd.microsoft.card.adaptive", value: card };
+}
+
+/**
+ * Handles the `Action.Execute` buttons of order cards and their refreshes.
+ * Status changes go through the same role checks and workflow rules as
+ * `PUT /api/orders/:id`; roles granted to Entra groups apply once
+ * `memberGroups` has found the user's groups.
+ */
+export class OrderCardActions {
+  constructor(
+    private readonly tenantFor: (tenantId: string) => Promise<{ repo: OrdersRepository; events: OrderEventStream }>,
+    private readonly roles: RoleConfig,
+    private readonly transitions: StatusTransitions,
+    private readonly extras: OrderCardExtras,
+    private readonly memberGroups: MemberGroupsLookup,
+    private readonly onError: (err: unknown) => void,
+  ) {}
+
+  /**
+   * Answers a button press by `user` with the order's updated card, or with
+   * an error the card shows in place. Unexpected errors go to `onError`.
+   */
+  async execute(user: Identity, { verb, data }: Pick<AdaptiveCardInvokeAction, "verb" | "data">): Promise<AdaptiveCardActionResponse> {
+    try {
+      const { orderId, status } = parseBody(orderCardActionData, data);
+      const { repo, events } = await this.tenantFor(user.tenantId);
+
+      const before = await getOrder(repo, orderId);
+      // a button on an outdated card may ask for the status the order already has; showing the order is enough
+      if (verb === REFRESH_VERB || (verb === SET_STATUS_VERB && status === before.status)) {
+        return cardResponse(orderCard(before, { heading: `Order ${before.id}`, ...this.extras(before) }));
+      }
+      if (verb !== SET_STATUS_VERB || !status) throw new BadRequestError(`Unknown card action ${verb}`);
+
+      // the same checks as PUT /api/orders/:id with a status change
+      const role = await this.role(user);
+      assertPermission(role, "orders.edit");
+      if (status === "Cancelled") assertPermission(role, "orders.cancel");
+      const updated = await updateOrder(repo, orderId, { status }, user.name, undefined, this.transitions);
+      events.publish("order.updated", updated);
+      return cardResponse(orderCard(updated, {
+        heading: `Order ${updated.id} is now ${updated.status}`,
+        detail: `${before.status} → ${updated.status} by ${user.name}`,
+        ...this.extras(updated),
+      }));
+    } catch (err) {
+      const problem = problemFromError(err);
+      if (problem.status === 500) this.onError(err);
+      return {
+        statusCode: problem.status === 500 ? 500 : 400,
+        type: "application/vnd.microsoft.error",
+        value: { code: problem.title, message: problemText(problem), innerHttpError: { statusCode: problem.status, body: null } },
+      };
+    }
+  }
+
+  /** The user's role, counting the configured groups they belong to. */
+  private async role(user: Identity): Promise<Role> {
+    const groupIds = Object.keys(this.roles.groups);
+    if (!groupIds.length) return resolveRole(this.roles, user);
+    let groups: string[] = [];
+    try {
+      groups = await this.memberGroups(user.tenantId, user.userId, groupIds);
+    } catch (err) {
+      // without the lookup only the roles given to the user's object ID apply
+      this.onError(err);
+    }
+    return resolveRole(this.roles, { ...user, groups });
+  }
+}
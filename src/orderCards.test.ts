@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+
+import { orderAttachment, orderCard, orderIdFromLink, orderLink, REFRESH_VERB, SET_STATUS_VERB, statusBadge } from "./orderCards.js";
+import type { Order } from "./ordersService.js";
+
+const TAB_ENDPOINT = "https://orders.contoso.com";
+
+const order: Order = {
+  id: "ORD-042",
+  customerId: "CUST-001",
+  customer: "Contoso Ltd.",
+  status: "Processing",
+  date: "2026-01-15",
+  amount: 1234.5,
+  lineItems: [],
+  etag: "1",
+};
+
+describe("order links", () => {
+  it("opens the Home tab on the order and reads the ID back", () => {
+    const link = orderLink(TAB_ENDPOINT, "ORD-042");
+    expect(link).toBe("https://orders.contoso.com/tabs/home?order=ORD-042");
+    expect(orderIdFromLink(TAB_ENDPOINT, link)).toBe("ORD-042");
+    expect(orderIdFromLink(TAB_ENDPOINT, "https://orders.contoso.com/tabs/Home/?order=ord-7")).toBe("ORD-7");
+  });
+
+  it("ignores other hosts, other pages and anything that isn't an order ID", () => {
+    for (const link of [
+      "https://example.com/tabs/home?order=ORD-042",
+      "https://orders.contoso.com/tabs/customers?order=ORD-042",
+      "https://orders.contoso.com/tabs/home?order=CUST-001",
+      "https://orders.contoso.com/tabs/home",
+      "not a url",
+    ]) {
+      expect(orderIdFromLink(TAB_ENDPOINT, link)).toBeUndefined();
+    }
+  });
+});
+
+describe("orderCard", () => {
+  it("shows the order's facts under a heading with its status badge", () => {
+    const card = orderCard(order, { heading: "Order ORD-042", detail: "Changed by Ada" });
+    expect(JSON.parse(JSON.stringify(card.body))).toMatchObject([
+      { type: "ColumnSet", columns: [{ items: [{ text: "Order ORD-042" }] }, { items: [{ type: "Badge", text: "Processing", style: "Informative" }] }] },
+      { type: "TextBlock", text: "Changed by Ada" },
+      { type: "FactSet", facts: [
+        { title: "Order", value: "ORD-042" },
+        { title: "Customer", value: "Contoso Ltd." },
+        { title: "Amount", value: "$1,234.50" },
+        { title: "Date", value: "2026-01-15" },
+      ] },
+    ]);
+    expect(card.actions).toBeUndefined();
+    expect(card.refresh).toBeUndefined();
+  });
+
+  it("offers buttons for the next statuses it has labels for, and refreshes itself", () => {
+    const card = orderCard(order, { heading: "Order ORD-042", link: orderLink(TAB_ENDPOINT, order.id), nextStatuses: ["Pending", "Shipped", "Cancelled"] });
+    expect(JSON.parse(JSON.stringify(card.actions))).toMatchObject([
+      { type: "Action.Execute", title: "Mark Shipped", verb: SET_STATUS_VERB, data: { orderId: "ORD-042", status: "Shipped" } },
+      { type: "Action.Execute", title: "Cancel", verb: SET_STATUS_VERB, data: { orderId: "ORD-042", status: "Cancelled" } },
+      { type: "Action.OpenUrl", title: "Open in Orders", url: "https://orders.contoso.com/tabs/home?order=ORD-042" },
+    ]);
+    expect(JSON.parse(JSON.stringify(card.refresh))).toMatchObject({ action: { verb: REFRESH_VERB, data: { orderId: "ORD-042" } } });
+  });
+
+  it("keeps refreshing a card whose order has no next status, without buttons", () => {
+    const card = orderCard({ ...order, status: "Delivered" }, { heading: "Order ORD-042", nextStatuses: [] });
+    expect(card.actions).toBeUndefined();
+    expect(card.refresh).toBeDefined();
+  });
+});
+
+describe("statusBadge", () => {
+  it("uses the status colours of the tabs", () => {
+    expect(statusBadge("Cancelled").style).toBe("Attention");
+    expect(statusBadge("Delivered").style).toBe("Good");
+  });
+});
+
+describe("orderAttachment", () => {
+  it("inserts the order's card and previews it in one line", () => {
+    const attachment = orderAttachment(order, {});
+    expect(attachment.contentType).toBe("application/vnd.microsoft.card.adaptive");
+    expect(attachment.preview?.content).toEqual({ title: "ORD-042 · Contoso Ltd.", text: "Processing · $1,234.50 · 2026-01-15" });
+  });
+});
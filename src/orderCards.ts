@@ -0,0 +1,124 @@
+import { cardAttachment, type MessagingExtensionAttachment } from "@microsoft/teams.api";
+import {
+  AdaptiveCard,
+  Badge,
+  Column,
+  ColumnSet,
+  ExecuteAction,
+  Fact,
+  FactSet,
+  OpenUrlAction,
+  RefreshDefinition,
+  TextBlock,
+  type BadgeStyle,
+} from "@microsoft/teams.cards";
+
+import type { Order, OrderStatus } from "./ordersService.js";
+
+/** Badge colours matching `STATUS_APPEARANCE` in the tabs. */
+const STATUS_STYLE: Record<OrderStatus, BadgeStyle> = {
+  Submitted:  "Informative",
+  Pending:    "Warning",
+  Processing: "Informative",
+  Shipped:    "Good",
+  Delivered:  "Good",
+  Cancelled:  "Attention",
+};
+
+/** `Action.Execute` verbs of order cards; the data of both is `{ orderId, status? }`. */
+export const SET_STATUS_VERB = "order.setStatus";
+export const REFRESH_VERB = "order.refresh";
+
+/** Status changes offered as buttons when the workflow allows them, and their labels. */
+const STATUS_BUTTONS: Partial<Record<OrderStatus, string>> = {
+  Shipped:   "Mark Shipped",
+  Delivered: "Mark Delivered",
+  Cancelled: "Cancel",
+};
+
+/** Query parameter of the Home tab that opens an order, e.g. `?order=ORD-042`. */
+const ORDER_LINK_PARAM = "order";
+
+function formatCurrency(amount: number): string {
+  return amount.toLocaleString("en-US", { style: "currency", currency: "USD" });
+}
+
+export function statusBadge(status: OrderStatus): Badge {
+  return new Badge({ text: status, style: STATUS_STYLE[status], appearance: "Tint", shape: "Rounded" });
+}
+
+/** Address of the Home tab opened on one order; `baseUrl` is where the tabs are served. */
+export function orderLink(baseUrl: string, orderId: string): string {
+  const url = new URL("/tabs/home", baseUrl);
+  url.searchParams.set(ORDER_LINK_PARAM, orderId);
+  return url.toString();
+}
+
+/** The order ID of a link made by `orderLink` on the same host, or `undefined` for any other URL. */
+export function orderIdFromLink(baseUrl: string, link: string): string | undefined {
+  let url: URL;
+  try {
+    url = new URL(link);
+  } catch {
+    return undefined;
+  }
+  if (url.host !== new URL(baseUrl).host || url.pathname.replace(/\/$/, "").toLowerCase() !== "/tabs/home") return undefined;
+  const id = url.searchParams.get(ORDER_LINK_PARAM)?.toUpperCase();
+  return id && /^ORD-\d+$/.test(id) ? id : undefined;
+}
+
+export interface OrderCardOptions {
+  heading: string;
+  /** A line under the heading, such as who changed the order. */
+  detail?: string;
+  /** Adds an "Open in Orders" button. */
+  link?: string;
+  /**
+   * Statuses the order may move to next. Buttons are added for those in
+   * `STATUS_BUTTONS`, and the card refreshes itself so everyone sees the
+   * order's current state; without it the card is a static snapshot.
+   */
+  nextStatuses?: OrderStatus[];
+}
+
+/** Adaptive Card showing one order. */
+export function orderCard(order: Order, { heading, detail, link, nextStatuses }: OrderCardOptions): AdaptiveCard {
+  const items = order.lineItems?.length;
+  const card = new AdaptiveCard(
+    new ColumnSet().withColumns(
+      new Column(new TextBlock(heading, { size: "Medium", weight: "Bolder", wrap: true })).withWidth("stretch"),
+      new Column(statusBadge(order.status)).withWidth("auto").withVerticalContentAlignment("Center"),
+    ),
+    ...(detail ? [new TextBlock(detail, { isSubtle: true, spacing: "None", wrap: true })] : []),
+    new FactSet(
+      new Fact("Order", order.id),
+      new Fact("Customer", order.customer),
+      new Fact("Amount", formatCurrency(order.amount)),
+      new Fact("Date", order.date),
+      ...(items ? [new Fact("Items", items === 1 ? "1 line item" : `${items} line items`)] : []),
+    ),
+  );
+  const statusActions = (nextStatuses ?? [])
+    .filter((status) => STATUS_BUTTONS[status])
+    .map((status) => new ExecuteAction({ title: STATUS_BUTTONS[status], verb: SET_STATUS_VERB, data: { orderId: order.id, status } }));
+  const actions = [...statusActions, ...(link ? [new OpenUrlAction(link, { title: "Open in Orders" })] : [])];
+  if (actions.length) card.withActions(...actions);
+  if (nextStatuses) {
+    card.withRefresh(new RefreshDefinition({ action: new ExecuteAction({ verb: REFRESH_VERB, data: { orderId: order.id } }) }));
+  }
+  return card;
+}
+
+/**
+ * A messaging extension result for one order: the card that is inserted
+ * into the message, plus the short preview shown in the result list.
+ */
+export function orderAttachment(order: Order, options: Omit<OrderCardOptions, "heading">): MessagingExtensionAttachment {
+  return {
+    ...cardAttachment("adaptive", orderCard(order, { heading: `Order ${order.id}`, ...options })),
+    preview: cardAttachment("thumbnail", {
+      title: `${order.id} · ${order.customer}`,
+      text: `${order.status} · ${formatCurrency(order.amount)} · ${order.date}`,
+    }),
+  };
+}
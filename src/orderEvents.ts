@@ -0,0 +1,112 @@
+import type { Customer } from "./customersService.js";
+import type { Order } from "./ordersService.js";
+
+/** Every change pushed to the tabs over `/api/orders/events`, keyed by its SSE event name. */
+export interface OrderEventMap {
+  "order.created": Order;
+  "order.updated": Order;
+  /** `purged` is false when the order went to the trash, true when it was removed for good. */
+  "order.deleted": { id: string; purged: boolean };
+  "order.restored": Order;
+  "customer.created": Customer;
+  /** Orders only hold the customer ID, so a rename is this one event. */
+  "customer.updated": Customer;
+  "customer.deleted": { id: string };
+}
+
+export type OrderEventType = keyof OrderEventMap;
+
+/** One published event, narrowed on `type`. */
+export type OrderEvent = { [T in OrderEventType]: { type: T; data: OrderEventMap[T] } }[OrderEventType];
+
+/** Server-side observer of a stream, e.g. the bot's notifier. */
+export type OrderEventListener = (event: OrderEvent) => void;
+
+interface BufferedEvent {
+  id: number;
+  type: OrderEventType;
+  data: unknown;
+}
+
+/** Milliseconds between keep-alive comments, so idle proxies don't drop the stream. */
+const HEARTBEAT_INTERVAL = 25_000;
+
+/** How long browsers wait before reconnecting, sent as the SSE `retry` field. */
+const RECONNECT_DELAY = 3_000;
+
+function format(event: BufferedEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+/**
+ * Fans order changes out to every connected Server-Sent Events client. Each
+ * event gets the next ID in a monotonically increasing sequence, and the last
+ * `bufferSize` events are kept so a reconnecting client that sends
+ * `Last-Event-ID` receives what it missed. If the gap can't be filled (the ID
+ * fell out of the buffer, or the server restarted) the client is sent a
+ * `reset` event and should reload its data.
+ */
+export class OrderEventStream {
+  private readonly clients = new Set<any>();
+  private readonly listeners = new Set<OrderEventListener>();
+  private readonly buffer: BufferedEvent[] = [];
+  // Seeded from the clock so IDs keep increasing across restarts and a client's
+  // ID from a previous run is never mistaken for one of ours.
+  private lastId = Date.now() * 1000;
+
+  constructor(private readonly bufferSize = 1000) {}
+
+  publish<T extends OrderEventType>(type: T, data: OrderEventMap[T]): void {
+    const event: BufferedEvent = { id: ++this.lastId, type, data };
+    this.buffer.push(event);
+    if (this.buffer.length > this.bufferSize) this.buffer.shift();
+
+    const payload = format(event);
+    for (const client of this.clients) {
+      if (!client.writableEnded) client.write(payload);
+    }
+    for (const listener of this.listeners) {
+      listener({ type, data } as OrderEvent);
+    }
+  }
+
+  /** Calls `listener` with every event published from now on; returns a function that stops it. */
+  listen(listener: OrderEventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Express handler: opens the stream and replays anything after `Last-Event-ID` (or `?lastEventId=`). */
+  subscribe(req: any, res: any): void {
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader("Connection", "keep-alive");
+    res.flushHeaders();
+    res.write(`retry: ${RECONNECT_DELAY}\n\n`);
+
+    // Clients that reopen the stream themselves (e.g. with a fresh token) pass the ID in the query string
+    const lastEventId = req.get("Last-Event-ID") ?? req.query.lastEventId;
+    if (lastEventId !== undefined) this.replay(res, Number(lastEventId));
+
+    this.clients.add(res);
+    const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), HEARTBEAT_INTERVAL);
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      this.clients.delete(res);
+    });
+  }
+
+  private replay(res: any, lastEventId: number): void {
+    const oldest = this.buffer[0]?.id ?? this.lastId + 1;
+    const canReplay =
+      Number.isInteger(lastEventId) && lastEventId <= this.lastId && lastEventId >= oldest - 1;
+
+    if (!canReplay) {
+      res.write(`id: ${this.lastId}\nevent: reset\ndata: {}\n\n`);
+      return;
+    }
+    for (const event of this.buffer) {
+      if (event.id > lastEventId) res.write(format(event));
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { createCustomer } from "./customersService.js";
+import { ValidationError } from "./errors.js";
+import { importOrders, readImportRows, type ImportRow } from "./orderImport.js";
+import { getOrderHistory, listOrders } from "./ordersService.js";
+import { FileOrdersStore } from "./storage/fileRepository.js";
+import { MemoryOrdersRepository } from "./storage/memoryRepository.js";
+
+const MAPPING = { reference: "Ref", customer: "Customer", status: "Status", sku: "SKU", quantity: "Qty" };
+
+async function repoWithCustomer() {
+  const repo = new MemoryOrdersRepository();
+  const customer = await createCustomer(repo, { name: "Contoso Ltd." });
+  return { repo, customer };
+}
+
+describe("readImportRows", () => {
+  it("maps columns by header, ignoring case, and skips blank rows", () => {
+    const rows = readImportRows("ref,CUSTOMER,sku,qty,Status\nA,Contoso Ltd.,MON-27,2,\n,,,,\nA,CUST-001,SVC-SETUP,,\n", MAPPING);
+    expect(rows).toEqual([
+      { line: 2, reference: "A", customer: "Contoso Ltd.", sku: "MON-27", quantity: "2" },
+      { line: 4, reference: "A", customer: "CUST-001", sku: "SVC-SETUP" },
+    ]);
+  });
+
+  it("reports required fields left unmapped and columns the file lacks", () => {
+    let error: unknown;
+    try {
+      readImportRows("Customer,Qty\nContoso,1\n", { customer: "Customer", quantity: "Amount" });
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).errors).toEqual([
+      { field: "sku", message: "Map a column to this field" },
+      { field: "quantity", message: "The file has no column named Amount" },
+    ]);
+  });
+
+  it("rejects a file without data rows", () => {
+    expect(() => readImportRows("", MAPPING)).toThrow("The file is empty");
+    expect(() => readImportRows("Ref,Customer,Status,SKU,Qty\n\n", MAPPING)).toThrow("The file has no rows");
+  });
+});
+
+describe("importOrders", () => {
+  it("groups rows by reference and only previews on a dry run", async () => {
+    const { repo } = await repoWithCustomer();
+    const rows: ImportRow[] = [
+      { line: 2, reference: "A", customer: "Contoso Ltd.", sku: "MON-27", quantity: "2" },
+      { line: 3, reference: "A", sku: "SVC-SETUP" },
+      { line: 4, customer: "CUST-001", sku: "SVC-SETUP" },
+    ];
+    const { result, created } = await importOrders(repo, rows, "tester", true);
+    expect(result).toMatchObject({ dryRun: true, imported: 2, skipped: 0 });
+    expect(result.orders.map((o) => o.lines)).toEqual([[2, 3], [4]]);
+    expect(result.orders[0].lineItems.map((l) => l.sku)).toEqual(["MON-27", "SVC-SETUP"]);
+    expect(created).toEqual([]);
+    expect(await repo.isEmpty()).toBe(true);
+  });
+
+  it("creates the valid orders as Submitted, each with an audit entry", async () => {
+    const { repo } = await repoWithCustomer();
+    const { result, created } = await importOrders(repo, [
+      { line: 2, customer: "Contoso Ltd.", status: "submitted", sku: "MON-27" },
+      { line: 3, customer: "Nobody", sku: "MON-27" },
+    ], "tester", false);
+    expect(result).toMatchObject({ imported: 1, skipped: 1 });
+    expect(created.map((o) => [o.id, o.status])).toEqual([["ORD-001", "Submitted"]]);
+    expect((await getOrderHistory(repo, "ORD-001")).map((e) => e.action)).toEqual(["created"]);
+  });
+
+  it("refuses rows that would start an order past Submitted", async () => {
+    const { repo } = await repoWithCustomer();
+    const { result } = await importOrders(repo, [
+      { line: 2, customer: "Contoso Ltd.", status: "Cancelled", sku: "MON-27" },
+      { line: 3, customer: "Contoso Ltd.", status: "Delivered", sku: "MON-27" },
+      { line: 4, customer: "Contoso Ltd.", status: "Lost", sku: "MON-27" },
+    ], "tester", true);
+    expect(result).toMatchObject({ imported: 0, skipped: 3 });
+    expect(result.orders.flatMap((o) => o.errors)).toEqual([
+      { line: 2, field: "status", message: "Imported orders start as Submitted; change the status afterwards" },
+      { line: 3, field: "status", message: "Imported orders start as Submitted; change the status afterwards" },
+      { line: 4, field: "status", message: "Must be one of Submitted, Pending, Processing, Shipped, Delivered, Cancelled" },
+    ]);
+  });
+
+  it("skips a row with an impossible date and imports the rest", async () => {
+    const { repo } = await repoWithCustomer();
+    const { result, created } = await importOrders(repo, [
+      { line: 2, customer: "Contoso Ltd.", date: "2026-13-01", sku: "MON-27" },
+      { line: 3, customer: "Contoso Ltd.", date: "2026-03-01", sku: "MON-27" },
+      { line: 4, customer: "Contoso Ltd.", date: "2026-00-10", sku: "MON-27" },
+    ], "tester", false);
+    expect(result).toMatchObject({ imported: 1, skipped: 2 });
+    expect(result.orders.flatMap((o) => o.errors)).toEqual([
+      { line: 2, field: "date", message: "Must be a valid calendar date" },
+      { line: 4, field: "date", message: "Must be a valid calendar date" },
+    ]);
+    expect(created.map((o) => [o.id, o.date])).toEqual([["ORD-001", "2026-03-01"]]);
+  });
+
+  it("points at each unusable value and at rows that disagree within an order", async () => {
+    const { repo } = await repoWithCustomer();
+    await createCustomer(repo, { name: "Fabrikam" });
+    const { result } = await importOrders(repo, [
+      { line: 2, reference: "A", customer: "Contoso Ltd.", sku: "MON-27", quantity: "0" },
+      { line: 3, reference: "A", customer: "Fabrikam", sku: "NOPE" },
+      { line: 4, sku: "MON-27" },
+    ], "tester", true);
+    expect(result.orders.map((o) => o.errors.map((e) => `${e.line}:${e.field}`))).toEqual([
+      ["2:quantity", "3:customer", "3:sku"],
+      ["4:customer"],
+    ]);
+  });
+});
+
+describe("importing into the file store", () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    if (dir) await fs.rm(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it("saves the file once per batch rather than once per order", async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "orders-import-"));
+    const store = new FileOrdersStore(path.join(dir, "orders.json"));
+    const repo = store.forTenant("contoso");
+    await createCustomer(repo, { name: "Contoso Ltd." });
+
+    const writes = vi.spyOn(fs, "writeFile");
+    const rows: ImportRow[] = Array.from({ length: 250 }, (_, i) => ({ line: i + 2, customer: "CUST-001", sku: "MON-27" }));
+    const { result } = await importOrders(repo, rows, "tester", false);
+
+    expect(result.imported).toBe(250);
+    // the order counter, then the orders and their audit entries for each of three batches
+    expect(writes).toHaveBeenCalledTimes(7);
+
+    const reloaded = new FileOrdersStore(path.join(dir, "orders.json"));
+    await reloaded.init();
+    const stored = reloaded.forTenant("contoso");
+    expect(await listOrders(stored)).toHaveLength(250);
+    expect(await stored.listAudit("ORD-250")).toHaveLength(1);
+  });
+});
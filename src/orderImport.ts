@@ -0,0 +1,331 @@
+import type { Customer } from "./customersService.js";
+import { parseCsv } from "./csv.js";
+import { ValidationError, type FieldError } from "./errors.js";
+import { orderTotal, type LineItem } from "./lineItems.js";
+import {
+  ALL_STATUSES,
+  createOrders,
+  type NewOrder,
+  type Order,
+  type OrderStatus,
+} from "./ordersService.js";
+import { findProduct } from "./productCatalog.js";
+import type { OrdersRepository } from "./storage/ordersRepository.js";
+import { customerIdSchema, isoDateSchema, lineItemSchema } from "./validation.js";
+
+/** Order fields a CSV column can be mapped to. */
+export const IMPORT_FIELDS = [
+  "reference",
+  "customer",
+  "status",
+  "date",
+  "sku",
+  "quantity",
+  "unitPrice",
+  "discountPercent",
+] as const;
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+/** The header of the CSV column holding each field; unmapped fields are blank on every row. */
+export type ImportMapping = Partial<Record<ImportField, string>>;
+
+/** Fields every import has to map. */
+const REQUIRED_FIELDS: ImportField[] = ["customer", "sku"];
+
+/** The status every imported order starts in, as orders created one at a time do. */
+const INITIAL_STATUS: OrderStatus = "Submitted";
+
+/** Most data rows one import may have. */
+export const MAX_IMPORT_ROWS = 5000;
+
+/**
+ * One CSV row with its columns mapped to order fields. Values are the cell
+ * text as found in the file; blank cells are left out.
+ */
+export interface ImportRow {
+  /** Line of the row in the uploaded file, used to point errors at it. */
+  line: number;
+  /** Rows sharing a reference become one order with several line items; rows without one are an order each. */
+  reference?: string;
+  /** Customer ID (`CUST-007`) or exact name. */
+  customer?: string;
+  /** Must be Submitted when given. */
+  status?: string;
+  /** `YYYY-MM-DD`; defaults to today. Any date is allowed, as editing an order may set one too. */
+  date?: string;
+  sku?: string;
+  /** Defaults to 1. */
+  quantity?: string;
+  /** Defaults to the catalog price. */
+  unitPrice?: string;
+  discountPercent?: string;
+}
+
+export interface ImportError extends FieldError {
+  line: number;
+}
+
+/** The order built from one reference's rows, as it was (or would be) created. */
+export interface ImportedOrder {
+  lines: number[];
+  /** Set once the order has been stored. */
+  id?: string;
+  customerId?: string;
+  customer?: string;
+  status?: OrderStatus;
+  date?: string;
+  lineItems: LineItem[];
+  amount?: number;
+  /** Why the order can't be imported; empty when it can. */
+  errors: ImportError[];
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  /** Orders created, or on a dry run the orders that would be. */
+  imported: number;
+  /** Orders left out because of errors. */
+  skipped: number;
+  orders: ImportedOrder[];
+}
+
+/** Orders may only have this many line items, as in `lineItemsSchema`. */
+const MAX_LINE_ITEMS = 100;
+
+/** The order-level fields of a row, resolved; `undefined` where the row left them blank. */
+interface OrderFields {
+  customer?: Customer;
+  status?: OrderStatus;
+  date?: string;
+}
+
+function blank(value: string | undefined): boolean {
+  return value === undefined || value.trim() === "";
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  return blank(value) ? undefined : Number(value!.trim());
+}
+
+class CustomerDirectory {
+  private readonly byId: Map<string, Customer>;
+  private readonly byName: Map<string, Customer>;
+
+  constructor(customers: Customer[]) {
+    this.byId = new Map(customers.map((c) => [c.id, c]));
+    this.byName = new Map(customers.map((c) => [c.name.toLowerCase(), c]));
+  }
+
+  find(value: string): Customer | undefined {
+    const text = value.trim();
+    return customerIdSchema.safeParse(text).success ? this.byId.get(text) : this.byName.get(text.toLowerCase());
+  }
+}
+
+/** Resolves a row's customer, status and date, adding an error for each that is unusable. */
+function parseOrderFields(row: ImportRow, customers: CustomerDirectory, errors: ImportError[]): OrderFields {
+  const fields: OrderFields = {};
+  if (!blank(row.customer)) {
+    fields.customer = customers.find(row.customer!);
+    if (!fields.customer) {
+      errors.push({ line: row.line, field: "customer", message: `No customer with the ID or name ${row.customer!.trim()}` });
+    }
+  }
+  if (!blank(row.status)) {
+    const wanted = row.status!.trim().toLowerCase();
+    const status = ALL_STATUSES.find((s) => s.toLowerCase() === wanted);
+    if (!status) {
+      errors.push({ line: row.line, field: "status", message: `Must be one of ${ALL_STATUSES.join(", ")}` });
+    } else if (status !== INITIAL_STATUS) {
+      // later statuses go through the status workflow and its role checks, like any other change
+      errors.push({ line: row.line, field: "status", message: `Imported orders start as ${INITIAL_STATUS}; change the status afterwards` });
+    } else {
+      fields.status = status;
+    }
+  }
+  if (!blank(row.date)) {
+    const date = isoDateSchema.safeParse(row.date!.trim());
+    if (date.success) {
+      fields.date = date.data;
+    } else {
+      errors.push({ line: row.line, field: "date", message: date.error.issues[0].message });
+    }
+  }
+  return fields;
+}
+
+/** Prices a row's line item from the catalog, adding an error for each unusable value. */
+function parseLineItem(row: ImportRow, errors: ImportError[]): LineItem | undefined {
+  const parsed = lineItemSchema.safeParse({
+    sku: row.sku ?? "",
+    quantity: parseNumber(row.quantity) ?? 1,
+    unitPrice: parseNumber(row.unitPrice),
+    discountPercent: parseNumber(row.discountPercent),
+  });
+  const sku = row.sku?.trim() ?? "";
+  const product = findProduct(sku);
+  if (sku && !product) {
+    errors.push({ line: row.line, field: "sku", message: `Unknown product ${sku}` });
+  }
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      errors.push({ line: row.line, field: String(issue.path[0] ?? "sku"), message: issue.message });
+    }
+    return undefined;
+  }
+  if (!product) return undefined;
+  return {
+    sku: product.sku,
+    name: product.name,
+    quantity: parsed.data.quantity,
+    unitPrice: parsed.data.unitPrice ?? product.unitPrice,
+    discountPercent: parsed.data.discountPercent ?? 0,
+    taxRate: product.taxRate,
+  };
+}
+
+/**
+ * Reads the data rows of a CSV file whose first row holds the column headers,
+ * picking out the columns `mapping` names (headers match ignoring case).
+ * Blank rows are skipped. A mapping that doesn't fit the file, an empty file
+ * or one with more than `MAX_IMPORT_ROWS` rows is a `ValidationError`.
+ */
+export function readImportRows(csv: string, mapping: ImportMapping): ImportRow[] {
+  const [header, ...records] = parseCsv(csv);
+  if (!header) {
+    throw new ValidationError("The file is empty", [{ field: "(root)", message: "The file has no header row" }]);
+  }
+
+  const headers = header.cells.map((h) => h.trim().toLowerCase());
+  const columns: [ImportField, number][] = [];
+  const errors: FieldError[] = [];
+  for (const field of IMPORT_FIELDS) {
+    const name = mapping[field];
+    if (name === undefined) {
+      if (REQUIRED_FIELDS.includes(field)) errors.push({ field, message: "Map a column to this field" });
+      continue;
+    }
+    const index = headers.indexOf(name.trim().toLowerCase());
+    if (index < 0) errors.push({ field, message: `The file has no column named ${name}` });
+    else columns.push([field, index]);
+  }
+  if (errors.length) throw new ValidationError("The column mapping does not fit the file", errors);
+
+  const rows: ImportRow[] = [];
+  for (const record of records) {
+    if (record.cells.every((c) => c.trim() === "")) continue;
+    const row: ImportRow = { line: record.line };
+    for (const [field, index] of columns) {
+      const value = record.cells[index];
+      if (value !== undefined && value.trim() !== "") row[field] = value;
+    }
+    rows.push(row);
+  }
+  if (!rows.length) {
+    throw new ValidationError("The file has no rows", [{ field: "(root)", message: "The file has no rows below the header" }]);
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new ValidationError("The file has too many rows", [
+      { field: "(root)", message: `The file has ${rows.length} rows; import at most ${MAX_IMPORT_ROWS} at a time` },
+    ]);
+  }
+  return rows;
+}
+
+/** Groups rows by reference, keeping the order in which each reference first appears. */
+function groupRows(rows: ImportRow[]): ImportRow[][] {
+  const groups = new Map<string, ImportRow[]>();
+  for (const row of rows) {
+    const key = blank(row.reference) ? `line:${row.line}` : `ref:${row.reference!.trim()}`;
+    const group = groups.get(key);
+    if (group) group.push(row);
+    else groups.set(key, [row]);
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * Builds one order from the rows of a reference. The first row with a
+ * customer, status or date sets it for the order; a later row that names a
+ * different one is an error.
+ */
+function buildOrder(rows: ImportRow[], customers: CustomerDirectory, today: string): ImportedOrder {
+  const errors: ImportError[] = [];
+  const lineItems: LineItem[] = [];
+  const order: OrderFields = {};
+  const setBy: Partial<Record<keyof OrderFields, number>> = {};
+
+  for (const row of rows) {
+    const fields = parseOrderFields(row, customers, errors);
+    for (const key of ["customer", "status", "date"] as const) {
+      const value = fields[key];
+      if (value === undefined) continue;
+      if (order[key] === undefined) {
+        (order as Record<string, unknown>)[key] = value;
+        setBy[key] = row.line;
+      } else if (order[key] !== value) {
+        errors.push({ line: row.line, field: key, message: `Differs from line ${setBy[key]} of the same order` });
+      }
+    }
+    const item = parseLineItem(row, errors);
+    if (item) lineItems.push(item);
+  }
+
+  const first = rows[0].line;
+  if (!order.customer && !errors.some((e) => e.field === "customer")) {
+    errors.push({ line: first, field: "customer", message: "Required" });
+  }
+  if (rows.length > MAX_LINE_ITEMS) {
+    errors.push({ line: first, field: "reference", message: `An order can have at most ${MAX_LINE_ITEMS} line items` });
+  }
+  return {
+    lines: rows.map((r) => r.line),
+    customerId: order.customer?.id,
+    customer: order.customer?.name,
+    status: order.status ?? INITIAL_STATUS,
+    date: order.date ?? today,
+    lineItems,
+    amount: lineItems.length ? orderTotal(lineItems) : undefined,
+    errors,
+  };
+}
+
+/**
+ * Validates imported rows and, unless `dryRun`, creates an order for every
+ * reference without errors; orders with errors are skipped. Returns the
+ * outcome per order together with the stored orders, which the caller
+ * announces to connected clients.
+ */
+export async function importOrders(
+  repo: OrdersRepository,
+  rows: ImportRow[],
+  actor: string,
+  dryRun: boolean,
+): Promise<{ result: ImportResult; created: Order[] }> {
+  const customers = new CustomerDirectory(await repo.listCustomers());
+  const today = new Date().toISOString().slice(0, 10);
+  const orders = groupRows(rows).map((group) => buildOrder(group, customers, today));
+  const valid = orders.filter((o) => !o.errors.length);
+
+  const created: Order[] = [];
+  if (!dryRun && valid.length) {
+    const drafts: NewOrder[] = valid.map((o) => ({
+      customerId: o.customerId!,
+      status: o.status!,
+      date: o.date!,
+      lineItems: o.lineItems,
+    }));
+    const outcomes = await createOrders(repo, drafts, actor);
+    outcomes.forEach((outcome, i) => {
+      if ("order" in outcome) {
+        valid[i].id = outcome.order.id;
+        created.push(outcome.order);
+      } else {
+        valid[i].errors.push({ line: valid[i].lines[0], field: "(root)", message: outcome.error });
+      }
+    });
+  }
+
+  const imported = dryRun ? valid.length : created.length;
+  return { result: { dryRun, imported, skipped: orders.length - imported, orders }, created };
+}
@@ -0,0 +1,122 @@
+import type { ConversationReference } from "@microsoft/teams.api";
+import type { IAdaptiveCard } from "@microsoft/teams.cards";
+import { describe, expect, it, vi } from "vitest";
+
+import { createCustomer } from "./customersService.js";
+import { priceLineItems } from "./lineItems.js";
+import { OrderEventStream } from "./orderEvents.js";
+import { OrderNotifier, subscribe, subscriptionTarget, type SubscriptionFilter } from "./orderNotifications.js";
+import { createOrder, updateOrder, type OrderData } from "./ordersService.js";
+import { MemoryOrdersRepository } from "./storage/memoryRepository.js";
+
+function conversation(id: string): ConversationReference {
+  return {
+    channelId: "msteams",
+    serviceUrl: "https://smba.trafficmanager.net/teams/",
+    bot: { id: "bot", name: "Orders", role: "bot" },
+    conversation: { id, conversationType: "channel" },
+  };
+}
+
+/** The heading of an order card: the first column of its first row. */
+function heading(card: IAdaptiveCard): string {
+  return (card.body[0] as any).columns[0].items[0].text;
+}
+
+/** Lets the notifier's background work finish. */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+async function setup(subscriptions: [string, SubscriptionFilter][]) {
+  const repo = new MemoryOrdersRepository();
+  const contoso = await createCustomer(repo, { name: "Contoso Ltd." });
+  const fabrikam = await createCustomer(repo, { name: "Fabrikam" });
+  for (const [id, filter] of subscriptions) await subscribe(repo, conversation(id), filter, "Ada");
+
+  const sent: { conversation: string; heading: string }[] = [];
+  const send = vi.fn(async (to: ConversationReference, card: IAdaptiveCard) => {
+    sent.push({ conversation: to.conversation.id, heading: heading(card) });
+  });
+  const onError = vi.fn();
+  const events = new OrderEventStream();
+  events.listen(new OrderNotifier(send, () => ({}), onError).listener(repo));
+
+  /** Creates an order through the service and publishes it, as the routes do. */
+  async function place(input: Partial<OrderData> = {}) {
+    const order = await createOrder(repo, {
+      customerId: contoso.id,
+      status: "Submitted",
+      date: "2026-01-10",
+      lineItems: priceLineItems([{ sku: "MON-27", quantity: 1 }]),
+      ...input,
+    }, "Grace");
+    events.publish("order.created", order);
+    await settle();
+    return order;
+  }
+
+  async function change(id: string, fields: Partial<OrderData>) {
+    events.publish("order.updated", await updateOrder(repo, id, fields, "Alan"));
+    await settle();
+  }
+
+  return { repo, contoso, fabrikam, send, sent, onError, place, change };
+}
+
+describe("OrderNotifier", () => {
+  it("posts one card per conversation however many of its subscriptions match", async () => {
+    const { sent, place } = await setup([
+      ["sales", {}],
+      ["sales", { customerId: "CUST-001" }],
+      ["support", { customerId: "CUST-001" }],
+    ]);
+    await place();
+    expect(sent).toEqual([
+      { conversation: "sales", heading: "New order ORD-001" },
+      { conversation: "support", heading: "New order ORD-001" },
+    ]);
+  });
+
+  it("leaves out conversations subscribed to another customer", async () => {
+    const { sent, place, fabrikam } = await setup([["sales", { customerId: "CUST-001" }], ["support", {}]]);
+    await place({ customerId: fabrikam.id });
+    expect(sent.map((s) => s.conversation)).toEqual(["support"]);
+  });
+
+  it("tells status subscribers about orders arriving in the status, not about later edits", async () => {
+    const { sent, place, change } = await setup([["shipping", { status: "Pending" }], ["sales", {}]]);
+    const order = await place();
+    sent.length = 0;
+
+    await change(order.id, { status: "Pending" });
+    expect(sent).toEqual([
+      { conversation: "shipping", heading: "Order ORD-001 is now Pending" },
+      { conversation: "sales", heading: "Order ORD-001 is now Pending" },
+    ]);
+    sent.length = 0;
+
+    await change(order.id, { date: "2026-01-11" });
+    expect(sent).toEqual([{ conversation: "sales", heading: "Order ORD-001 was updated" }]);
+  });
+
+  it("keeps posting to the other conversations when one can't be reached", async () => {
+    const { send, sent, onError, place } = await setup([["removed", {}], ["sales", {}]]);
+    const failure = new Error("the bot was removed from the conversation");
+    send.mockImplementationOnce(async () => {
+      throw failure;
+    });
+    await place();
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(sent.map((s) => s.conversation)).toEqual(["sales"]);
+    expect(onError).toHaveBeenCalledWith(failure);
+  });
+});
+
+describe("subscriptionTarget", () => {
+  it("posts to the channel rather than the thread the command came from", () => {
+    const target = subscriptionTarget({ ...conversation("19:general@thread.tacv2;messageid=1700000000000"), activityId: "1700000000000" });
+    expect(target.conversation.id).toBe("19:general@thread.tacv2");
+    expect(target.activityId).toBeUndefined();
+  });
+});
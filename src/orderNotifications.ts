@@ -0,0 +1,187 @@
+import { randomUUID } from "crypto";
+
+import type { ConversationReference } from "@microsoft/teams.api";
+import type { IAdaptiveCard } from "@microsoft/teams.cards";
+
+import { getCustomer } from "./customersService.js";
+import { ConflictError, NotFoundError } from "./errors.js";
+import { SYSTEM_ACTOR } from "./orderAudit.js";
+import { orderCard, type OrderCardOptions } from "./orderCards.js";
+import type { OrderEvent, OrderEventListener } from "./orderEvents.js";
+import type { Order, OrderStatus } from "./ordersService.js";
+import type { OrdersRepository } from "./storage/ordersRepository.js";
+
+/** What a subscription is about; with neither field set it covers every new or changed order. */
+export interface SubscriptionFilter {
+  customerId?: string;
+  /** Only orders moving to this status (or created in it). */
+  status?: OrderStatus;
+}
+
+/** A chat or channel that asked the bot to post order notifications. */
+export interface NotificationSubscription extends SubscriptionFilter {
+  id: string;
+  /** Where the cards are posted. */
+  conversation: ConversationReference;
+  /** Display name of whoever subscribed. */
+  createdBy: string;
+  /** ISO timestamp. */
+  createdAt: string;
+}
+
+/** Most subscriptions one chat or channel may hold. */
+export const MAX_SUBSCRIPTIONS_PER_CONVERSATION = 20;
+
+/** An order change as told to subscribers. */
+export type OrderNotification =
+  | { kind: "created"; order: Order; actor: string }
+  | { kind: "updated"; order: Order; actor: string }
+  | { kind: "statusChanged"; order: Order; actor: string; from: OrderStatus };
+
+/** Posts an Adaptive Card to a conversation the app has been added to. */
+export type CardSender = (conversation: ConversationReference, card: IAdaptiveCard) => Promise<void>;
+
+/** The parts of an order's card that depend on the app's setup: its link and which buttons it offers. */
+export type OrderCardExtras = (order: Order) => Pick<OrderCardOptions, "link" | "nextStatuses">;
+
+/**
+ * The reference notifications for the conversation of `ref` are posted to.
+ * Channel messages arrive in a reply thread, but each notification should
+ * start a post of its own, so the thread part of the ID is dropped.
+ */
+export function subscriptionTarget(ref: ConversationReference): ConversationReference {
+  const { activityId: _, ...target } = ref;
+  return { ...target, conversation: { ...ref.conversation, id: ref.conversation.id.split(";messageid=")[0] } };
+}
+
+function sameFilter(a: SubscriptionFilter, b: SubscriptionFilter): boolean {
+  return a.customerId === b.customerId && a.status === b.status;
+}
+
+/** The subscriptions of one conversation, oldest first. */
+export async function listSubscriptions(repo: OrdersRepository, conversationId: string): Promise<NotificationSubscription[]> {
+  return (await repo.listSubscriptions())
+    .filter((s) => s.conversation.conversation.id === conversationId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/** Subscribes a conversation to the orders matching `filter`. The customer must exist. */
+export async function subscribe(
+  repo: OrdersRepository,
+  conversation: ConversationReference,
+  filter: SubscriptionFilter,
+  createdBy: string,
+): Promise<NotificationSubscription> {
+  if (filter.customerId) await getCustomer(repo, filter.customerId);
+  const existing = await listSubscriptions(repo, conversation.conversation.id);
+  if (existing.some((s) => sameFilter(s, filter))) {
+    throw new ConflictError("This conversation already has that subscription");
+  }
+  if (existing.length >= MAX_SUBSCRIPTIONS_PER_CONVERSATION) {
+    throw new ConflictError(`A conversation can have at most ${MAX_SUBSCRIPTIONS_PER_CONVERSATION} subscriptions`);
+  }
+  const subscription: NotificationSubscription = {
+    id: randomUUID(),
+    conversation,
+    ...(filter.customerId ? { customerId: filter.customerId } : {}),
+    ...(filter.status ? { status: filter.status } : {}),
+    createdBy,
+    createdAt: new Date().toISOString(),
+  };
+  await repo.insertSubscription(subscription);
+  return subscription;
+}
+
+/** Removes one of a conversation's subscriptions, or throws a `NotFoundError`. */
+export async function unsubscribe(repo: OrdersRepository, conversationId: string, id: string): Promise<void> {
+  const subscription = (await listSubscriptions(repo, conversationId)).find((s) => s.id === id);
+  if (!subscription) throw new NotFoundError("There is no such subscription in this conversation");
+  await repo.deleteSubscription(id);
+}
+
+/** Removes every subscription of a conversation and returns how many there were. */
+export async function unsubscribeAll(repo: OrdersRepository, conversationId: string): Promise<number> {
+  const subscriptions = await listSubscriptions(repo, conversationId);
+  for (const s of subscriptions) await repo.deleteSubscription(s.id);
+  return subscriptions.length;
+}
+
+/** Whether `subscription` wants to hear about `order` in its current state, before looking at what changed. */
+function mayMatch(subscription: NotificationSubscription, order: Order): boolean {
+  if (subscription.customerId && subscription.customerId !== order.customerId) return false;
+  return !subscription.status || subscription.status === order.status;
+}
+
+function matches(subscription: NotificationSubscription, notification: OrderNotification): boolean {
+  if (!mayMatch(subscription, notification.order)) return false;
+  // a status subscription only cares about orders arriving in that status, not later edits to them
+  return !subscription.status || notification.kind !== "updated";
+}
+
+/**
+ * Works out what happened to an updated order from its latest audit entry,
+ * which the services write before the event is published.
+ */
+async function notificationFor(repo: OrdersRepository, event: { type: "order.created" | "order.updated"; data: Order }): Promise<OrderNotification> {
+  const audit = await repo.listAudit(event.data.id);
+  const latest = audit[audit.length - 1];
+  const actor = latest?.actor ?? SYSTEM_ACTOR;
+  if (event.type === "order.created") return { kind: "created", order: event.data, actor };
+  const change = latest?.action === "updated" ? latest.changes.find((c) => c.field === "status") : undefined;
+  return change && change.to === event.data.status
+    ? { kind: "statusChanged", order: event.data, actor, from: change.from as OrderStatus }
+    : { kind: "updated", order: event.data, actor };
+}
+
+function notificationCard(notification: OrderNotification, extras: OrderCardExtras): IAdaptiveCard {
+  const { order, actor } = notification;
+  switch (notification.kind) {
+    case "created":
+      return orderCard(order, { heading: `New order ${order.id}`, detail: `Placed by ${actor}`, ...extras(order) });
+    case "updated":
+      return orderCard(order, { heading: `Order ${order.id} was updated`, detail: `Changed by ${actor}`, ...extras(order) });
+    case "statusChanged":
+      return orderCard(order, {
+        heading: `Order ${order.id} is now ${order.status}`,
+        detail: `${notification.from} → ${order.status} by ${actor}`,
+        ...extras(order),
+      });
+  }
+}
+
+/**
+ * Turns one tenant's order events into Adaptive Card notifications for the
+ * conversations subscribed to them. Each conversation gets one card per
+ * change however many of its subscriptions match.
+ */
+export class OrderNotifier {
+  constructor(
+    private readonly send: CardSender,
+    private readonly extras: OrderCardExtras,
+    private readonly onError: (err: unknown) => void,
+  ) {}
+
+  /** A listener for `repo`'s event stream. Notifications go out in the background; failures go to `onError`. */
+  listener(repo: OrdersRepository): OrderEventListener {
+    return (event) => {
+      this.notify(repo, event).catch(this.onError);
+    };
+  }
+
+  private async notify(repo: OrdersRepository, event: OrderEvent): Promise<void> {
+    if (event.type !== "order.created" && event.type !== "order.updated") return;
+    const candidates = (await repo.listSubscriptions()).filter((s) => mayMatch(s, event.data));
+    if (!candidates.length) return;
+
+    const notification = await notificationFor(repo, event);
+    const conversations = new Map<string, ConversationReference>();
+    for (const subscription of candidates) {
+      if (matches(subscription, notification)) {
+        conversations.set(subscription.conversation.conversation.id, subscription.conversation);
+      }
+    }
+    if (!conversations.size) return;
+    const card = notificationCard(notification, this.extras);
+    await Promise.all(Array.from(conversations.values(), (c) => this.send(c, card).catch(this.onError)));
+  }
+}
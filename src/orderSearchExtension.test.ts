@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { createCustomer } from "./customersService.js";
+import { priceLineItems } from "./lineItems.js";
+import { orderLink } from "./orderCards.js";
+import { OrderSearchExtension } from "./orderSearchExtension.js";
+import { createOrder, deleteOrder } from "./ordersService.js";
+import { MemoryOrdersRepository } from "./storage/memoryRepository.js";
+import type { OrdersRepository } from "./storage/ordersRepository.js";
+
+const TAB_ENDPOINT = "https://orders.contoso.com";
+
+async function repoWithOrders() {
+  const repo = new MemoryOrdersRepository();
+  const contoso = await createCustomer(repo, { name: "Contoso Ltd." });
+  const fabrikam = await createCustomer(repo, { name: "Fabrikam" });
+  for (const [customerId, date] of [[contoso.id, "2026-01-10"], [fabrikam.id, "2026-01-11"], [contoso.id, "2026-01-12"]]) {
+    await createOrder(repo, { customerId, status: "Submitted", date, lineItems: priceLineItems([{ sku: "MON-27", quantity: 1 }]) }, "tester");
+  }
+  return repo;
+}
+
+function extension(repoFor: (tenantId: string) => Promise<OrdersRepository>) {
+  const onError = vi.fn();
+  return { onError, extension: new OrderSearchExtension(repoFor, TAB_ENDPOINT, () => ({ link: TAB_ENDPOINT }), onError) };
+}
+
+function previewTitles(response: Awaited<ReturnType<OrderSearchExtension["query"]>>): unknown[] {
+  return response.composeExtension!.attachments!.map((a) => a.preview?.content.title);
+}
+
+describe("OrderSearchExtension", () => {
+  it("lists the orders matching the query as cards, newest first", async () => {
+    const repo = await repoWithOrders();
+    const { extension: ext } = extension(async () => repo);
+    const response = await ext.query("contoso", { parameters: [{ name: "query", value: "contoso" }] });
+    expect(response.composeExtension?.type).toBe("result");
+    expect(previewTitles(response)).toEqual(["ORD-003 · Contoso Ltd.", "ORD-001 · Contoso Ltd."]);
+    expect(response.composeExtension!.attachments![0].contentType).toBe("application/vnd.microsoft.card.adaptive");
+  });
+
+  it("lists the newest orders when opened without a query", async () => {
+    const repo = await repoWithOrders();
+    const { extension: ext } = extension(async () => repo);
+    expect(previewTitles(await ext.query("contoso", { parameters: [{ name: "initialRun", value: "true" }] }))).toEqual([
+      "ORD-003 · Contoso Ltd.",
+      "ORD-002 · Fabrikam",
+      "ORD-001 · Contoso Ltd.",
+    ]);
+  });
+
+  it("answers a failed search with a message and reports the error", async () => {
+    const failure = new Error("storage is down");
+    const { extension: ext, onError } = extension(async () => {
+      throw failure;
+    });
+    expect(await ext.query("contoso", { parameters: [{ name: "query", value: "contoso" }] })).toEqual({
+      composeExtension: { type: "message", text: "Sorry, something went wrong. Please try again." },
+    });
+    expect(onError).toHaveBeenCalledWith(failure);
+  });
+
+  it("unfurls a link to a live order into its card", async () => {
+    const repo = await repoWithOrders();
+    const { extension: ext } = extension(async () => repo);
+    expect(previewTitles(await ext.queryLink("contoso", { url: orderLink(TAB_ENDPOINT, "ORD-002") }))).toEqual(["ORD-002 · Fabrikam"]);
+  });
+
+  it("leaves links to other pages, missing orders and deleted orders plain", async () => {
+    const repo = await repoWithOrders();
+    await deleteOrder(repo, "ORD-001", "tester");
+    const { extension: ext, onError } = extension(async () => repo);
+    for (const url of ["https://example.com/tabs/home?order=ORD-002", orderLink(TAB_ENDPOINT, "ORD-999"), orderLink(TAB_ENDPOINT, "ORD-001"), undefined]) {
+      expect(previewTitles(await ext.queryLink("contoso", { url }))).toEqual([]);
+    }
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it("leaves a link plain and reports the error when the order can't be read", async () => {
+    const failure = new Error("storage is down");
+    const { extension: ext, onError } = extension(async () => {
+      throw failure;
+    });
+    expect(previewTitles(await ext.queryLink("contoso", { url: orderLink(TAB_ENDPOINT, "ORD-002") }))).toEqual([]);
+    expect(onError).toHaveBeenCalledWith(failure);
+  });
+});
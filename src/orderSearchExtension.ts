@@ -0,0 +1,65 @@
+import type {
+  AppBasedLinkQuery,
+  MessagingExtensionAttachment,
+  MessagingExtensionQuery,
+  MessagingExtensionResponse,
+} from "@microsoft/teams.api";
+
+import { NotFoundError } from "./errors.js";
+import { orderAttachment, orderIdFromLink } from "./orderCards.js";
+import type { OrderCardExtras } from "./orderNotifications.js";
+import { getOrder, searchOrders } from "./ordersService.js";
+import { problemFromError, problemText } from "./problemDetails.js";
+import type { OrdersRepository } from "./storage/ordersRepository.js";
+
+function extensionResult(attachments: MessagingExtensionAttachment[]): MessagingExtensionResponse {
+  return { composeExtension: { type: "result", attachmentLayout: "list", attachments } };
+}
+
+/**
+ * The search-based messaging extension: finds orders from the compose box
+ * and unfurls links to the Home tab's orders into cards. `repoFor` gives a
+ * tenant's repository and `tabEndpoint` is where the tabs are served.
+ */
+export class OrderSearchExtension {
+  constructor(
+    private readonly repoFor: (tenantId: string) => Promise<OrdersRepository>,
+    private readonly tabEndpoint: string,
+    private readonly extras: OrderCardExtras,
+    private readonly onError: (err: unknown) => void,
+  ) {}
+
+  /** Orders matching the query, as cards to pick from. A failed search is shown in the compose box; unexpected errors go to `onError`. */
+  async query(tenantId: string, query: MessagingExtensionQuery): Promise<MessagingExtensionResponse> {
+    try {
+      const text = query.parameters?.find((p) => p.name === "query")?.value;
+      const repo = await this.repoFor(tenantId);
+      // initialRun opens the extension with no query, which lists the newest orders
+      const orders = await searchOrders(repo, typeof text === "string" ? text : "");
+      return extensionResult(orders.map((o) => orderAttachment(o, this.extras(o))));
+    } catch (err) {
+      const problem = problemFromError(err);
+      if (problem.status === 500) this.onError(err);
+      return { composeExtension: { type: "message", text: problemText(problem) } };
+    }
+  }
+
+  /** The card of the order a pasted link points to. Links the app can't unfurl, for whatever reason, stay plain links. */
+  async queryLink(tenantId: string, query: AppBasedLinkQuery): Promise<MessagingExtensionResponse> {
+    try {
+      const id = orderIdFromLink(this.tabEndpoint, query.url ?? "");
+      if (!id) return extensionResult([]);
+      const repo = await this.repoFor(tenantId);
+      const order = await getOrder(repo, id).catch((err) => {
+        if (err instanceof NotFoundError) return undefined;
+        throw err;
+      });
+      // links to orders that are gone, or in the trash, stay plain links
+      if (!order || order.deletedAt) return extensionResult([]);
+      return extensionResult([orderAttachment(order, this.extras(order))]);
+    } catch (err) {
+      this.onError(err);
+      return extensionResult([]);
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+
+import { createCustomer } from "./customersService.js";
+import { BadRequestError, ConflictError, PreconditionFailedError } from "./errors.js";
+import { priceLineItems } from "./lineItems.js";
+import { createOrder, deleteOrder, exportOrders, getOrder, queryOrders, seedIfEmpty, updateOrder } from "./ordersService.js";
+import { MemoryOrdersRepository } from "./storage/memoryRepository.js";
+
+async function repoWithOrder() {
+  const repo = new MemoryOrdersRepository();
+  const customer = await createCustomer(repo, { name: "Contoso Ltd." });
+  const order = await createOrder(repo, {
+    customerId: customer.id,
+    status: "Submitted",
+    date: "2026-01-15",
+    lineItems: priceLineItems([{ sku: "MON-27", quantity: 2 }]),
+  }, "tester");
+  return { repo, customer, order };
+}
+
+describe("optimistic concurrency on orders", () => {
+  it("gives every write a new ETag", async () => {
+    const { repo, order } = await repoWithOrder();
+    const updated = await updateOrder(repo, order.id, { date: "2026-01-16" }, "tester", order.etag);
+    expect(updated.etag).not.toBe(order.etag);
+    expect((await getOrder(repo, order.id)).etag).toBe(updated.etag);
+  });
+
+  it("rejects an update made against a stale ETag and reports the current order", async () => {
+    const { repo, order } = await repoWithOrder();
+    const first = await updateOrder(repo, order.id, { date: "2026-01-16" }, "alice", order.etag);
+
+    const stale = updateOrder(repo, order.id, { date: "2026-01-17" }, "bob", order.etag);
+    await expect(stale).rejects.toBeInstanceOf(PreconditionFailedError);
+    await expect(stale).rejects.toMatchObject({ current: { etag: first.etag, date: "2026-01-16" } });
+    expect((await getOrder(repo, order.id)).date).toBe("2026-01-16");
+  });
+
+  it("writes unconditionally without If-Match or with a wildcard", async () => {
+    const { repo, order } = await repoWithOrder();
+    await updateOrder(repo, order.id, { date: "2026-01-16" }, "alice");
+    await expect(updateOrder(repo, order.id, { date: "2026-01-17" }, "bob", "*")).resolves.toMatchObject({ date: "2026-01-17" });
+  });
+
+  it("rejects a delete made against a stale ETag", async () => {
+    const { repo, order } = await repoWithOrder();
+    await updateOrder(repo, order.id, { date: "2026-01-16" }, "alice", order.etag);
+    await expect(deleteOrder(repo, order.id, "bob", order.etag)).rejects.toBeInstanceOf(PreconditionFailedError);
+  });
+
+  it("turns a write that loses a race after the check into a conflict", async () => {
+    const { repo, order } = await repoWithOrder();
+    // another writer slips in between the service reading the order and replacing it
+    const replace = repo.replace.bind(repo);
+    repo.replace = async (next, etag) => {
+      const { etag: _etag, ...current } = (await repo.get(order.id))!;
+      await replace(current);
+      return replace(next, etag);
+    };
+    await expect(updateOrder(repo, order.id, { date: "2026-01-16" }, "alice", order.etag)).rejects.toBeInstanceOf(ConflictError);
+  });
+});
+
+describe("paging", () => {
+  async function repoWithOrders(count: number) {
+    const repo = new MemoryOrdersRepository();
+    const customer = await createCustomer(repo, { name: "Contoso Ltd." });
+    for (let i = 0; i < count; i++) {
+      await createOrder(repo, {
+        customerId: customer.id,
+        status: "Submitted",
+        date: `2026-01-${String(10 + (i % 5)).padStart(2, "0")}`,
+        lineItems: priceLineItems([{ sku: "SVC-SETUP", quantity: 1 + i }]),
+      }, "tester");
+    }
+    return { repo, customer };
+  }
+
+  it("reads the default order from storage one page at a time and counts with the first page", async () => {
+    const { repo } = await repoWithOrders(7);
+    const first = await queryOrders(repo, {}, undefined, 3);
+    expect(first.items.map((o) => o.id)).toEqual(["ORD-001", "ORD-002", "ORD-003"]);
+    expect(first.total).toBe(7);
+
+    const second = await queryOrders(repo, {}, undefined, 3, first.continuationToken);
+    expect(second.items.map((o) => o.id)).toEqual(["ORD-004", "ORD-005", "ORD-006"]);
+    expect(second.total).toBeUndefined();
+
+    const third = await queryOrders(repo, {}, undefined, 3, second.continuationToken);
+    expect(third.items.map((o) => o.id)).toEqual(["ORD-007"]);
+    expect(third.continuationToken).toBeUndefined();
+  });
+
+  it("neither skips nor repeats rows when orders change between pages", async () => {
+    const { repo, customer } = await repoWithOrders(6);
+    const sort = { field: "amount", direction: "descending" } as const;
+    const first = await queryOrders(repo, {}, sort, 3);
+    expect(first.items.map((o) => o.id)).toEqual(["ORD-006", "ORD-005", "ORD-004"]);
+
+    // an order that sorts onto the first page, and one of the first page's orders removed
+    await createOrder(repo, { customerId: customer.id, status: "Submitted", date: "2026-01-20", lineItems: priceLineItems([{ sku: "SVC-SETUP", quantity: 50 }]) }, "tester");
+    await deleteOrder(repo, "ORD-005", "tester");
+
+    const second = await queryOrders(repo, {}, sort, 3, first.continuationToken);
+    expect(second.items.map((o) => o.id)).toEqual(["ORD-003", "ORD-002", "ORD-001"]);
+  });
+
+  it("applies filters the store can't evaluate to each page", async () => {
+    const { repo } = await repoWithOrders(6);
+    const page = await queryOrders(repo, { minAmount: 250 }, undefined, 2);
+    expect(page.items.map((o) => o.id)).toEqual(["ORD-003", "ORD-004"]);
+    expect(page.total).toBe(4);
+  });
+
+  it("rejects a token from another sort or one that was tampered with", async () => {
+    const { repo } = await repoWithOrders(4);
+    const { continuationToken } = await queryOrders(repo, {}, { field: "date", direction: "ascending" }, 2);
+    await expect(queryOrders(repo, {}, { field: "amount", direction: "ascending" }, 2, continuationToken)).rejects.toBeInstanceOf(BadRequestError);
+    await expect(queryOrders(repo, {}, undefined, 2, continuationToken)).rejects.toBeInstanceOf(BadRequestError);
+    await expect(queryOrders(repo, {}, undefined, 2, "not-a-token")).rejects.toBeInstanceOf(BadRequestError);
+  });
+
+  it("exports the default order by reading storage a page at a time as rows are consumed", async () => {
+    const { repo } = await repoWithOrders(7);
+    let pagesRead = 0;
+    const listPage = repo.listPage.bind(repo);
+    // storage may return short pages; three rows each makes the paging visible
+    repo.listPage = (filter, _limit, token) => {
+      pagesRead++;
+      return listPage(filter, 3, token);
+    };
+
+    const rows = exportOrders(repo, {});
+    expect(pagesRead).toBe(0);
+    const ids: string[] = [];
+    for await (const order of rows) {
+      ids.push(order.id);
+      if (ids.length === 3) expect(pagesRead).toBe(1);
+    }
+    expect(pagesRead).toBe(3);
+    expect(ids).toEqual(["ORD-001", "ORD-002", "ORD-003", "ORD-004", "ORD-005", "ORD-006", "ORD-007"]);
+  });
+
+  it("keeps IDs in numeric order both ways once they grow past ORD-999", async () => {
+    const { repo } = await repoWithOrders(1005);
+    const ascending = { field: "id", direction: "ascending" } as const;
+    const descending = { field: "id", direction: "descending" } as const;
+
+    const first = await queryOrders(repo, {}, ascending, 998);
+    expect(first.items.slice(-2).map((o) => o.id)).toEqual(["ORD-997", "ORD-998"]);
+    const second = await queryOrders(repo, {}, ascending, 998, first.continuationToken);
+    expect(second.items.map((o) => o.id)).toEqual(["ORD-999", "ORD-1000", "ORD-1001", "ORD-1002", "ORD-1003", "ORD-1004", "ORD-1005"]);
+
+    const newest = await queryOrders(repo, {}, descending, 7);
+    expect(newest.items.map((o) => o.id)).toEqual(["ORD-1005", "ORD-1004", "ORD-1003", "ORD-1002", "ORD-1001", "ORD-1000", "ORD-999"]);
+
+    const exported: string[] = [];
+    for await (const order of exportOrders(repo, {})) exported.push(order.id);
+    expect(exported.slice(99, 102)).toEqual(["ORD-100", "ORD-101", "ORD-102"]);
+    expect(exported.slice(-3)).toEqual(["ORD-1003", "ORD-1004", "ORD-1005"]);
+  });
+
+  it("pages seeded orders from storage", async () => {
+    const repo = new MemoryOrdersRepository();
+    await seedIfEmpty(repo);
+    let pagesRead = 0;
+    const listPage = repo.listPage.bind(repo);
+    repo.listPage = (...args) => {
+      pagesRead++;
+      return listPage(...args);
+    };
+    const page = await queryOrders(repo, {}, undefined, 10);
+    expect(page.items[0].id).toBe("ORD-001");
+    expect(pagesRead).toBe(1);
+    expect((await createOrder(repo, { customerId: "CUST-001", status: "Submitted", date: "2026-01-01", lineItems: priceLineItems([{ sku: "MON-27", quantity: 1 }]) }, "tester")).id).toBe("ORD-101");
+  });
+
+  it("exports other sorts in full sort order with current customer names", async () => {
+    const { repo } = await repoWithOrders(4);
+    const rows: { id: string; customer: string }[] = [];
+    for await (const order of exportOrders(repo, { customer: "contoso" }, { field: "amount", direction: "descending" })) {
+      rows.push({ id: order.id, customer: order.customer });
+    }
+    expect(rows.map((r) => r.id)).toEqual(["ORD-004", "ORD-003", "ORD-002", "ORD-001"]);
+    expect(new Set(rows.map((r) => r.customer))).toEqual(new Set(["Contoso Ltd."]));
+  });
+});
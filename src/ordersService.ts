@@ -1,17 +1,62 @@
-import { TableClient, TableServiceClient, TableTransaction } from "@azure/data-tables";
+import { findOrCreateCustomer, type Customer } from "./customersService.js";
+import { BadRequestError, ConflictError, NotFoundError, PreconditionFailedError, ValidationError } from "./errors.js";
+import { orderTotal, type LineItem } from "./lineItems.js";
+import { diffOrders, type AuditAction, type AuditEntry } from "./orderAudit.js";
+import {
+  assertTransition,
+  DEFAULT_STATUS_TRANSITIONS,
+  nextStatuses,
+  type StatusTransitions,
+} from "./statusWorkflow.js";
+import { listProducts } from "./productCatalog.js";
+import type { ExportColumn } from "./spreadsheetExport.js";
+import type { OrderFilter } from "./storage/orderFilter.js";
+import type { OrdersRepository } from "./storage/ordersRepository.js";
 
 export type OrderStatus = "Submitted" | "Pending" | "Processing" | "Shipped" | "Delivered" | "Cancelled";
 
 export interface Order {
   id: string;
+  customerId: string;
+  /** Current name of the customer, looked up from `customerId` whenever the order is read. */
   customer: string;
+  /** Total including tax. Computed from `lineItems` when the order has any. */
   amount: number;
   status: OrderStatus;
   date: string;
+  /** Absent on orders created before line items existed, which only carry an amount. */
+  lineItems?: LineItem[];
+  /** Opaque version of the stored order, sent back in `If-Match` to detect lost updates. */
+  etag: string;
+  /** ISO timestamp of when the order was moved to the trash; absent for live orders. */
+  deletedAt?: string;
 }
 
-const TABLE_NAME = "Orders";
-const PARTITION_KEY = "Orders";
+/** An order as written to storage, before the store has assigned an ETag. */
+export type OrderData = Omit<Order, "etag">;
+
+/** Order filter as the API takes it; `customer` matches current customer names and is resolved to IDs. */
+export interface OrderQuery extends OrderFilter {
+  customer?: string;
+}
+
+export type OrderSortField = "id" | "customer" | "amount" | "status" | "date";
+
+export interface OrderSort {
+  field: OrderSortField;
+  direction: "ascending" | "descending";
+}
+
+export interface OrderPage {
+  items: Order[];
+  /** Number of orders matching the filter across all pages; later pages in key order leave it out. */
+  total?: number;
+  /** Pass back to fetch the next page; absent on the last page. */
+  continuationToken?: string;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 1000;
 
 const CUSTOMERS = [
   "Contoso Ltd.",       "Fabrikam Inc.",        "Northwind Traders",
@@ -21,7 +66,31 @@ const CUSTOMERS = [
   "Coho Winery",        "Relecloud",             "Trey Research",
 ];
 
-const STATUSES: OrderStatus[] = ["Submitted", "Pending", "Processing", "Shipped", "Delivered", "Cancelled"];
+export const ALL_STATUSES: OrderStatus[] = ["Submitted", "Pending", "Processing", "Shipped", "Delivered", "Cancelled"];
+
+/** Counter that hands out the numeric part of new order IDs. */
+const ORDER_SEQUENCE = "orders";
+
+/** How many fresh IDs `createOrder` tries before giving up on collisions. */
+const MAX_CREATE_ATTEMPTS = 5;
+
+/** Formats an order number as `ORD-NNN`. Numbers past 999 simply grow wider. */
+function formatOrderId(num: number): string {
+  return `ORD-${String(num).padStart(3, "0")}`;
+}
+
+function parseOrderNumber(id: string): number | undefined {
+  const match = id.match(/^ORD-(\d+)$/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Orders IDs by their numeric part, so ORD-1000 sorts after ORD-999 even
+ * though the padded strings would not.
+ */
+export function compareOrderIds(a: string, b: string): number {
+  return a.localeCompare(b, "en", { numeric: true });
+}
 
 function randomDate(daysBack = 365): string {
   const now = new Date("2026-02-24");
@@ -29,166 +98,645 @@ function randomDate(daysBack = 365): string {
   return new Date(now.getTime() - offset).toISOString().slice(0, 10);
 }
 
-function generateOrders(count: number): Array<{
-  partitionKey: string; rowKey: string;
-  id: string; customer: string; amount: number; status: string; date: string;
-}> {
-  const orders = [];
-  for (let i = 1; i <= count; i++) {
-    const id = `ORD-${String(i).padStart(3, "0")}`;
+function randomItem<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+function generateLineItems(): LineItem[] {
+  const products = listProducts();
+  const count = 1 + Math.floor(Math.random() * 3);
+  return Array.from({ length: count }, () => {
+    const product = randomItem(products);
+    return {
+      ...product,
+      quantity: 1 + Math.floor(Math.random() * 5),
+      discountPercent: randomItem([0, 0, 0, 5, 10]),
+    };
+  });
+}
+
+function generateOrders(first: number, count: number, customers: Customer[]): OrderData[] {
+  const orders: OrderData[] = [];
+  for (let i = first; i < first + count; i++) {
+    const lineItems = generateLineItems();
+    const customer = randomItem(customers);
     orders.push({
-      partitionKey: PARTITION_KEY,
-      rowKey: id,
-      id,
-      customer: CUSTOMERS[Math.floor(Math.random() * CUSTOMERS.length)],
-      amount: Math.round((Math.random() * 9900 + 100) * 100) / 100,
-      status: STATUSES[Math.floor(Math.random() * STATUSES.length)],
+      id: formatOrderId(i),
+      customerId: customer.id,
+      customer: customer.name,
+      amount: orderTotal(lineItems),
+      status: randomItem(ALL_STATUSES),
       date: randomDate(),
+      lineItems,
     });
   }
   return orders;
 }
 
-function getClients(connectionString: string) {
+const SAMPLE_ORDER_COUNT = 100;
+
+/** Seeds a tenant with 100 sample orders, and their customers, if it has no orders yet. */
+export async function seedIfEmpty(repo: OrdersRepository): Promise<void> {
+  if (!(await repo.isEmpty())) {
+    return; // already has data
+  }
+  const customers: Customer[] = [];
+  for (const name of CUSTOMERS) {
+    customers.push(await findOrCreateCustomer(repo, name));
+  }
+  // reserve the sample IDs from the counter, so it knows how wide IDs are
+  const first = await repo.nextSequence(ORDER_SEQUENCE, async () => 0, SAMPLE_ORDER_COUNT);
+  await repo.insertMany(generateOrders(first, SAMPLE_ORDER_COUNT, customers));
+}
+
+/** Replaces each order's stored customer name with the customer's current one. */
+async function withCustomerNames(repo: OrdersRepository, orders: Order[]): Promise<Order[]> {
+  if (!orders.length) return orders;
+  const names = new Map((await repo.listCustomers()).map((c) => [c.id, c.name]));
+  return orders.map((o) => ({ ...o, customer: names.get(o.customerId) ?? o.customer }));
+}
+
+/**
+ * Turns the API filter into one the repository understands by resolving the
+ * customer name search to customer IDs. Returns `undefined` when no customer
+ * matches, i.e. when no order can.
+ */
+async function resolveOrderQuery(repo: OrdersRepository, query: OrderQuery): Promise<OrderFilter | undefined> {
+  const { customer, ...filter } = query;
+  if (!customer) return filter;
+  const needle = customer.toLowerCase();
+  const matching = (await repo.listCustomers())
+    .filter((c) => c.name.toLowerCase().includes(needle))
+    .map((c) => c.id);
+  const customerIds = filter.customerIds ? filter.customerIds.filter((id) => matching.includes(id)) : matching;
+  return customerIds.length ? { ...filter, customerIds } : undefined;
+}
+
+/** Returns all orders matching `query` sorted by ID. */
+export async function listOrders(repo: OrdersRepository, query: OrderQuery = {}): Promise<Order[]> {
+  const filter = await resolveOrderQuery(repo, query);
+  const orders = filter ? await withCustomerNames(repo, await repo.list(filter)) : [];
+  return orders.sort((a, b) => compareOrderIds(a.id, b.id));
+}
+
+/** The value of an order that `field` sorts by. */
+const SORT_VALUES: Record<OrderSortField, (order: Order) => string | number> = {
+  id:       (o) => o.id,
+  customer: (o) => o.customer,
+  amount:   (o) => o.amount,
+  status:   (o) => o.status,
+  date:     (o) => o.date,
+};
+
+function compareSortValues(field: OrderSortField, a: string | number, b: string | number): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return field === "id" ? compareOrderIds(String(a), String(b)) : String(a).localeCompare(String(b));
+}
+
+/**
+ * Where the next page of `queryOrders` starts. Paging in key order hands on
+ * the repository's token; sorted pages remember the last row's sort value and
+ * ID. Either way the cursor names a row rather than an offset, so orders added
+ * or removed between pages don't make rows repeat or go missing.
+ */
+type PageCursor =
+  | { kind: "key"; token: string }
+  | { kind: "sort"; field: OrderSortField; direction: OrderSort["direction"]; value: string | number; id: string };
+
+function encodeContinuationToken(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeContinuationToken(token: string, sort: OrderSort, keyOrder: boolean): PageCursor {
+  let cursor: Partial<Record<string, unknown>> | undefined;
+  try {
+    cursor = JSON.parse(Buffer.from(token, "base64url").toString("utf8")) as Partial<Record<string, unknown>>;
+  } catch { /* reported below */ }
+  if (keyOrder && cursor?.kind === "key" && typeof cursor.token === "string") {
+    return { kind: "key", token: cursor.token };
+  }
+  if (
+    !keyOrder && cursor?.kind === "sort" && cursor.field === sort.field && cursor.direction === sort.direction
+    && (typeof cursor.value === "string" || typeof cursor.value === "number") && typeof cursor.id === "string"
+  ) {
+    return { kind: "sort", field: sort.field, direction: sort.direction, value: cursor.value, id: cursor.id };
+  }
+  throw new BadRequestError("Invalid continuation token; request the first page again after changing the sort");
+}
+
+/**
+ * Returns every order matching `query`, sorted by `sort` (ties broken by ID).
+ * Filtering is pushed down to the repository; sorting happens here because
+ * Table Storage can only order by key.
+ */
+export async function sortedOrders(
+  repo: OrdersRepository,
+  query: OrderQuery,
+  sort: OrderSort = { field: "id", direction: "ascending" },
+): Promise<Order[]> {
+  const sign = sort.direction === "descending" ? -1 : 1;
+  const value = SORT_VALUES[sort.field];
+
+  const filter = await resolveOrderQuery(repo, query);
+  // names are resolved before sorting so `customer` sorts by the current name
+  const matching = filter ? await withCustomerNames(repo, await repo.list(filter)) : [];
+  return matching.sort((a, b) => sign * compareSortValues(sort.field, value(a), value(b)) || compareOrderIds(a.id, b.id));
+}
+
+/** Reads the orders matching `filter` from storage one page at a time, in key order. */
+export async function* readOrderPages(repo: OrdersRepository, filter: OrderFilter = {}): AsyncGenerator<Order[]> {
+  let continuationToken: string | undefined;
+  do {
+    const page = await repo.listPage(filter, MAX_PAGE_SIZE, continuationToken);
+    yield page.items;
+    continuationToken = page.continuationToken;
+  } while (continuationToken);
+}
+
+/**
+ * Yields every order matching `query` in `sort` order for an export. In the
+ * default order, by ID ascending, orders are read from storage a page at a
+ * time as the download consumes them, as long as `isKeyOrder` holds. Other
+ * sorts need every match in memory first.
+ */
+export async function* exportOrders(
+  repo: OrdersRepository,
+  query: OrderQuery,
+  sort: OrderSort = { field: "id", direction: "ascending" },
+): AsyncGenerator<Order> {
+  if (!(await isKeyOrder(repo, sort))) {
+    yield* await sortedOrders(repo, query, sort);
+    return;
+  }
+  const filter = await resolveOrderQuery(repo, query);
+  if (!filter) return;
+  const names = new Map((await repo.listCustomers()).map((c) => [c.id, c.name]));
+  for await (const page of readOrderPages(repo, filter)) {
+    for (const order of page) yield { ...order, customer: names.get(order.customerId) ?? order.customer };
+  }
+}
+
+/** Columns of `GET /api/orders/export`, in the order the Home tab shows them. */
+export const ORDER_EXPORT_COLUMNS: ExportColumn<Order>[] = [
+  { header: "Order ID",    value: (o) => o.id },
+  { header: "Customer",    value: (o) => o.customer },
+  { header: "Customer ID", value: (o) => o.customerId },
+  { header: "Status",      value: (o) => o.status },
+  { header: "Date",        value: (o) => o.date },
+  { header: "Items",       value: (o) => o.lineItems?.map((l) => `${l.quantity} × ${l.name}`).join("; ") },
+  { header: "Amount",      value: (o) => o.amount },
+  { header: "Deleted at",  value: (o) => o.deletedAt },
+];
+
+/** Highest order number that `formatOrderId` still writes with three digits. */
+const MAX_NARROW_ORDER_NUMBER = 999;
+
+/**
+ * True when storage returns rows in `sort` order, so paging can be left to
+ * the repository. Storage orders IDs as strings, which matches their numeric
+ * order only while they all have three digits, i.e. until the order counter
+ * passes 999 (after that ORD-1000 would come between ORD-100 and ORD-101).
+ * Without a counter yet the widths are unknown, so the answer is no.
+ */
+async function isKeyOrder(repo: OrdersRepository, sort: OrderSort): Promise<boolean> {
+  if (sort.field !== "id" || sort.direction !== "ascending") return false;
+  const last = await repo.currentSequence(ORDER_SEQUENCE);
+  return last !== undefined && last <= MAX_NARROW_ORDER_NUMBER;
+}
+
+/**
+ * Returns one page of the orders matching `query`. In the default order, by ID
+ * ascending, pages are read straight from storage with `top` and its
+ * continuation token while `isKeyOrder` holds, so only one page is ever
+ * loaded. Other sorts, and the default one once IDs grow past three digits,
+ * need every match in memory, since Table Storage can only order by key.
+ * `total` is counted with the first page.
+ */
+export async function queryOrders(
+  repo: OrdersRepository,
+  query: OrderQuery,
+  sort: OrderSort = { field: "id", direction: "ascending" },
+  pageSize = DEFAULT_PAGE_SIZE,
+  continuationToken?: string,
+): Promise<OrderPage> {
+  const size = Math.min(Math.max(1, pageSize), MAX_PAGE_SIZE);
+  const keyOrder = await isKeyOrder(repo, sort);
+  const cursor = continuationToken ? decodeContinuationToken(continuationToken, sort, keyOrder) : undefined;
+
+  if (keyOrder) {
+    const filter = await resolveOrderQuery(repo, query);
+    if (!filter) return { items: [], total: 0 };
+    const page = await repo.listPage(filter, size, cursor?.kind === "key" ? cursor.token : undefined);
+    return {
+      items: await withCustomerNames(repo, page.items),
+      ...(cursor ? {} : { total: await repo.count(filter) }),
+      ...(page.continuationToken ? { continuationToken: encodeContinuationToken({ kind: "key", token: page.continuationToken }) } : {}),
+    };
+  }
+
+  const matching = await sortedOrders(repo, query, sort);
+  const sign = sort.direction === "descending" ? -1 : 1;
+  const value = SORT_VALUES[sort.field];
+  const start = cursor?.kind === "sort"
+    ? matching.findIndex((o) => (sign * compareSortValues(sort.field, value(o), cursor.value) || compareOrderIds(o.id, cursor.id)) > 0)
+    : 0;
+  const items = start < 0 ? [] : matching.slice(start, start + size);
+  const last = items[items.length - 1];
+  const more = start >= 0 && start + size < matching.length;
   return {
-    service: TableServiceClient.fromConnectionString(connectionString),
-    table: TableClient.fromConnectionString(connectionString, TABLE_NAME),
+    items,
+    total: matching.length,
+    ...(more ? { continuationToken: encodeContinuationToken({ kind: "sort", ...sort, value: value(last), id: last.id }) } : {}),
   };
 }
 
-/** Creates the Orders table and seeds 100 rows if it is empty. */
-export async function seedIfEmpty(connectionString: string): Promise<void> {
-  const { service, table } = getClients(connectionString);
+/** Most orders `searchOrders` returns; a messaging extension lists no more than 25 results. */
+export const MAX_SEARCH_RESULTS = 25;
 
-  await service.createTable(TABLE_NAME).catch(() => { /* already exists */ });
+/**
+ * Free-text order search for the messaging extension. `text` is read as an
+ * order number (`ORD-042`, `42`), a status name, or otherwise part of a
+ * customer name. Numbers match as an ID prefix and, when short, the padded
+ * ID too. Empty text returns the newest orders.
+ */
+export async function searchOrders(repo: OrdersRepository, text: string, limit = MAX_SEARCH_RESULTS): Promise<Order[]> {
+  const query = text.trim();
+  const newestFirst: OrderSort = { field: "date", direction: "descending" };
 
-  const iter = table.listEntities({ queryOptions: { select: ["rowKey"] } });
-  const first = await iter.next();
-  if (!first.done) {
-    return; // already has data
+  const idMatch = /^(?:ORD-?)?(\d+)$/i.exec(query);
+  if (idMatch) {
+    const padded = formatOrderId(parseInt(idMatch[1], 10));
+    const orders = await sortedOrders(repo, { idPrefix: `ORD-${idMatch[1]}` });
+    const exact = orders.some((o) => o.id === padded) ? [] : await sortedOrders(repo, { idPrefix: padded });
+    return [...exact.filter((o) => o.id === padded), ...orders].slice(0, limit);
   }
 
-  const transaction = new TableTransaction();
-  for (const order of generateOrders(100)) {
-    transaction.createEntity(order);
+  const status = ALL_STATUSES.find((s) => s.toLowerCase() === query.toLowerCase());
+  if (status) return (await sortedOrders(repo, { statuses: [status] }, newestFirst)).slice(0, limit);
+
+  return (await sortedOrders(repo, query ? { customer: query } : {}, newestFirst)).slice(0, limit);
+}
+
+/** Returns a single order, or throws `NotFoundError`. */
+export async function getOrder(repo: OrdersRepository, id: string): Promise<Order> {
+  const order = await repo.get(id);
+  if (!order) {
+    throw new NotFoundError(`Order ${id} not found`);
   }
-  await table.submitTransaction(transaction.actions);
+  const customer = await repo.getCustomer(order.customerId);
+  return customer ? { ...order, customer: customer.name } : order;
 }
 
-/** Returns all orders sorted by ID. */
-export async function listOrders(connectionString: string): Promise<Order[]> {
-  const { table } = getClients(connectionString);
-  const orders: Order[] = [];
+/** True when `ifMatch` is absent or a wildcard, i.e. the caller wants an unconditional write. */
+export function isUnconditional(ifMatch: string | undefined): boolean {
+  return !ifMatch || ifMatch === "*";
+}
 
-  for await (const entity of table.listEntities<{
-    id: string; customer: string; amount: number; status: string; date: string;
-  }>()) {
-    orders.push({
-      id: entity.rowKey!,
-      customer: entity.customer,
-      amount: entity.amount,
-      status: entity.status as OrderStatus,
-      date: entity.date,
-    });
+/** Looks up the customer an order is being assigned to; an unknown ID is a field error. */
+async function requireCustomer(repo: OrdersRepository, customerId: string): Promise<Customer> {
+  const customer = await repo.getCustomer(customerId);
+  if (!customer) {
+    throw new ValidationError("The order's customer does not exist", [
+      { field: "customerId", message: `Unknown customer ${customerId}` },
+    ]);
   }
+  return customer;
+}
 
-  return orders.sort((a, b) => a.id.localeCompare(b.id));
+/** The audit entry describing how `before` became `after`. */
+function auditEntry(
+  action: AuditAction,
+  actor: string,
+  before: Partial<OrderData>,
+  after: Partial<OrderData> & { id: string },
+): AuditEntry {
+  return { orderId: after.id, action, actor, timestamp: new Date().toISOString(), changes: diffOrders(before, after) };
 }
 
-/** Creates a new order, auto-incrementing the numeric portion of the ID. */
-export async function createOrder(
-  connectionString: string,
-  data: Omit<Order, "id">,
-): Promise<Order> {
-  const { table } = getClients(connectionString);
+/** Appends an audit entry describing how `before` became `after`. */
+async function recordChange(
+  repo: OrdersRepository,
+  action: AuditAction,
+  actor: string,
+  before: Partial<OrderData>,
+  after: Partial<OrderData> & { id: string },
+): Promise<void> {
+  await repo.appendAudit(auditEntry(action, actor, before, after));
+}
+
+/**
+ * Returns the audit trail of an order, oldest first. Seeded orders have no
+ * entries until they are first changed; purged orders keep theirs.
+ */
+export async function getOrderHistory(repo: OrdersRepository, id: string): Promise<AuditEntry[]> {
+  const entries = await repo.listAudit(id);
+  if (!entries.length) await getOrder(repo, id); // 404 for IDs that never existed
+  return entries;
+}
 
+/** Highest `ORD-NNN` number in the store. Only used to start the ID counter. */
+async function maxOrderNumber(repo: OrdersRepository): Promise<number> {
   let maxNum = 0;
-  for await (const entity of table.listEntities({ queryOptions: { select: ["rowKey"] } })) {
-    const match = entity.rowKey?.match(/^ORD-(\d+)$/);
-    if (match) maxNum = Math.max(maxNum, parseInt(match[1], 10));
+  for (const order of await repo.list({ deleted: "include" })) {
+    maxNum = Math.max(maxNum, parseOrderNumber(order.id) ?? 0);
   }
-  const id = `ORD-${String(maxNum + 1).padStart(3, "0")}`;
+  return maxNum;
+}
 
-  await table.createEntity({
-    partitionKey: PARTITION_KEY,
-    rowKey: id,
-    id,
-    customer: data.customer,
-    amount: data.amount,
-    status: data.status,
-    date: data.date,
-  });
+/**
+ * Creates a new order with the next ID from the durable order counter. If the
+ * ID is somehow taken already (e.g. a row written by hand), the next one is tried.
+ * With line items the amount is computed from them; without, it must be given.
+ */
+export async function createOrder(
+  repo: OrdersRepository,
+  data: Omit<OrderData, "id" | "amount" | "customer"> & { amount?: number },
+  actor: string,
+): Promise<Order> {
+  const customer = await requireCustomer(repo, data.customerId);
+  const amount = data.lineItems?.length ? orderTotal(data.lineItems) : data.amount;
+  if (amount === undefined) {
+    throw new ValidationError("The order has no amount", [{ field: "lineItems", message: "Add at least one line item" }]);
+  }
 
-  return { id, ...data };
-}
-
-/** Renames a customer on all their orders. Returns the number of orders updated. */
-export async function renameCustomer(
-  connectionString: string,
-  oldName: string,
-  newName: string,
-): Promise<number> {
-  const { table } = getClients(connectionString);
-  const toUpdate: Order[] = [];
-
-  for await (const entity of table.listEntities<{
-    id: string; customer: string; amount: number; status: string; date: string;
-  }>()) {
-    if (entity.customer === oldName) {
-      toUpdate.push({
-        id: entity.rowKey!,
-        customer: entity.customer,
-        amount: entity.amount,
-        status: entity.status as OrderStatus,
-        date: entity.date,
-      });
+  for (let attempt = 1; ; attempt++) {
+    const id = formatOrderId(await repo.nextSequence(ORDER_SEQUENCE, () => maxOrderNumber(repo)));
+    let created: Order;
+    try {
+      created = await repo.insert({ id, ...data, customer: customer.name, amount });
+    } catch (err) {
+      if (!(err instanceof ConflictError) || attempt >= MAX_CREATE_ATTEMPTS) throw err;
+      continue;
     }
+    await recordChange(repo, "created", actor, {}, created);
+    return created;
   }
+}
 
-  for (const order of toUpdate) {
-    await table.updateEntity({
-      partitionKey: PARTITION_KEY,
-      rowKey: order.id,
-      id: order.id,
-      customer: newName,
-      amount: order.amount,
-      status: order.status,
-      date: order.date,
-    }, "Replace");
+/** A new order as `createOrders` takes it; the ID, amount and customer name are filled in. */
+export type NewOrder = Pick<OrderData, "customerId" | "status" | "date"> & { lineItems: LineItem[] };
+
+/** Orders that bulk operations write at once; a Table Storage transaction holds at most 100 entities. */
+const WRITE_BATCH_SIZE = 100;
+
+/** What became of one order passed to `createOrders`. */
+export type CreateOutcome = { order: Order } | { error: string };
+
+/**
+ * Creates many orders at once, e.g. from an import. IDs for all of them are
+ * reserved from the order counter in one step, and the orders are written in
+ * batches of `WRITE_BATCH_SIZE`. A batch that collides with an existing ID
+ * (a row written by hand) is reported against each of its orders while the
+ * other batches go ahead. Every stored order gets a "created" audit entry,
+ * appended together with the rest of its batch.
+ */
+export async function createOrders(repo: OrdersRepository, drafts: NewOrder[], actor: string): Promise<CreateOutcome[]> {
+  if (!drafts.length) return [];
+  const names = new Map((await repo.listCustomers()).map((c) => [c.id, c.name]));
+  const unknown = drafts.findIndex((d) => !names.has(d.customerId));
+  if (unknown >= 0) {
+    throw new ValidationError("An order's customer does not exist", [
+      { field: `${unknown}.customerId`, message: `Unknown customer ${drafts[unknown].customerId}` },
+    ]);
   }
 
-  return toUpdate.length;
+  const first = await repo.nextSequence(ORDER_SEQUENCE, () => maxOrderNumber(repo), drafts.length);
+  const outcomes: CreateOutcome[] = [];
+  for (let start = 0; start < drafts.length; start += WRITE_BATCH_SIZE) {
+    const batch: OrderData[] = drafts.slice(start, start + WRITE_BATCH_SIZE).map((draft, i) => ({
+      id: formatOrderId(first + start + i),
+      ...draft,
+      customer: names.get(draft.customerId)!,
+      amount: orderTotal(draft.lineItems),
+    }));
+    let stored: Order[];
+    try {
+      stored = await repo.insertMany(batch);
+    } catch (err) {
+      if (!(err instanceof ConflictError)) throw err;
+      outcomes.push(...batch.map(() => ({ error: err.message })));
+      continue;
+    }
+    await repo.appendAuditMany(stored.map((order) => auditEntry("created", actor, {}, order)));
+    outcomes.push(...stored.map((order) => ({ order })));
+  }
+  return outcomes;
 }
 
-/** Updates an existing order in Table Storage. */
+/**
+ * Updates an existing order. When `ifMatch` is given it must equal the stored
+ * ETag, otherwise a `PreconditionFailedError` carrying the current order is thrown.
+ * A status change must follow `transitions`, otherwise a `ValidationError` is thrown.
+ */
 export async function updateOrder(
-  connectionString: string,
+  repo: OrdersRepository,
   id: string,
-  patch: Partial<Omit<Order, "id">>
+  patch: Partial<Omit<OrderData, "id" | "customer">>,
+  actor: string,
+  ifMatch?: string,
+  transitions: StatusTransitions = DEFAULT_STATUS_TRANSITIONS,
 ): Promise<Order> {
-  const { table } = getClients(connectionString);
+  const existing = await getOrder(repo, id);
 
-  const existing = await table.getEntity<{
-    id: string; customer: string; amount: number; status: string; date: string;
-  }>(PARTITION_KEY, id);
+  if (!isUnconditional(ifMatch) && existing.etag !== ifMatch) {
+    throw new PreconditionFailedError(`Order ${id} has been modified`, existing);
+  }
+  if (existing.deletedAt) {
+    throw new ConflictError(`Order ${id} is in the trash; restore it before editing`);
+  }
+  if (patch.status) assertTransition(transitions, existing.status, patch.status);
+  if (patch.amount !== undefined && existing.lineItems?.length && !patch.lineItems) {
+    throw new ValidationError("The amount of this order is computed", [
+      { field: "amount", message: "Change the line items instead" },
+    ]);
+  }
 
-  const updated = {
-    partitionKey: PARTITION_KEY,
-    rowKey: id,
+  const customer = patch.customerId && patch.customerId !== existing.customerId
+    ? await requireCustomer(repo, patch.customerId)
+    : undefined;
+  const lineItems = patch.lineItems ?? existing.lineItems;
+  const updated: OrderData = {
     id,
-    customer:  patch.customer  ?? existing.customer,
-    amount:    patch.amount    ?? existing.amount,
-    status:    patch.status    ?? existing.status,
-    date:      patch.date      ?? existing.date,
+    customerId: customer?.id ?? existing.customerId,
+    customer:   customer?.name ?? existing.customer,
+    amount:     lineItems?.length ? orderTotal(lineItems) : patch.amount ?? existing.amount,
+    status:     patch.status    ?? existing.status,
+    date:       patch.date      ?? existing.date,
+    ...(lineItems?.length ? { lineItems } : {}),
   };
 
-  await table.updateEntity(updated, "Replace");
+  const saved = await replaceExisting(repo, existing, updated);
+  await recordChange(repo, "updated", actor, existing, saved);
+  return saved;
+}
 
-  return {
-    id,
-    customer: updated.customer,
-    amount:   updated.amount,
-    status:   updated.status as OrderStatus,
-    date:     updated.date,
-  };
+/** Returns the order's current status and the statuses it may move to next. */
+export async function getOrderTransitions(
+  repo: OrdersRepository,
+  id: string,
+  transitions: StatusTransitions = DEFAULT_STATUS_TRANSITIONS,
+): Promise<{ status: OrderStatus; next: OrderStatus[] }> {
+  const order = await getOrder(repo, id);
+  return { status: order.status, next: order.deletedAt ? [] : nextStatuses(transitions, order.status) };
+}
+
+/** Writes `next` over `existing`, turning a lost race into a `ConflictError`. */
+async function replaceExisting(repo: OrdersRepository, existing: Order, next: OrderData): Promise<Order> {
+  try {
+    return await repo.replace(next, existing.etag);
+  } catch (err) {
+    if (err instanceof PreconditionFailedError) {
+      throw new ConflictError(`Order ${existing.id} changed while it was being updated`);
+    }
+    throw err;
+  }
+}
+
+/** A change `bulkUpdateOrders` makes to every selected order. */
+export type BulkChange =
+  | { action: "setStatus"; status: OrderStatus }
+  | { action: "reassignCustomer"; customerId: string }
+  | { action: "delete" };
+
+/** What became of one order in a bulk change: the saved order, or the error it failed with. */
+export type BulkOutcome = { id: string; order: Order } | { id: string; error: unknown };
+
+/**
+ * The order `existing` becomes under `change`, or `undefined` when it is in
+ * that state already. Throws when the change isn't allowed for this order.
+ */
+function applyBulkChange(
+  existing: Order,
+  change: BulkChange,
+  customer: Customer | undefined,
+  transitions: StatusTransitions,
+): OrderData | undefined {
+  const { etag: _etag, ...data } = existing;
+  if (change.action === "delete") {
+    return existing.deletedAt ? undefined : { ...data, deletedAt: new Date().toISOString() };
+  }
+  if (existing.deletedAt) {
+    throw new ConflictError(`Order ${existing.id} is in the trash; restore it before editing`);
+  }
+  if (change.action === "setStatus") {
+    if (existing.status === change.status) return undefined;
+    assertTransition(transitions, existing.status, change.status);
+    return { ...data, status: change.status };
+  }
+  if (existing.customerId === customer!.id) return undefined;
+  return { ...data, customerId: customer!.id, customer: customer!.name };
+}
+
+/**
+ * Applies `change` to each order in `ids`. Orders are checked one by one (they
+ * must exist, be out of the trash, and follow `transitions`), and those that
+ * pass are written in batches of `WRITE_BATCH_SIZE`, atomically where the
+ * storage allows. If an order changes between the check and the write, its
+ * batch is retried one order at a time so only that order fails. Orders
+ * already in the requested state come back unchanged. Outcomes follow `ids`.
+ */
+export async function bulkUpdateOrders(
+  repo: OrdersRepository,
+  ids: string[],
+  change: BulkChange,
+  actor: string,
+  transitions: StatusTransitions = DEFAULT_STATUS_TRANSITIONS,
+): Promise<BulkOutcome[]> {
+  const customer = change.action === "reassignCustomer" ? await requireCustomer(repo, change.customerId) : undefined;
+  const action: AuditAction = change.action === "delete" ? "deleted" : "updated";
+  const unique = Array.from(new Set(ids));
+  const outcomes = new Map<string, BulkOutcome>();
+
+  const pending: { existing: Order; next: OrderData }[] = [];
+  for (const id of unique) {
+    try {
+      const existing = await getOrder(repo, id);
+      const next = applyBulkChange(existing, change, customer, transitions);
+      if (next) pending.push({ existing, next });
+      else outcomes.set(id, { id, order: existing });
+    } catch (err) {
+      outcomes.set(id, { id, error: err });
+    }
+  }
+
+  for (let start = 0; start < pending.length; start += WRITE_BATCH_SIZE) {
+    const batch = pending.slice(start, start + WRITE_BATCH_SIZE);
+    let saved: Order[] | undefined;
+    try {
+      saved = await repo.replaceMany(batch.map(({ existing, next }) => ({ order: next, etag: existing.etag })));
+    } catch (err) {
+      if (!(err instanceof PreconditionFailedError) && !(err instanceof NotFoundError)) throw err;
+    }
+    for (const [i, { existing, next }] of batch.entries()) {
+      try {
+        const order = saved?.[i] ?? await replaceExisting(repo, existing, next);
+        await recordChange(repo, action, actor, existing, order);
+        outcomes.set(existing.id, { id: existing.id, order });
+      } catch (err) {
+        outcomes.set(existing.id, { id: existing.id, error: err });
+      }
+    }
+  }
+  return unique.map((id) => outcomes.get(id)!);
+}
+
+/**
+ * Moves an order to the trash by stamping `deletedAt`. The row is kept until
+ * `purgeDeletedOrders` removes it, so it can still be restored. Deleting an
+ * order that is already in the trash returns it unchanged.
+ */
+export async function deleteOrder(
+  repo: OrdersRepository,
+  id: string,
+  actor: string,
+  ifMatch?: string,
+): Promise<Order> {
+  const existing = await getOrder(repo, id);
+  if (!isUnconditional(ifMatch) && existing.etag !== ifMatch) {
+    throw new PreconditionFailedError(`Order ${id} has been modified`, existing);
+  }
+  if (existing.deletedAt) return existing;
+
+  const { etag: _etag, ...data } = existing;
+  const deleted = await replaceExisting(repo, existing, { ...data, deletedAt: new Date().toISOString() });
+  await recordChange(repo, "deleted", actor, existing, deleted);
+  return deleted;
+}
+
+/** Takes an order back out of the trash. Restoring a live order returns it unchanged. */
+export async function restoreOrder(repo: OrdersRepository, id: string, actor: string): Promise<Order> {
+  const existing = await getOrder(repo, id);
+  if (!existing.deletedAt) return existing;
+
+  const { etag: _etag, deletedAt: _deletedAt, ...data } = existing;
+  const restored = await replaceExisting(repo, existing, data);
+  await recordChange(repo, "restored", actor, existing, restored);
+  return restored;
+}
+
+/**
+ * Permanently removes orders that have been in the trash for longer than
+ * `retentionDays`. Returns the IDs that were purged; an order restored while
+ * the purge runs is skipped.
+ */
+export async function purgeDeletedOrders(
+  repo: OrdersRepository,
+  retentionDays: number,
+  actor: string,
+): Promise<string[]> {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  const purged: string[] = [];
+
+  for (const order of await repo.list({ deleted: "only" })) {
+    if (!order.deletedAt || order.deletedAt >= cutoff) continue;
+    try {
+      await repo.delete(order.id, order.etag);
+    } catch (err) {
+      if (!(err instanceof PreconditionFailedError)) throw err;
+      continue;
+    }
+    purged.push(order.id);
+    await recordChange(repo, "purged", actor, {}, { id: order.id });
+  }
+  return purged;
 }
@@ -0,0 +1,44 @@
+import type { AddressInfo } from "node:net";
+
+import express from "express";
+import { describe, expect, it } from "vitest";
+
+import { NotFoundError } from "./errors.js";
+import { problemFromError, type ProblemDetails } from "./problemDetails.js";
+
+/** Sends `body` through express's own body parsers and returns the problem made from what they rejected. */
+async function bodyParserProblem(body: string, contentType: string): Promise<ProblemDetails> {
+  const app = express();
+  app.use(express.json({ limit: "1kb" }));
+  app.use((err: unknown, _req: unknown, res: any, _next: unknown) => {
+    res.json(problemFromError(err));
+  });
+  const server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  try {
+    const { port } = server.address() as AddressInfo;
+    const response = await fetch(`http://127.0.0.1:${port}/`, { method: "POST", headers: { "Content-Type": contentType }, body });
+    return await response.json() as ProblemDetails;
+  } finally {
+    server.close();
+  }
+}
+
+describe("problemFromError", () => {
+  it("maps the API's own errors", () => {
+    expect(problemFromError(new NotFoundError("Order ORD-001 not found"))).toMatchObject({ status: 404, title: "Not Found", detail: "Order ORD-001 not found" });
+  });
+
+  it("hides the details of unexpected errors", () => {
+    expect(problemFromError(new Error("connection string leaked"))).toEqual({ type: "about:blank", title: "Internal Server Error", status: 500, detail: "An unexpected error occurred" });
+  });
+
+  it("reports unreadable JSON as a bad request", async () => {
+    expect(await bodyParserProblem("{", "application/json")).toMatchObject({ status: 400, detail: "Request body is not valid JSON" });
+  });
+
+  it("keeps the status body-parser chose for other rejected bodies", async () => {
+    expect(await bodyParserProblem(JSON.stringify({ note: "x".repeat(2048) }), "application/json")).toMatchObject({ status: 413, title: "Content Too Large" });
+    expect(await bodyParserProblem("{}", "application/json; charset=latin9")).toMatchObject({ status: 415, title: "Unsupported Media Type" });
+  });
+});
@@ -0,0 +1,98 @@
+import { STATUS_CODES } from "node:http";
+
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  PreconditionFailedError,
+  UnauthorizedError,
+  ValidationError,
+  type FieldError,
+} from "./errors.js";
+import type { Customer } from "./customersService.js";
+import type { Order } from "./ordersService.js";
+
+/**
+ * RFC 9457 problem details, the body of every API error response. `errors`
+ * and `current` are extension members for field errors and ETag conflicts.
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  errors?: FieldError[];
+  current?: Order | Customer;
+}
+
+const TITLES: Record<number, string> = {
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  409: "Conflict",
+  412: "Precondition Failed",
+  413: "Content Too Large",
+  415: "Unsupported Media Type",
+  422: "Unprocessable Content",
+  500: "Internal Server Error",
+};
+
+function problem(status: number, detail: string, extra: Partial<ProblemDetails> = {}): ProblemDetails {
+  return { type: "about:blank", title: TITLES[status] ?? STATUS_CODES[status] ?? "Error", status, detail, ...extra };
+}
+
+/** Maps a thrown error onto problem details. Anything unrecognised becomes an opaque 500. */
+export function problemFromError(err: unknown): ProblemDetails {
+  if (err instanceof BadRequestError) {
+    return problem(400, err.message, err.errors.length ? { errors: err.errors } : {});
+  }
+  if (err instanceof ValidationError) {
+    return problem(422, err.message, { errors: err.errors });
+  }
+  if (err instanceof UnauthorizedError) {
+    return problem(401, err.message);
+  }
+  if (err instanceof ForbiddenError) {
+    return problem(403, err.message);
+  }
+  if (err instanceof NotFoundError) {
+    return problem(404, err.message);
+  }
+  if (err instanceof ConflictError) {
+    return problem(409, err.message);
+  }
+  if (err instanceof PreconditionFailedError) {
+    return problem(412, err.message, err.current ? { current: err.current } : {});
+  }
+  // body-parser tags its errors with a `type` such as "entity.parse.failed" or
+  // "entity.too.large" and the status to answer with
+  const bodyError = err as { type?: unknown; status?: unknown; statusCode?: unknown; expose?: unknown; message?: unknown } | null;
+  if (typeof bodyError?.type === "string") {
+    if (bodyError.type === "entity.parse.failed") {
+      return problem(400, "Request body is not valid JSON");
+    }
+    const status = Number(bodyError.status ?? bodyError.statusCode);
+    if (Number.isInteger(status) && status >= 400 && status < 500) {
+      return problem(status, bodyError.expose && typeof bodyError.message === "string" ? bodyError.message : STATUS_CODES[status] ?? "Bad Request");
+    }
+  }
+  return problem(500, "An unexpected error occurred");
+}
+
+/** `problem` as a sentence for a chat user: its field errors or detail, or an apology for an unexpected error. */
+export function problemText(problem: ProblemDetails): string {
+  return problem.status === 500
+    ? "Sorry, something went wrong. Please try again."
+    : problem.errors?.map((e) => e.message).join("; ") || problem.detail || problem.title;
+}
+
+/** Writes `problem` as an `application/problem+json` response. */
+export function sendProblem(res: any, problem: ProblemDetails, instance?: string): void {
+  res
+    .status(problem.status)
+    .type("application/problem+json")
+    .send(JSON.stringify({ ...problem, instance }));
+}
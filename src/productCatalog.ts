@@ -0,0 +1,30 @@
+export interface Product {
+  sku: string;
+  name: string;
+  /** List price per unit, in USD. */
+  unitPrice: number;
+  /** Sales tax charged on the product, as a fraction (0.08 = 8 %). */
+  taxRate: number;
+}
+
+const PRODUCTS: Product[] = [
+  { sku: "LAP-13",      name: "Laptop 13\"",            unitPrice: 1299,    taxRate: 0.08 },
+  { sku: "LAP-15",      name: "Laptop 15\"",            unitPrice: 1699,    taxRate: 0.08 },
+  { sku: "MON-27",      name: "27\" Monitor",           unitPrice: 349.99,  taxRate: 0.08 },
+  { sku: "DOCK-USB",    name: "USB-C Dock",             unitPrice: 189.5,   taxRate: 0.08 },
+  { sku: "HDST-BT",     name: "Bluetooth Headset",      unitPrice: 129,     taxRate: 0.08 },
+  { sku: "ROOM-KIT",    name: "Meeting Room Kit",       unitPrice: 2499,    taxRate: 0.08 },
+  { sku: "SVC-SETUP",   name: "On-site Setup (hour)",   unitPrice: 95,      taxRate: 0 },
+  { sku: "SVC-CARE",    name: "Extended Care (1 yr)",   unitPrice: 149,     taxRate: 0 },
+];
+
+/** Every product that can be put on an order, by SKU. */
+export function listProducts(): Product[] {
+  return [...PRODUCTS].sort((a, b) => a.sku.localeCompare(b.sku));
+}
+
+/** Looks a product up by SKU (case-insensitive). */
+export function findProduct(sku: string): Product | undefined {
+  const wanted = sku.toUpperCase();
+  return PRODUCTS.find((p) => p.sku === wanted);
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+
+import { createCustomer, updateCustomer } from "./customersService.js";
+import { priceLineItems } from "./lineItems.js";
+import { createOrder, updateOrder } from "./ordersService.js";
+import { topCustomers } from "./reports.js";
+import { MemoryOrdersRepository } from "./storage/memoryRepository.js";
+
+async function order(repo: MemoryOrdersRepository, customerId: string, quantity: number, date = "2026-02-10") {
+  return createOrder(repo, {
+    customerId,
+    status: "Submitted",
+    date,
+    lineItems: priceLineItems([{ sku: "SVC-SETUP", quantity }]),
+  }, "tester");
+}
+
+describe("topCustomers", () => {
+  it("ranks customers by revenue, leaving cancelled orders out of it", async () => {
+    const repo = new MemoryOrdersRepository();
+    const contoso = await createCustomer(repo, { name: "Contoso Ltd." });
+    const fabrikam = await createCustomer(repo, { name: "Fabrikam" });
+    await order(repo, contoso.id, 1);
+    await order(repo, fabrikam.id, 2);
+    const big = await order(repo, contoso.id, 5);
+    await updateOrder(repo, big.id, { status: "Cancelled" }, "tester");
+
+    const top = await topCustomers(repo, {}, 10);
+    expect(top.map((c) => [c.customerId, c.orderCount])).toEqual([[fabrikam.id, 1], [contoso.id, 2]]);
+    expect(top[0].revenue).toBeGreaterThan(top[1].revenue);
+  });
+
+  it("groups by customer ID under the current name after a rename", async () => {
+    const repo = new MemoryOrdersRepository();
+    const customer = await createCustomer(repo, { name: "Contoso Ltd." });
+    await order(repo, customer.id, 1);
+    await updateCustomer(repo, customer.id, { name: "Contoso Group" });
+    await order(repo, customer.id, 1);
+
+    expect(await topCustomers(repo, {}, 10)).toEqual([
+      expect.objectContaining({ customerId: customer.id, customer: "Contoso Group", orderCount: 2 }),
+    ]);
+  });
+
+  it("only counts orders in the range and returns at most `limit` customers", async () => {
+    const repo = new MemoryOrdersRepository();
+    for (const name of ["A", "B", "C"]) {
+      const customer = await createCustomer(repo, { name });
+      await order(repo, customer.id, 1, "2026-01-05");
+      await order(repo, customer.id, 1, "2026-03-05");
+    }
+    const top = await topCustomers(repo, { dateFrom: "2026-03-01" }, 2);
+    expect(top.map((c) => [c.customer, c.orderCount])).toEqual([["A", 1], ["B", 1]]);
+  });
+});
@@ -0,0 +1,144 @@
+import { roundCents } from "./lineItems.js";
+import { ALL_STATUSES, type Order, type OrderStatus } from "./ordersService.js";
+import type { OrdersRepository } from "./storage/ordersRepository.js";
+
+/** Inclusive `YYYY-MM-DD` bounds on the order date; either may be left open. */
+export interface ReportRange {
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+/** Order count and revenue over a range. Cancelled orders count but earn nothing. */
+export interface ReportSummary {
+  orderCount: number;
+  cancelledCount: number;
+  revenue: number;
+  /** Revenue per order that wasn't cancelled; 0 when there are none. */
+  averageOrderValue: number;
+}
+
+export interface MonthlyRevenue {
+  /** `YYYY-MM`. */
+  month: string;
+  revenue: number;
+  orderCount: number;
+}
+
+export interface StatusCount {
+  status: OrderStatus;
+  count: number;
+  amount: number;
+}
+
+export interface TopCustomer {
+  customerId: string;
+  customer: string;
+  orderCount: number;
+  revenue: number;
+}
+
+/** Most customers `GET /api/reports/top-customers` returns. */
+export const MAX_TOP_CUSTOMERS = 50;
+
+/** Longest range, in years, the report routes accept; revenue by month lists every month of it. */
+export const MAX_REPORT_YEARS = 10;
+
+/** Whether an order counts towards revenue. */
+export function earns(order: Order): boolean {
+  return order.status !== "Cancelled";
+}
+
+/** Live orders dated within `range`. */
+function ordersIn(repo: OrdersRepository, range: ReportRange): Promise<Order[]> {
+  return repo.list({ dateFrom: range.dateFrom, dateTo: range.dateTo });
+}
+
+/** The month after `month`, both `YYYY-MM`. */
+function nextMonth(month: string): string {
+  const [year, mon] = month.split("-").map(Number);
+  return mon === 12 ? `${year + 1}-01` : `${year}-${String(mon + 1).padStart(2, "0")}`;
+}
+
+/** Totals over the live orders in `range`. */
+export async function reportSummary(repo: OrdersRepository, range: ReportRange): Promise<ReportSummary> {
+  const orders = await ordersIn(repo, range);
+  const earning = orders.filter(earns);
+  const revenue = roundCents(earning.reduce((sum, o) => sum + o.amount, 0));
+  return {
+    orderCount: orders.length,
+    cancelledCount: orders.length - earning.length,
+    revenue,
+    averageOrderValue: earning.length ? roundCents(revenue / earning.length) : 0,
+  };
+}
+
+/**
+ * Revenue per calendar month, oldest first. Every month from the start of the
+ * range (or the first order) to its end (or the last order) is listed, so
+ * months without orders show as zero rather than being skipped.
+ */
+export async function revenueByMonth(repo: OrdersRepository, range: ReportRange): Promise<MonthlyRevenue[]> {
+  const orders = await ordersIn(repo, range);
+  const byMonth = new Map<string, MonthlyRevenue>();
+  for (const order of orders) {
+    const month = order.date.slice(0, 7);
+    const entry = byMonth.get(month) ?? { month, revenue: 0, orderCount: 0 };
+    entry.orderCount += 1;
+    if (earns(order)) entry.revenue = roundCents(entry.revenue + order.amount);
+    byMonth.set(month, entry);
+  }
+
+  const months = Array.from(byMonth.keys()).sort();
+  const first = range.dateFrom?.slice(0, 7) ?? months[0];
+  const last = range.dateTo?.slice(0, 7) ?? months[months.length - 1];
+  if (!first || !last) return [];
+  const result: MonthlyRevenue[] = [];
+  for (let month = first; month <= last; month = nextMonth(month)) {
+    result.push(byMonth.get(month) ?? { month, revenue: 0, orderCount: 0 });
+  }
+  return result;
+}
+
+/** Number and total amount of `orders` in each status, in workflow order; statuses without orders are included. */
+export function countByStatus(orders: Order[]): StatusCount[] {
+  const counts = new Map<OrderStatus, StatusCount>(
+    ALL_STATUSES.map((status) => [status, { status, count: 0, amount: 0 }]),
+  );
+  for (const order of orders) {
+    const entry = counts.get(order.status)!;
+    entry.count += 1;
+    entry.amount = roundCents(entry.amount + order.amount);
+  }
+  return Array.from(counts.values());
+}
+
+/** `countByStatus` over the live orders in `range`. */
+export async function ordersByStatus(repo: OrdersRepository, range: ReportRange): Promise<StatusCount[]> {
+  return countByStatus(await ordersIn(repo, range));
+}
+
+/**
+ * The `limit` customers with the most revenue in the range, highest first;
+ * ties go by name. Orders are grouped by customer ID and named after the
+ * customer record, since the name copied onto an order goes stale on a rename.
+ */
+export async function topCustomers(repo: OrdersRepository, range: ReportRange, limit: number): Promise<TopCustomer[]> {
+  const [orders, customers] = await Promise.all([ordersIn(repo, range), repo.listCustomers()]);
+  const names = new Map(customers.map((c) => [c.id, c.name]));
+  const byCustomer = new Map<string, TopCustomer>();
+  for (const order of orders) {
+    const entry = byCustomer.get(order.customerId) ?? {
+      customerId: order.customerId,
+      // an order whose customer record is missing keeps the name saved on it
+      customer: names.get(order.customerId) ?? order.customer,
+      orderCount: 0,
+      revenue: 0,
+    };
+    entry.orderCount += 1;
+    if (earns(order)) entry.revenue = roundCents(entry.revenue + order.amount);
+    byCustomer.set(order.customerId, entry);
+  }
+  return Array.from(byCustomer.values())
+    .sort((a, b) => b.revenue - a.revenue || a.customer.localeCompare(b.customer))
+    .slice(0, limit);
+}
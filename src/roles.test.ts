@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+
+import type { Identity } from "./auth.js";
+import { ForbiddenError } from "./errors.js";
+import { assertPermission, permissionsOf, resolveRole, roleConfigFromEnv } from "./roles.js";
+
+const ADA_ID = "6b0a2c4e-1d3f-4a5b-8c7d-9e0f1a2b3c4d";
+
+function identity(extra: Partial<Identity> = {}): Identity {
+  return { userId: ADA_ID, tenantId: "contoso", name: "Ada", username: "ada@contoso.com", groups: [], ...extra };
+}
+
+describe("roles", () => {
+  const config = roleConfigFromEnv({
+    AUTH_ROLES: JSON.stringify({
+      defaultRole: "viewer",
+      users: { [ADA_ID.toUpperCase()]: "manager" },
+      groups: { "sales-group": "salesRep", "admin-group": "admin" },
+    }),
+  });
+
+  it("grants the highest role of the user's object ID and groups", () => {
+    expect(resolveRole(config, identity())).toBe("manager");
+    expect(resolveRole(config, identity({ groups: ["sales-group"] }))).toBe("manager");
+    expect(resolveRole(config, identity({ groups: ["admin-group"] }))).toBe("admin");
+    expect(resolveRole(config, identity({ userId: "someone-else", groups: ["sales-group"] }))).toBe("salesRep");
+  });
+
+  it("ignores the sign-in name, which any tenant can put in a token", () => {
+    const stranger = identity({ userId: "another-oid", tenantId: "fabrikam" });
+    expect(resolveRole(config, stranger)).toBe("viewer");
+  });
+
+  it("refuses sign-in names as user keys", () => {
+    expect(() => roleConfigFromEnv({ AUTH_ROLES: '{"users":{"ada@contoso.com":"admin"}}' })).toThrow(/object ID/);
+  });
+
+  it("refuses unknown roles and malformed settings", () => {
+    expect(() => roleConfigFromEnv({ AUTH_ROLES: '{"defaultRole":"owner"}' })).toThrow(/defaultRole/);
+    expect(() => roleConfigFromEnv({ AUTH_ROLES: '{"groups":{"g":"owner"}}' })).toThrow(/invalid role for "g"/);
+    expect(() => roleConfigFromEnv({ AUTH_ROLES: "not json" })).toThrow(/not valid JSON/);
+  });
+
+  it("gives each role the permissions of the roles before it", () => {
+    expect(permissionsOf("viewer")).toEqual([]);
+    expect(permissionsOf("salesRep")).toContain("orders.create");
+    expect(permissionsOf("salesRep")).not.toContain("orders.cancel");
+    expect(() => assertPermission("salesRep", "orders.cancel")).toThrow(ForbiddenError);
+    expect(() => assertPermission("admin", "orders.purge")).not.toThrow();
+  });
+});
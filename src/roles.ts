@@ -0,0 +1,124 @@
+import type { Identity } from "./auth.js";
+import { ForbiddenError } from "./errors.js";
+
+/** Roles from least to most privileged; each role can do everything the ones before it can. */
+export const ALL_ROLES = ["viewer", "salesRep", "manager", "admin"] as const;
+export type Role = (typeof ALL_ROLES)[number];
+
+/** Actions beyond reading, which every signed-in user may do. */
+export type Permission =
+  | "orders.create"
+  | "orders.edit"
+  | "orders.cancel"
+  | "orders.delete"
+  | "orders.purge"
+  | "customers.create"
+  | "customers.edit"
+  | "customers.rename"
+  | "customers.delete";
+
+/** The least privileged role that has each permission. */
+const PERMISSION_ROLES: Record<Permission, Role> = {
+  "orders.create":    "salesRep",
+  "orders.edit":      "salesRep",
+  "orders.cancel":    "manager",
+  "orders.delete":    "manager",
+  "orders.purge":     "admin",
+  "customers.create": "salesRep",
+  "customers.edit":   "salesRep",
+  "customers.rename": "manager",
+  "customers.delete": "manager",
+};
+
+/**
+ * Who gets which role: by user object ID or by Entra group ID. Sign-in names
+ * aren't accepted, as another tenant can issue a token with the same one.
+ */
+export interface RoleConfig {
+  /** Role of signed-in users that match no entry. */
+  defaultRole: Role;
+  users: Record<string, Role>;
+  groups: Record<string, Role>;
+}
+
+const DEFAULT_ROLE_CONFIG: RoleConfig = { defaultRole: "viewer", users: {}, groups: {} };
+
+function isRole(value: unknown): value is Role {
+  return ALL_ROLES.includes(value as Role);
+}
+
+function parseRoleMap(value: unknown, name: string): Record<string, Role> {
+  if (value === undefined) return {};
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`AUTH_ROLES.${name} must be an object of ${name === "users" ? "user" : "group"} → role`);
+  }
+  const roles: Record<string, Role> = {};
+  for (const [key, role] of Object.entries(value)) {
+    if (!isRole(role)) {
+      throw new Error(`AUTH_ROLES.${name} has an invalid role for "${key}" (expected ${ALL_ROLES.join(", ")})`);
+    }
+    if (name === "users" && key.includes("@")) {
+      throw new Error(`AUTH_ROLES.users must be keyed by object ID, not sign-in name ("${key}")`);
+    }
+    // object IDs are GUIDs, matched ignoring case
+    roles[name === "users" ? key.toLowerCase() : key] = role;
+  }
+  return roles;
+}
+
+/**
+ * Reads the role assignments from `AUTH_ROLES`, a JSON object such as
+ * `{"defaultRole":"viewer","users":{"<object id>":"admin"},"groups":{"<group id>":"salesRep"}}`.
+ * Without it every signed-in user is a viewer.
+ */
+export function roleConfigFromEnv(env: NodeJS.ProcessEnv = process.env): RoleConfig {
+  const raw = env.AUTH_ROLES;
+  if (!raw) return DEFAULT_ROLE_CONFIG;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("AUTH_ROLES is not valid JSON");
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("AUTH_ROLES must be an object with defaultRole, users and groups");
+  }
+  const { defaultRole = DEFAULT_ROLE_CONFIG.defaultRole, users, groups } = parsed as Record<string, unknown>;
+  if (!isRole(defaultRole)) {
+    throw new Error(`AUTH_ROLES.defaultRole must be one of ${ALL_ROLES.join(", ")}`);
+  }
+  return { defaultRole, users: parseRoleMap(users, "users"), groups: parseRoleMap(groups, "groups") };
+}
+
+function rank(role: Role): number {
+  return ALL_ROLES.indexOf(role);
+}
+
+/** The most privileged role any of the user's entries grants, or the default role. */
+export function resolveRole(config: RoleConfig, identity: Identity): Role {
+  const candidates: (Role | undefined)[] = [
+    config.defaultRole,
+    config.users[identity.userId.toLowerCase()],
+    ...identity.groups.map((group) => config.groups[group]),
+  ];
+  return candidates
+    .filter((role): role is Role => role !== undefined)
+    .reduce((best, role) => (rank(role) > rank(best) ? role : best));
+}
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return rank(role) >= rank(PERMISSION_ROLES[permission]);
+}
+
+/** Every permission `role` has, for clients deciding which controls to show. */
+export function permissionsOf(role: Role): Permission[] {
+  return (Object.keys(PERMISSION_ROLES) as Permission[]).filter((p) => hasPermission(role, p));
+}
+
+/** Throws a `ForbiddenError` unless `role` has `permission`. */
+export function assertPermission(role: Role, permission: Permission): void {
+  if (!hasPermission(role, permission)) {
+    throw new ForbiddenError(`The ${role} role does not allow ${permission}`);
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+
+import { ConflictError, ForbiddenError, NotFoundError } from "./errors.js";
+import { createView, deleteView, listViews, updateView, type ViewData } from "./savedViews.js";
+import { MemoryOrdersRepository } from "./storage/memoryRepository.js";
+
+const alice = { userId: "alice", name: "Alice" };
+const bob = { userId: "bob", name: "Bob" };
+
+function viewData(name: string, extra: Partial<ViewData> = {}): ViewData {
+  return {
+    name,
+    filters: { statuses: ["Shipped"] },
+    sort: { field: "date", direction: "descending" },
+    columns: ["id", "customer"],
+    ...extra,
+  };
+}
+
+describe("saved views", () => {
+  it("lists the user's own views first, then those others shared", async () => {
+    const repo = new MemoryOrdersRepository();
+    await createView(repo, bob, viewData("Bob shared", { shared: true }));
+    await createView(repo, bob, viewData("Bob private"));
+    await createView(repo, alice, viewData("Zebra"));
+    await createView(repo, alice, viewData("Apple"));
+
+    const names = (await listViews(repo, alice.userId)).map((v) => v.name);
+    expect(names).toEqual(["Apple", "Zebra", "Bob shared"]);
+  });
+
+  it("rejects a second view of the same name for one user, ignoring case", async () => {
+    const repo = new MemoryOrdersRepository();
+    await createView(repo, alice, viewData("Shipped"));
+    await expect(createView(repo, alice, viewData("shipped"))).rejects.toBeInstanceOf(ConflictError);
+    await expect(createView(repo, bob, viewData("Shipped"))).resolves.toMatchObject({ ownerId: "bob" });
+  });
+
+  it("keeps at most one default per user", async () => {
+    const repo = new MemoryOrdersRepository();
+    const first = await createView(repo, alice, viewData("First", { isDefault: true }));
+    const bobs = await createView(repo, bob, viewData("Bob's", { isDefault: true }));
+    const second = await createView(repo, alice, viewData("Second", { isDefault: true }));
+
+    const defaults = (await repo.listViews()).filter((v) => v.isDefault).map((v) => v.id).sort();
+    expect(defaults).toEqual([bobs.id, second.id].sort());
+
+    await updateView(repo, alice, first.id, { isDefault: true });
+    const aliceDefaults = (await listViews(repo, alice.userId)).filter((v) => v.isDefault).map((v) => v.name);
+    expect(aliceDefaults).toEqual(["First"]);
+  });
+
+  it("lets only the owner change or delete a shared view", async () => {
+    const repo = new MemoryOrdersRepository();
+    const view = await createView(repo, alice, viewData("Team", { shared: true }));
+
+    await expect(updateView(repo, bob, view.id, { name: "Mine" })).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(deleteView(repo, bob.userId, view.id)).rejects.toBeInstanceOf(ForbiddenError);
+
+    await deleteView(repo, alice.userId, view.id);
+    expect(await listViews(repo, bob.userId)).toEqual([]);
+  });
+
+  it("hides unshared views from everyone but their owner", async () => {
+    const repo = new MemoryOrdersRepository();
+    const view = await createView(repo, alice, viewData("Private"));
+
+    expect(await listViews(repo, bob.userId)).toEqual([]);
+    await expect(updateView(repo, bob, view.id, { shared: true })).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
@@ -0,0 +1,143 @@
+import { randomUUID } from "crypto";
+
+import { ConflictError, ForbiddenError, NotFoundError } from "./errors.js";
+import type { OrderSort, OrderSortField, OrderStatus } from "./ordersService.js";
+import type { OrdersRepository } from "./storage/ordersRepository.js";
+
+/** Columns of the Home tab's orders table; each can be sorted by. */
+export type OrderColumn = OrderSortField;
+
+/** The Home tab filters a view restores; absent ones are left empty. */
+export interface ViewFilters {
+  idPrefix?: string;
+  customer?: string;
+  statuses?: OrderStatus[];
+}
+
+/** How a view shows the orders table. */
+export interface ViewSettings {
+  filters: ViewFilters;
+  sort: OrderSort;
+  /** Visible columns, in table order. */
+  columns: OrderColumn[];
+}
+
+/** A named set of table settings, saved by one user and optionally shared with the rest of the tenant. */
+export interface SavedView extends ViewSettings {
+  id: string;
+  name: string;
+  /** `userId` of the signed-in user who saved it; only they can change it. */
+  ownerId: string;
+  /** Display name of the owner, for teammates the view is shared with. */
+  ownerName: string;
+  /** Listed for everyone in the tenant, read-only for all but the owner. */
+  shared: boolean;
+  /** The view the Home tab opens with for its owner; each user has at most one. */
+  isDefault: boolean;
+  /** ISO timestamps. */
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** What a client sends to save or change a view. */
+export type ViewData = ViewSettings & { name: string; shared?: boolean; isDefault?: boolean };
+
+/** Most views one user may save. */
+export const MAX_VIEWS_PER_USER = 50;
+
+/** Who is saving or changing a view. */
+export interface ViewOwner {
+  userId: string;
+  name: string;
+}
+
+function byName(a: SavedView, b: SavedView): number {
+  return a.name.localeCompare(b.name) || a.createdAt.localeCompare(b.createdAt);
+}
+
+/** The user's own views followed by those teammates shared, each group sorted by name. */
+export async function listViews(repo: OrdersRepository, userId: string): Promise<SavedView[]> {
+  const views = await repo.listViews();
+  const own = views.filter((v) => v.ownerId === userId).sort(byName);
+  const shared = views.filter((v) => v.ownerId !== userId && v.shared).sort(byName);
+  return [...own, ...shared];
+}
+
+/** A view the user may see, or a `NotFoundError`; someone else's unshared view doesn't exist for them. */
+async function visibleView(repo: OrdersRepository, userId: string, id: string): Promise<SavedView> {
+  const view = (await repo.listViews()).find((v) => v.id === id);
+  if (!view || (view.ownerId !== userId && !view.shared)) throw new NotFoundError(`View ${id} not found`);
+  return view;
+}
+
+/** A view the user may change, or a `ForbiddenError` for a view only shared with them. */
+async function ownView(repo: OrdersRepository, userId: string, id: string): Promise<SavedView> {
+  const view = await visibleView(repo, userId, id);
+  if (view.ownerId !== userId) throw new ForbiddenError(`View ${id} belongs to ${view.ownerName}; save a copy to change it`);
+  return view;
+}
+
+/** Throws a `ConflictError` if the owner has another view called `name`. */
+function assertUniqueName(views: SavedView[], ownerId: string, name: string, exceptId?: string): void {
+  const wanted = name.toLowerCase();
+  if (views.some((v) => v.ownerId === ownerId && v.id !== exceptId && v.name.toLowerCase() === wanted)) {
+    throw new ConflictError(`You already have a view called "${name}"`);
+  }
+}
+
+/** Clears the default flag of the owner's other views, so `keepId` is the only one. */
+async function clearOtherDefaults(repo: OrdersRepository, views: SavedView[], ownerId: string, keepId: string): Promise<void> {
+  for (const view of views) {
+    if (view.ownerId === ownerId && view.id !== keepId && view.isDefault) {
+      await repo.saveView({ ...view, isDefault: false });
+    }
+  }
+}
+
+/** Saves a new view for `owner`. Names are unique per user, ignoring case. */
+export async function createView(repo: OrdersRepository, owner: ViewOwner, data: ViewData): Promise<SavedView> {
+  const views = await repo.listViews();
+  assertUniqueName(views, owner.userId, data.name);
+  if (views.filter((v) => v.ownerId === owner.userId).length >= MAX_VIEWS_PER_USER) {
+    throw new ConflictError(`You can save at most ${MAX_VIEWS_PER_USER} views`);
+  }
+  const now = new Date().toISOString();
+  const view: SavedView = {
+    id: randomUUID(),
+    name: data.name,
+    filters: data.filters,
+    sort: data.sort,
+    columns: data.columns,
+    ownerId: owner.userId,
+    ownerName: owner.name,
+    shared: data.shared ?? false,
+    isDefault: data.isDefault ?? false,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await repo.saveView(view);
+  if (view.isDefault) await clearOtherDefaults(repo, views, owner.userId, view.id);
+  return view;
+}
+
+/** Changes some of a view's fields. Only its owner may. */
+export async function updateView(
+  repo: OrdersRepository,
+  owner: ViewOwner,
+  id: string,
+  patch: Partial<ViewData>,
+): Promise<SavedView> {
+  const existing = await ownView(repo, owner.userId, id);
+  const views = await repo.listViews();
+  if (patch.name !== undefined) assertUniqueName(views, owner.userId, patch.name, id);
+  const updated: SavedView = { ...existing, ...patch, ownerName: owner.name, updatedAt: new Date().toISOString() };
+  await repo.saveView(updated);
+  if (patch.isDefault) await clearOtherDefaults(repo, views, owner.userId, id);
+  return updated;
+}
+
+/** Removes a view. Only its owner may; teammates it was shared with simply stop seeing it. */
+export async function deleteView(repo: OrdersRepository, userId: string, id: string): Promise<void> {
+  await ownView(repo, userId, id);
+  await repo.deleteView(id);
+}
@@ -0,0 +1,40 @@
+import React from "react";
+import { Button } from "@fluentui/react-components";
+import { CheckmarkRegular, LinkRegular } from "@fluentui/react-icons";
+
+import { copyText } from "./deepLinks";
+
+// How long the button shows that the link was copied
+const COPIED_FEEDBACK_MS = 2000;
+
+interface CopyLinkButtonProps {
+  /** Built on click, so the link reflects where the tab runs at that moment. */
+  link: () => string;
+  /** What the link opens, e.g. "ORD-042", for the button's accessible name. */
+  label: string;
+}
+
+/** Row button that copies a deep link and briefly turns into a checkmark. */
+export function CopyLinkButton({ link, label }: CopyLinkButtonProps) {
+  const [state, setState] = React.useState<"idle" | "copied" | "failed">("idle");
+
+  React.useEffect(() => {
+    if (state === "idle") return;
+    const timer = setTimeout(() => setState("idle"), COPIED_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [state]);
+
+  const handleClick = () => {
+    copyText(link()).then(() => setState("copied"), () => setState("failed"));
+  };
+
+  return (
+    <Button
+      appearance="subtle"
+      icon={state === "copied" ? <CheckmarkRegular /> : <LinkRegular />}
+      aria-label={`Copy link to ${label}`}
+      title={state === "copied" ? "Link copied" : state === "failed" ? "Could not copy the link" : "Copy link"}
+      onClick={handleClick}
+    />
+  );
+}
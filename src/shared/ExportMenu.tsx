@@ -0,0 +1,67 @@
+import React from "react";
+import { Button, Menu, MenuItem, MenuList, MenuPopover, MenuTrigger, Spinner } from "@fluentui/react-components";
+import { ArrowDownloadRegular } from "@fluentui/react-icons";
+
+import { apiFetch, ensureOk, errorMessage } from "./api";
+
+type ExportFormat = "csv" | "xlsx";
+
+/**
+ * Fetches an export with the user's token and saves it under the name from
+ * `Content-Disposition`. A plain link can't send the `Authorization` header.
+ */
+async function downloadExport(url: string): Promise<void> {
+  const res = await ensureOk(await apiFetch(url));
+  const fileName = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? "export";
+  const href = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = href;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // give the browser a moment to start the download before the blob goes away
+  setTimeout(() => URL.revokeObjectURL(href), 10_000);
+}
+
+interface ExportMenuProps {
+  /** Export route, e.g. `/api/orders/export`. */
+  path: string;
+  /** Filter and sort parameters of the rows on screen; `format` is added per menu item. */
+  params: URLSearchParams;
+  onError: (message: string) => void;
+}
+
+/** "Export" button offering the current rows as CSV or Excel. */
+export function ExportMenu({ path, params, onError }: ExportMenuProps) {
+  const [busy, setBusy] = React.useState(false);
+
+  async function handleExport(format: ExportFormat) {
+    const query = new URLSearchParams(params);
+    query.set("format", format);
+    setBusy(true);
+    try {
+      await downloadExport(`${path}?${query}`);
+    } catch (err) {
+      onError(`Export failed: ${errorMessage(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Menu>
+      <MenuTrigger disableButtonEnhancement>
+        <Button icon={busy ? <Spinner size="tiny" /> : <ArrowDownloadRegular />} disabled={busy}>
+          Export
+        </Button>
+      </MenuTrigger>
+      <MenuPopover>
+        <MenuList>
+          <MenuItem onClick={() => handleExport("csv")}>CSV (.csv)</MenuItem>
+          <MenuItem onClick={() => handleExport("xlsx")}>Excel (.xlsx)</MenuItem>
+        </MenuList>
+      </MenuPopover>
+    </Menu>
+  );
+}
@@ -0,0 +1,99 @@
+import * as teamsJs from "@microsoft/teams-js";
+
+/** One invalid input, as reported by the API next to the matching form field. */
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+/** RFC 9457 problem details returned by every failing `/api` call. */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  errors?: FieldError[];
+  /** Latest server copy of the resource on a 412 ETag mismatch. */
+  current?: unknown;
+}
+
+/** A failed API response, carrying its problem details. */
+export class ApiError extends Error {
+  constructor(readonly problem: ProblemDetails) {
+    super(problem.detail ?? problem.title);
+    this.name = "ApiError";
+  }
+
+  get status(): number {
+    return this.problem.status;
+  }
+
+  /** Field errors keyed by field name, ready for `<Field validationMessage>`. */
+  get fieldErrors(): Record<string, string> {
+    const byField: Record<string, string> = {};
+    for (const { field, message } of this.problem.errors ?? []) {
+      byField[field] ??= message;
+    }
+    return byField;
+  }
+
+  /** Reads the problem details from a failed response, falling back to the status line. */
+  static async from(res: Response): Promise<ApiError> {
+    let problem: ProblemDetails | undefined;
+    try {
+      problem = (await res.json()) as ProblemDetails;
+    } catch { /* not JSON */ }
+    return new ApiError({
+      type: "about:blank",
+      title: res.statusText || `HTTP ${res.status}`,
+      ...problem,
+      status: res.status,
+    });
+  }
+}
+
+/** Throws an `ApiError` unless `res` succeeded. */
+export async function ensureOk(res: Response): Promise<Response> {
+  if (!res.ok) throw await ApiError.from(res);
+  return res;
+}
+
+/** Message to show for any error thrown while calling the API. */
+export function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// Refresh local tokens a little before they expire
+const TOKEN_EXPIRY_MARGIN = 60_000;
+
+let localToken: { token: string; expiresOn: number } | undefined;
+
+/** Signs in against a server running with `AUTH_MODE=local`, for use outside Teams. */
+async function getLocalToken(): Promise<string> {
+  if (localToken && localToken.expiresOn - TOKEN_EXPIRY_MARGIN > Date.now()) return localToken.token;
+  const res = await ensureOk(await fetch("/api/auth/local-token", { method: "POST" }));
+  const { token, expiresOn }: { token: string; expiresOn: string } = await res.json();
+  localToken = { token, expiresOn: Date.parse(expiresOn) };
+  return token;
+}
+
+/**
+ * Returns a bearer token for the API: the Teams SSO token inside Teams, or a
+ * development token from the server when the tab is opened in a plain browser.
+ */
+export async function getAccessToken(): Promise<string> {
+  try {
+    await teamsJs.app.initialize();
+  } catch {
+    return getLocalToken();
+  }
+  return teamsJs.authentication.getAuthToken();
+}
+
+/** `fetch` for `/api` routes, signed in with the current user's token. */
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  headers.set("Authorization", `Bearer ${await getAccessToken()}`);
+  return fetch(input, { ...init, headers });
+}
@@ -0,0 +1,35 @@
+/**
+ * Order filters a channel's Orders tab is pinned to. The configuration page
+ * saves them into the tab's content URL through `pages.config.setConfig`, so
+ * each tab instance carries its own view and the Home tab reads it back from
+ * its address.
+ */
+export interface ChannelView {
+  customerId?: string;
+  statuses: string[];
+  /** Inclusive `YYYY-MM-DD` bounds. */
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+/** The view as query parameters, named like those of `GET /api/orders`. */
+export function channelViewParams(view: ChannelView): URLSearchParams {
+  const params = new URLSearchParams();
+  if (view.customerId) params.set("customerId", view.customerId);
+  if (view.statuses.length) params.set("status", view.statuses.join(","));
+  if (view.dateFrom) params.set("dateFrom", view.dateFrom);
+  if (view.dateTo) params.set("dateTo", view.dateTo);
+  return params;
+}
+
+/** Reads a view from a query string; `null` when it names none, as for the personal Home tab. */
+export function channelViewFromQuery(search: string): ChannelView | null {
+  const params = new URLSearchParams(search);
+  const view: ChannelView = {
+    customerId: params.get("customerId") || undefined,
+    statuses: (params.get("status") ?? "").split(",").filter(Boolean),
+    dateFrom: params.get("dateFrom") || undefined,
+    dateTo: params.get("dateTo") || undefined,
+  };
+  return view.customerId || view.statuses.length || view.dateFrom || view.dateTo ? view : null;
+}
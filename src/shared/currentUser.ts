@@ -0,0 +1,44 @@
+import React from "react";
+
+import { apiFetch, ensureOk } from "./api";
+
+/** Actions the server may allow beyond reading; mirrors `Permission` in `src/roles.ts`. */
+export type Permission =
+  | "orders.create"
+  | "orders.edit"
+  | "orders.cancel"
+  | "orders.delete"
+  | "orders.purge"
+  | "customers.create"
+  | "customers.edit"
+  | "customers.rename"
+  | "customers.delete";
+
+/** The signed-in user as returned by `GET /api/me`. */
+export interface CurrentUser {
+  userId: string;
+  tenantId: string;
+  name: string;
+  username?: string;
+  role: "viewer" | "salesRep" | "manager" | "admin";
+  permissions: Permission[];
+}
+
+/**
+ * Loads the signed-in user once. `can` answers false until the user has
+ * loaded, so controls start out disabled rather than flashing enabled.
+ */
+export function useCurrentUser(): { user: CurrentUser | null; can: (permission: Permission) => boolean } {
+  const [user, setUser] = React.useState<CurrentUser | null>(null);
+
+  React.useEffect(() => {
+    apiFetch("/api/me")
+      .then(ensureOk)
+      .then((r) => r.json() as Promise<CurrentUser>)
+      .then(setUser)
+      .catch(() => {/* leave everything disabled; the API rejects the calls anyway */});
+  }, []);
+
+  const can = React.useCallback((permission: Permission) => !!user?.permissions.includes(permission), [user]);
+  return { user, can };
+}
@@ -0,0 +1,46 @@
+import * as teamsJs from "@microsoft/teams-js";
+
+/** A static tab that can be opened on one item, e.g. the Home tab on an order. */
+export interface DeepLinkTab {
+  /** `entityId` of the tab in the app manifest. */
+  entityId: string;
+  /** Query parameter that names the item outside Teams, e.g. `order`. */
+  param: string;
+}
+
+/** The item a tab was opened on outside Teams, from the address bar. */
+export function linkedItemFromUrl(tab: DeepLinkTab): string | null {
+  return new URLSearchParams(window.location.search).get(tab.param);
+}
+
+/** Drops the tab's item from the address bar, so reloading doesn't open it again. */
+export function clearLinkedItemFromUrl(tab: DeepLinkTab): void {
+  const url = new URL(window.location.href);
+  if (!url.searchParams.has(tab.param)) return;
+  url.searchParams.delete(tab.param);
+  window.history.replaceState(null, "", url);
+}
+
+/**
+ * A link that opens `tab` on `itemId`. Inside Teams (`teamsAppId` known) it
+ * is a Teams deep link whose `subEntityId` the tab reads back as
+ * `page.subPageId`; elsewhere it is the tab's own address with the item in
+ * the query string, which also serves as the deep link's web fallback.
+ */
+export function tabDeepLink(tab: DeepLinkTab, itemId: string, teamsAppId?: string): string {
+  const webUrl = new URL(window.location.pathname, window.location.origin);
+  webUrl.searchParams.set(tab.param, itemId);
+  if (!teamsAppId) return webUrl.toString();
+
+  const params = new URLSearchParams({ webUrl: webUrl.toString(), context: JSON.stringify({ subEntityId: itemId }) });
+  return `https://teams.microsoft.com/l/entity/${encodeURIComponent(teamsAppId)}/${encodeURIComponent(tab.entityId)}?${params}`;
+}
+
+/** Puts `text` on the clipboard; Teams blocks the browser clipboard API in tabs, so its own is used when available. */
+export async function copyText(text: string): Promise<void> {
+  if (teamsJs.app.isInitialized() && teamsJs.clipboard.isSupported()) {
+    await teamsJs.clipboard.write(new Blob([text], { type: "text/plain" }));
+  } else {
+    await navigator.clipboard.writeText(text);
+  }
+}
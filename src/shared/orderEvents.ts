@@ -0,0 +1,84 @@
+import { getAccessToken } from "./api";
+
+/** Handlers for the named events on `/api/orders/events`. `TOrder` and `TCustomer` are the tab's own types. */
+export interface OrderEventHandlers<TOrder, TCustomer = unknown> {
+  "order.created"?: (order: TOrder) => void;
+  "order.updated"?: (order: TOrder) => void;
+  /** `purged` is false when the order went to the trash, true when it was removed for good. */
+  "order.deleted"?: (data: { id: string; purged: boolean }) => void;
+  "order.restored"?: (order: TOrder) => void;
+  "customer.created"?: (customer: TCustomer) => void;
+  /** Orders only hold the customer ID, so a rename arrives as this one event. */
+  "customer.updated"?: (customer: TCustomer) => void;
+  "customer.deleted"?: (data: { id: string }) => void;
+  /** Events were missed and can't be replayed; reload from the API. */
+  reset?: () => void;
+}
+
+const EVENT_TYPES = [
+  "order.created",
+  "order.updated",
+  "order.deleted",
+  "order.restored",
+  "customer.created",
+  "customer.updated",
+  "customer.deleted",
+  "reset",
+] as const;
+
+// Wait before reopening a stream the server closed, e.g. because the token expired
+const REOPEN_DELAY = 5000;
+
+/**
+ * Opens the order event stream and dispatches each named event to its handler.
+ * The browser reconnects on its own and sends `Last-Event-ID`, so the server
+ * replays anything missed in between. EventSource can't send an
+ * `Authorization` header, so the token goes in the query string; when the
+ * server rejects it the stream is reopened with a fresh token, resuming from
+ * the last event seen. Returns a function that closes the stream.
+ */
+export function subscribeOrderEvents<TOrder, TCustomer = unknown>(
+  handlers: OrderEventHandlers<TOrder, TCustomer>,
+): () => void {
+  let es: EventSource | undefined;
+  let lastEventId: string | undefined;
+  let reopenTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  const open = async () => {
+    let token: string;
+    try {
+      token = await getAccessToken();
+    } catch {
+      reopenTimer = setTimeout(open, REOPEN_DELAY);
+      return;
+    }
+    if (closed) return;
+
+    const params = new URLSearchParams({ access_token: token });
+    if (lastEventId) params.set("lastEventId", lastEventId);
+    es = new EventSource(`/api/orders/events?${params}`);
+    for (const type of EVENT_TYPES) {
+      es.addEventListener(type, (e) => {
+        const event = e as MessageEvent<string>;
+        if (event.lastEventId) lastEventId = event.lastEventId;
+        const handler = handlers[type] as ((data: unknown) => void) | undefined;
+        if (!handler) return;
+        try {
+          handler(JSON.parse(event.data));
+        } catch { /* ignore malformed events */ }
+      });
+    }
+    es.onerror = () => {
+      if (es?.readyState !== EventSource.CLOSED || closed) return;
+      reopenTimer = setTimeout(open, REOPEN_DELAY);
+    };
+  };
+
+  void open();
+  return () => {
+    closed = true;
+    clearTimeout(reopenTimer);
+    es?.close();
+  };
+}
@@ -0,0 +1,133 @@
+import { Readable, Writable } from "stream";
+
+import ExcelJS from "exceljs";
+import { describe, expect, it, vi } from "vitest";
+
+import { sendExport, type ExportColumn } from "./spreadsheetExport.js";
+
+interface Row {
+  name: string;
+  amount?: number;
+}
+
+const COLUMNS: ExportColumn<Row>[] = [
+  { header: "Name",   value: (r) => r.name },
+  { header: "Amount", value: (r) => r.amount },
+];
+
+/** Collects what is written, standing in for an Express response. */
+class FakeResponse extends Writable {
+  readonly chunks: Buffer[] = [];
+  statusCode = 0;
+  headers: Record<string, string> = {};
+
+  status(code: number) {
+    this.statusCode = code;
+    return this;
+  }
+
+  set(headers: Record<string, string>) {
+    this.headers = headers;
+    return this;
+  }
+
+  override _write(chunk: Buffer, _encoding: BufferEncoding, callback: () => void) {
+    this.chunks.push(chunk);
+    callback();
+  }
+
+  body(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+}
+
+/** Opens the download again with exceljs's reader. */
+async function openWorkbook(res: FakeResponse): Promise<ExcelJS.Workbook> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.read(Readable.from([res.body()]));
+  return workbook;
+}
+
+async function* generate(count: number): AsyncGenerator<Row> {
+  for (let i = 1; i <= count; i++) yield { name: `Row ${i}`, amount: i };
+}
+
+describe("sendExport", () => {
+  it("writes CSV with a byte order mark, quoting and formula escaping", async () => {
+    const res = new FakeResponse();
+    await sendExport(res, "csv", "orders", COLUMNS, [
+      { name: 'Contoso, "Ltd"', amount: 12.5 },
+      { name: "=HYPERLINK()" },
+    ]);
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["Content-Disposition"]).toMatch(/^attachment; filename="orders-\d{4}-\d{2}-\d{2}\.csv"$/);
+    expect(res.body().toString("utf8")).toBe('﻿Name,Amount\r\n"Contoso, ""Ltd""",12.5\r\n\'=HYPERLINK(),\r\n');
+  });
+
+  it("writes an XLSX workbook that a spreadsheet library can open", async () => {
+    const res = new FakeResponse();
+    await sendExport(res, "xlsx", "customers", COLUMNS, generate(5000));
+
+    const workbook = await openWorkbook(res);
+    const sheet = workbook.getWorksheet("Customers")!;
+    expect(sheet.rowCount).toBe(5001);
+    expect(sheet.getRow(1).values).toEqual([undefined, "Name", "Amount"]);
+    expect(sheet.getCell("A1").font?.bold).toBe(true);
+    expect(sheet.getRow(2).values).toEqual([undefined, "Row 1", 1]);
+    expect(sheet.getRow(5001).values).toEqual([undefined, "Row 5000", 5000]);
+  });
+
+  it("keeps text that XML would mangle intact in XLSX cells", async () => {
+    const res = new FakeResponse();
+    await sendExport(res, "xlsx", "orders", COLUMNS, [{ name: "Tom & Jerry <ltd> \"quoted\"\u0001" }]);
+
+    const workbook = await openWorkbook(res);
+    expect(workbook.getWorksheet("Orders")!.getCell("A2").value).toBe('Tom & Jerry <ltd> "quoted"');
+  });
+
+  it("keeps text that looks like a formula as text in XLSX cells", async () => {
+    const res = new FakeResponse();
+    await sendExport(res, "xlsx", "orders", COLUMNS, [{ name: "=HYPERLINK(\"https://example.com\")" }]);
+
+    const workbook = await openWorkbook(res);
+    expect(workbook.getWorksheet("Orders")!.getCell("A2").value).toBe('=HYPERLINK("https://example.com")');
+  });
+
+  it("sends XLSX bytes before the rows run out and stops reading rows while the client is behind", async () => {
+    let pulled = 0;
+    async function* counted(): AsyncGenerator<Row> {
+      for (;;) {
+        pulled++;
+        yield { name: `Row ${pulled} ${"x".repeat(100)}`, amount: pulled };
+      }
+    }
+    // a client that takes the first chunks and then stops reading
+    const res = new FakeResponse({ highWaterMark: 1024 });
+    res._write = (chunk: Buffer, _encoding, callback) => {
+      res.chunks.push(chunk);
+      if (res.chunks.length < 3) callback();
+    };
+    const exported = sendExport(res, "xlsx", "orders", COLUMNS, counted());
+
+    await vi.waitFor(() => expect(res.chunks.length).toBe(3));
+    const pulledWhenBlocked = pulled;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(pulled).toBe(pulledWhenBlocked);
+
+    res.on("error", () => { /* expected */ });
+    res.destroy();
+    await exported;
+  });
+
+  it("cuts the connection when reading the rows fails midway", async () => {
+    async function* failing(): AsyncGenerator<Row> {
+      yield { name: "first" };
+      throw new Error("storage went away");
+    }
+    const res = new FakeResponse();
+    res.on("error", () => { /* expected */ });
+    await sendExport(res, "csv", "orders", COLUMNS, failing());
+    expect(res.destroyed).toBe(true);
+    expect(res.writableEnded).toBe(false);
+  });
+});
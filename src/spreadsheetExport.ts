@@ -0,0 +1,125 @@
+import type { Writable } from "stream";
+
+import ExcelJS from "exceljs";
+
+export const EXPORT_FORMATS = ["csv", "xlsx"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** One column of an export: its header and how to read the cell from a row. */
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => string | number | undefined;
+}
+
+/** Rows of an export: an array, or a generator reading them from storage a page at a time. */
+export type ExportRows<T> = Iterable<T> | AsyncIterable<T>;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+// Spreadsheet apps run text starting with these as a formula, so exported text must not start with them
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: string | number | undefined): string {
+  if (value === undefined) return "";
+  if (typeof value === "number") return String(value);
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRow(cells: (string | number | undefined)[]): string {
+  return cells.map(csvCell).join(",") + "\r\n";
+}
+
+/** Resolves once `out` has room in its buffer again (at once if it has), or rejects if it closes first. */
+function drained(out: Writable): Promise<void> {
+  if (out.destroyed) return Promise.reject(new Error("The output stream was closed"));
+  if (!out.writableNeedDrain) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const done = () => {
+      out.off("drain", done);
+      out.off("close", closed);
+      resolve();
+    };
+    const closed = () => {
+      out.off("drain", done);
+      reject(new Error("The output stream was closed"));
+    };
+    out.once("drain", done);
+    out.once("close", closed);
+  });
+}
+
+/** Writes `chunk`, waiting for the stream to drain (or close) when its buffer is full. */
+async function writeChunk(out: Writable, chunk: string): Promise<void> {
+  if (out.destroyed) throw new Error("The output stream was closed");
+  out.write(chunk);
+  await drained(out);
+}
+
+async function writeCsv<T>(res: any, columns: ExportColumn<T>[], rows: ExportRows<T>): Promise<void> {
+  // the byte order mark makes Excel read the file as UTF-8
+  await writeChunk(res, "\uFEFF" + csvRow(columns.map((c) => c.header)));
+  for await (const row of rows) {
+    await writeChunk(res, csvRow(columns.map((c) => c.value(row))));
+  }
+}
+
+/**
+ * Writes the workbook with exceljs's streaming writer, which commits each row
+ * to the ZIP stream as it goes and switches to ZIP64 past 4 GiB or 65,535
+ * entries. The writer doesn't wait for `res` itself, so each row waits for
+ * the client to catch up before the next is read.
+ */
+async function writeXlsx<T>(res: any, sheetName: string, columns: ExportColumn<T>[], rows: ExportRows<T>): Promise<void> {
+  // shared strings would keep every distinct text in memory until the end
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true, useSharedStrings: false });
+  // keep the header row in view while scrolling
+  const sheet = workbook.addWorksheet(sheetName, { views: [{ state: "frozen", ySplit: 1 }] });
+  const header = sheet.addRow(columns.map((c) => c.header));
+  header.font = { bold: true };
+  header.commit();
+  for await (const row of rows) {
+    sheet.addRow(columns.map((c) => c.value(row) ?? null)).commit();
+    // committed rows only reach `res` once zlib has had a turn of the event loop
+    await new Promise((resolve) => setImmediate(resolve));
+    await drained(res);
+  }
+  sheet.commit();
+  // finishes the archive and ends `res`
+  await workbook.commit();
+}
+
+/**
+ * Streams `rows` to the response as a CSV or XLSX download named
+ * `<name>-<today>.<format>`, one row at a time, so rows generated from storage
+ * are read no faster than the client downloads them. Once the first byte is
+ * sent errors can no longer become a problem response, so the connection is
+ * cut instead and the client sees a failed download.
+ */
+export async function sendExport<T>(
+  res: any,
+  format: ExportFormat,
+  name: string,
+  columns: ExportColumn<T>[],
+  rows: ExportRows<T>,
+): Promise<void> {
+  const fileName = `${name}-${new Date().toISOString().slice(0, 10)}.${format}`;
+  res.status(200).set({
+    "Content-Type": CONTENT_TYPES[format],
+    "Content-Disposition": `attachment; filename="${fileName}"`,
+    "Cache-Control": "no-store",
+  });
+  try {
+    if (format === "csv") {
+      await writeCsv(res, columns, rows);
+      res.end();
+    } else {
+      await writeXlsx(res, name.charAt(0).toUpperCase() + name.slice(1), columns, rows);
+    }
+  } catch (err) {
+    res.destroy(err as Error);
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+
+import { ValidationError } from "./errors.js";
+import { assertTransition, DEFAULT_STATUS_TRANSITIONS, nextStatuses, statusTransitionsFromEnv } from "./statusWorkflow.js";
+
+describe("status workflow", () => {
+  it("moves orders forward one step and cancels them only before they ship", () => {
+    expect(nextStatuses(DEFAULT_STATUS_TRANSITIONS, "Submitted")).toEqual(["Pending", "Cancelled"]);
+    expect(nextStatuses(DEFAULT_STATUS_TRANSITIONS, "Shipped")).toEqual(["Delivered"]);
+    expect(nextStatuses(DEFAULT_STATUS_TRANSITIONS, "Delivered")).toEqual([]);
+    expect(nextStatuses(DEFAULT_STATUS_TRANSITIONS, "Cancelled")).toEqual([]);
+  });
+
+  it("allows listed moves and keeping the same status", () => {
+    expect(() => assertTransition(DEFAULT_STATUS_TRANSITIONS, "Pending", "Processing")).not.toThrow();
+    expect(() => assertTransition(DEFAULT_STATUS_TRANSITIONS, "Delivered", "Delivered")).not.toThrow();
+  });
+
+  it("rejects skipped steps with the allowed ones, and any move out of a final status", () => {
+    let error: unknown;
+    try {
+      assertTransition(DEFAULT_STATUS_TRANSITIONS, "Submitted", "Shipped");
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).errors).toEqual([
+      { field: "status", message: "Cannot change status from Submitted to Shipped; allowed: Pending, Cancelled" },
+    ]);
+
+    expect(() => assertTransition(DEFAULT_STATUS_TRANSITIONS, "Shipped", "Cancelled")).toThrow(ValidationError);
+    try {
+      assertTransition(DEFAULT_STATUS_TRANSITIONS, "Cancelled", "Submitted");
+    } catch (err) {
+      error = err;
+    }
+    expect((error as ValidationError).errors[0].message).toBe("Cannot change status from Cancelled; it is final");
+  });
+
+  it("reads a custom graph from ORDER_STATUS_TRANSITIONS", () => {
+    const transitions = statusTransitionsFromEnv({ ORDER_STATUS_TRANSITIONS: '{"Submitted":["Shipped"],"Shipped":["Delivered"]}' });
+    expect(nextStatuses(transitions, "Submitted")).toEqual(["Shipped"]);
+    expect(nextStatuses(transitions, "Pending")).toEqual([]);
+    expect(statusTransitionsFromEnv({})).toBe(DEFAULT_STATUS_TRANSITIONS);
+  });
+
+  it("refuses a malformed ORDER_STATUS_TRANSITIONS", () => {
+    expect(() => statusTransitionsFromEnv({ ORDER_STATUS_TRANSITIONS: "{" })).toThrow(/not valid JSON/);
+    expect(() => statusTransitionsFromEnv({ ORDER_STATUS_TRANSITIONS: "[]" })).toThrow(/must be an object/);
+    expect(() => statusTransitionsFromEnv({ ORDER_STATUS_TRANSITIONS: '{"Submitted":["Lost"]}' })).toThrow(/"Submitted"/);
+  });
+});
@@ -0,0 +1,63 @@
+import { ValidationError } from "./errors.js";
+import { ALL_STATUSES, type OrderStatus } from "./ordersService.js";
+
+/** For each status, the statuses an order may move to next. Statuses without an entry are final. */
+export type StatusTransitions = Partial<Record<OrderStatus, OrderStatus[]>>;
+
+/** Orders move forward one step at a time and can only be cancelled until they ship. */
+export const DEFAULT_STATUS_TRANSITIONS: StatusTransitions = {
+  Submitted:  ["Pending", "Cancelled"],
+  Pending:    ["Processing", "Cancelled"],
+  Processing: ["Shipped", "Cancelled"],
+  Shipped:    ["Delivered"],
+};
+
+function isStatus(value: unknown): value is OrderStatus {
+  return ALL_STATUSES.includes(value as OrderStatus);
+}
+
+/**
+ * Reads the transition graph from `ORDER_STATUS_TRANSITIONS`, a JSON object
+ * such as `{"Submitted":["Pending"],"Pending":["Shipped"]}`. Falls back to
+ * `DEFAULT_STATUS_TRANSITIONS` when unset.
+ */
+export function statusTransitionsFromEnv(env: NodeJS.ProcessEnv = process.env): StatusTransitions {
+  const raw = env.ORDER_STATUS_TRANSITIONS;
+  if (!raw) return DEFAULT_STATUS_TRANSITIONS;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("ORDER_STATUS_TRANSITIONS is not valid JSON");
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("ORDER_STATUS_TRANSITIONS must be an object of status → next statuses");
+  }
+
+  const transitions: StatusTransitions = {};
+  for (const [from, to] of Object.entries(parsed)) {
+    if (!isStatus(from) || !Array.isArray(to) || !to.every(isStatus)) {
+      throw new Error(`ORDER_STATUS_TRANSITIONS has an invalid entry for "${from}"`);
+    }
+    transitions[from] = to;
+  }
+  return transitions;
+}
+
+/** Statuses an order in `from` may move to next. */
+export function nextStatuses(transitions: StatusTransitions, from: OrderStatus): OrderStatus[] {
+  return transitions[from] ?? [];
+}
+
+/** Throws a `ValidationError` unless `from → to` is allowed. Keeping the same status is always allowed. */
+export function assertTransition(transitions: StatusTransitions, from: OrderStatus, to: OrderStatus): void {
+  if (from === to || nextStatuses(transitions, from).includes(to)) return;
+  const allowed = nextStatuses(transitions, from);
+  throw new ValidationError("Illegal status transition", [{
+    field: "status",
+    message: allowed.length
+      ? `Cannot change status from ${from} to ${to}; allowed: ${allowed.join(", ")}`
+      : `Cannot change status from ${from}; it is final`,
+  }]);
+}
@@ -0,0 +1,92 @@
+import { RestError, TableClient } from "@azure/data-tables";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { ForbiddenError, NotFoundError, PreconditionFailedError } from "../errors.js";
+import type { OrderData } from "../ordersService.js";
+import { AzureTableOrdersStore, tenantPartitionKey, toODataFilter } from "./azureTableRepository.js";
+
+describe("toODataFilter", () => {
+  it("always scopes the query to the tenant's partition", () => {
+    expect(toODataFilter("tenant-a", {})).toBe("PartitionKey eq 'tenant-a'");
+  });
+
+  it("pushes down statuses, customers, dates and the trash", () => {
+    expect(toODataFilter("t", {
+      statuses: ["Pending", "Shipped"],
+      customerIds: ["CUST-001", "CUST-002"],
+      dateFrom: "2026-01-01",
+      dateTo: "2026-01-31",
+      deleted: "only",
+    })).toBe(
+      "PartitionKey eq 't'"
+      + " and (status eq 'Pending' or status eq 'Shipped')"
+      + " and (customerId eq 'CUST-001' or customerId eq 'CUST-002')"
+      + " and deleted eq true"
+      + " and date ge '2026-01-01' and date le '2026-01-31'",
+    );
+  });
+
+  it("turns an ID prefix into a row key range, ignoring case", () => {
+    expect(toODataFilter("t", { idPrefix: "ord-04" })).toBe("PartitionKey eq 't' and RowKey ge 'ORD-04' and RowKey lt 'ORD-05'");
+  });
+
+  it("escapes quotes in values", () => {
+    expect(toODataFilter("t", { customerIds: ["O'Brien"] })).toBe("PartitionKey eq 't' and (customerId eq 'O''Brien')");
+  });
+
+  it("leaves long customer lists and amounts to the in-memory filter", () => {
+    const customerIds = Array.from({ length: 21 }, (_, i) => `CUST-${i}`);
+    expect(toODataFilter("t", { customerIds, minAmount: 10, maxAmount: 20 })).toBe("PartitionKey eq 't'");
+  });
+});
+
+describe("tenantPartitionKey", () => {
+  it("keeps each tenant in a partition named after it", () => {
+    expect(tenantPartitionKey("72f988bf-86f1-41af-91ab-2d7cd011db47")).toBe("72f988bf-86f1-41af-91ab-2d7cd011db47");
+    expect(tenantPartitionKey("fabrikam", "contoso")).toBe("fabrikam");
+  });
+
+  it("gives the legacy tenant the partition written before the split", () => {
+    expect(tenantPartitionKey("contoso", "contoso")).toBe("Orders");
+  });
+
+  it("refuses any other tenant named after the legacy partition", () => {
+    expect(() => tenantPartitionKey("Orders", "contoso")).toThrow(ForbiddenError);
+    expect(() => tenantPartitionKey("Orders")).toThrow(ForbiddenError);
+    expect(() => new AzureTableOrdersStore("UseDevelopmentStorage=true", "contoso").forTenant("Orders"))
+      .toThrow(ForbiddenError);
+  });
+});
+
+describe("writes that lose a race", () => {
+  const order: OrderData = {
+    id: "ORD-001",
+    customerId: "CUST-001",
+    customer: "Contoso Ltd.",
+    status: "Pending",
+    date: "2026-01-15",
+    amount: 100,
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function failUpdates(statusCode: number) {
+    vi.spyOn(TableClient.prototype, "updateEntity").mockRejectedValue(new RestError("failed", { statusCode }));
+    return new AzureTableOrdersStore("UseDevelopmentStorage=true").forTenant("contoso");
+  }
+
+  it("reports an order deleted in the meantime as not found", async () => {
+    await expect(failUpdates(404).replace(order, 'W/"1"')).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it("reports an order changed in the meantime as a failed precondition", async () => {
+    await expect(failUpdates(412).replace(order, 'W/"1"')).rejects.toBeInstanceOf(PreconditionFailedError);
+  });
+
+  it("reports a customer deleted in the meantime as not found", async () => {
+    const customer = { id: "CUST-001", name: "Contoso Ltd." };
+    await expect(failUpdates(404).replaceCustomer(customer, 'W/"1"')).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
@@ -0,0 +1,675 @@
+import { randomUUID } from "crypto";
+
+import { RestError, TableClient, TableServiceClient, TableTransaction, odata, type TableEntityResult } from "@azure/data-tables";
+
+import type { BillingAddress, Customer, CustomerData } from "../customersService.js";
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError, PreconditionFailedError } from "../errors.js";
+import type { LineItem } from "../lineItems.js";
+import type { AuditAction, AuditEntry, FieldChange } from "../orderAudit.js";
+import type { NotificationSubscription } from "../orderNotifications.js";
+import type { Order, OrderData, OrderStatus } from "../ordersService.js";
+import type { SavedView, ViewSettings } from "../savedViews.js";
+import { matchesOrderFilter, type OrderFilter } from "./orderFilter.js";
+import type { OrdersRepository, OrdersStore, StoragePage } from "./ordersRepository.js";
+
+const TABLE_NAME = "Orders";
+const CUSTOMERS_TABLE_NAME = "Customers";
+const COUNTERS_TABLE_NAME = "Counters";
+const AUDIT_TABLE_NAME = "OrderAudit";
+const TENANTS_TABLE_NAME = "Tenants";
+const SUBSCRIPTIONS_TABLE_NAME = "Subscriptions";
+const VIEWS_TABLE_NAME = "SavedViews";
+
+/** Partition that held every row before data was split by tenant. */
+const LEGACY_PARTITION_KEY = "Orders";
+const TENANTS_PARTITION_KEY = "Tenants";
+
+/** Longest `customerIds` list turned into an OData `or` chain; longer ones are filtered in memory. */
+const MAX_PUSHED_CUSTOMER_IDS = 20;
+
+/** Table Storage caps a transaction at 100 actions. */
+const MAX_BATCH_SIZE = 100;
+
+/** How often a counter increment is retried when another writer got there first. */
+const MAX_SEQUENCE_ATTEMPTS = 10;
+
+interface OrderEntity {
+  partitionKey: string;
+  rowKey: string;
+  id: string;
+  /** Absent on rows written before customers had their own table. */
+  customerId?: string;
+  /** Customer name when the order was last written; reads use the customer's current name. */
+  customer: string;
+  amount: number;
+  status: string;
+  date: string;
+  /** JSON-encoded `LineItem[]`; absent on amount-only orders. */
+  lineItems?: string;
+  /** Tombstone flag, kept next to `deletedAt` so the trash can be queried directly. */
+  deleted?: boolean;
+  deletedAt?: string;
+}
+
+interface CustomerEntity {
+  partitionKey: string;
+  rowKey: string;
+  name: string;
+  email?: string;
+  /** JSON-encoded `BillingAddress`. */
+  billingAddress?: string;
+  accountOwner?: string;
+}
+
+interface CounterEntity {
+  partitionKey: string;
+  rowKey: string;
+  value: number;
+}
+
+/** Audit rows are partitioned by tenant and order ID; RowKeys start with the timestamp so they list oldest first. */
+interface AuditEntity {
+  partitionKey: string;
+  rowKey: string;
+  action: string;
+  actor: string;
+  /** Named apart from the `Timestamp` system property. */
+  occurredAt: string;
+  /** JSON-encoded `FieldChange[]`; Table Storage has no array type. */
+  changes: string;
+}
+
+interface SubscriptionEntity {
+  partitionKey: string;
+  rowKey: string;
+  /** JSON-encoded `ConversationReference`. */
+  conversation: string;
+  customerId?: string;
+  status?: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+interface ViewEntity {
+  partitionKey: string;
+  rowKey: string;
+  name: string;
+  /** JSON-encoded `ViewSettings`: filters, sort and columns. */
+  settings: string;
+  ownerId: string;
+  ownerName: string;
+  shared: boolean;
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+function isStatus(err: unknown, ...statusCodes: number[]): boolean {
+  return err instanceof RestError && statusCodes.includes(err.statusCode ?? 0);
+}
+
+/** Waits a little longer on each attempt, with jitter so competing writers spread out. */
+function backoff(attempt: number): Promise<void> {
+  const ms = Math.random() * 20 * 2 ** attempt;
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Translates the parts of `filter` Table Storage can evaluate into an OData
+ * expression. Customer substrings have no OData equivalent, and amounts are
+ * stored as Int32 or Double depending on the value, so neither is pushed down.
+ */
+export function toODataFilter(partitionKey: string, filter: OrderFilter): string | undefined {
+  const clauses = [odata`PartitionKey eq ${partitionKey}`];
+  if (filter.statuses?.length) {
+    clauses.push(`(${filter.statuses.map((s) => odata`status eq ${s}`).join(" or ")})`);
+  }
+  if (filter.customerIds?.length && filter.customerIds.length <= MAX_PUSHED_CUSTOMER_IDS) {
+    clauses.push(`(${filter.customerIds.map((id) => odata`customerId eq ${id}`).join(" or ")})`);
+  }
+  if (filter.idPrefix) {
+    const prefix = filter.idPrefix.toUpperCase();
+    // RowKeys starting with the prefix sort between it and the prefix with its last char bumped
+    const upper = prefix.slice(0, -1) + String.fromCharCode(prefix.charCodeAt(prefix.length - 1) + 1);
+    clauses.push(odata`RowKey ge ${prefix} and RowKey lt ${upper}`);
+  }
+  // Rows written before soft-delete existed have no `deleted` property and would
+  // fail any comparison on it, so only the trash query is pushed down.
+  if (filter.deleted === "only") clauses.push("deleted eq true");
+  if (filter.dateFrom) clauses.push(odata`date ge ${filter.dateFrom}`);
+  if (filter.dateTo) clauses.push(odata`date le ${filter.dateTo}`);
+  return clauses.join(" and ");
+}
+
+/** Order properties `matchesOrderFilter` reads; counting needs no more than these. */
+const FILTER_PROPERTIES = ["rowKey", "customerId", "amount", "status", "date", "deleted", "deletedAt"];
+
+/**
+ * True when `token` is a Table Storage continuation token (base64 JSON of the
+ * next partition and row key) pointing into `partitionKey`.
+ */
+function isContinuationTokenFor(token: string, partitionKey: string): boolean {
+  try {
+    const parsed = JSON.parse(Buffer.from(token, "base64").toString("utf8")) as { nextPartitionKey?: unknown };
+    return parsed.nextPartitionKey === partitionKey;
+  } catch {
+    return false;
+  }
+}
+
+function toEntity(partitionKey: string, order: OrderData): OrderEntity {
+  return {
+    partitionKey,
+    rowKey: order.id,
+    id: order.id,
+    customerId: order.customerId,
+    customer: order.customer,
+    amount: order.amount,
+    status: order.status,
+    date: order.date,
+    ...(order.lineItems?.length ? { lineItems: JSON.stringify(order.lineItems) } : {}),
+    ...(order.deletedAt ? { deleted: true, deletedAt: order.deletedAt } : {}),
+  };
+}
+
+function fromEntity(entity: TableEntityResult<OrderEntity>): Order {
+  return {
+    id: entity.rowKey!,
+    customerId: entity.customerId ?? "",
+    customer: entity.customer,
+    amount: entity.amount,
+    status: entity.status as OrderStatus,
+    date: entity.date,
+    etag: entity.etag,
+    ...(entity.lineItems ? { lineItems: JSON.parse(entity.lineItems) as LineItem[] } : {}),
+    ...(entity.deleted && entity.deletedAt ? { deletedAt: entity.deletedAt } : {}),
+  };
+}
+
+function toCustomerEntity(partitionKey: string, customer: CustomerData): CustomerEntity {
+  return {
+    partitionKey,
+    rowKey: customer.id,
+    name: customer.name,
+    ...(customer.email ? { email: customer.email } : {}),
+    ...(customer.billingAddress ? { billingAddress: JSON.stringify(customer.billingAddress) } : {}),
+    ...(customer.accountOwner ? { accountOwner: customer.accountOwner } : {}),
+  };
+}
+
+function fromCustomerEntity(entity: TableEntityResult<CustomerEntity>): Customer {
+  return {
+    id: entity.rowKey!,
+    name: entity.name,
+    ...(entity.email ? { email: entity.email } : {}),
+    ...(entity.billingAddress ? { billingAddress: JSON.parse(entity.billingAddress) as BillingAddress } : {}),
+    ...(entity.accountOwner ? { accountOwner: entity.accountOwner } : {}),
+    etag: entity.etag,
+  };
+}
+
+/** Table clients shared by every tenant's repository. */
+interface AzureTables {
+  orders: TableClient;
+  customers: TableClient;
+  counters: TableClient;
+  audit: TableClient;
+  subscriptions: TableClient;
+  views: TableClient;
+}
+
+/**
+ * Stores one tenant's orders in Azure Storage (or Azurite) tables. Every row
+ * it reads or writes is in the tenant's partition, so it never sees another
+ * tenant's data.
+ */
+export class AzureTableOrdersRepository implements OrdersRepository {
+  private readonly table: TableClient;
+  private readonly customers: TableClient;
+  private readonly counters: TableClient;
+  private readonly audit: TableClient;
+  private readonly subscriptions: TableClient;
+  private readonly views: TableClient;
+
+  constructor(tables: AzureTables, private readonly partitionKey: string) {
+    this.table = tables.orders;
+    this.customers = tables.customers;
+    this.counters = tables.counters;
+    this.audit = tables.audit;
+    this.subscriptions = tables.subscriptions;
+    this.views = tables.views;
+  }
+
+  /** Audit rows written before tenants existed are keyed by the bare order ID. */
+  private auditPartition(orderId: string): string {
+    return this.partitionKey === LEGACY_PARTITION_KEY ? orderId : `${this.partitionKey}_${orderId}`;
+  }
+
+  async isEmpty(): Promise<boolean> {
+    const iter = this.table.listEntities({
+      queryOptions: { filter: odata`PartitionKey eq ${this.partitionKey}`, select: ["rowKey"] },
+    });
+    const first = await iter.next();
+    return !!first.done;
+  }
+
+  async list(filter: OrderFilter = {}): Promise<Order[]> {
+    const orders: Order[] = [];
+    const entities = this.table.listEntities<OrderEntity>({
+      queryOptions: { filter: toODataFilter(this.partitionKey, filter) },
+    });
+    for await (const entity of entities) {
+      const order = fromEntity(entity);
+      if (matchesOrderFilter(order, filter)) orders.push(order);
+    }
+    return orders;
+  }
+
+  async listPage(filter: OrderFilter, limit: number, continuationToken?: string): Promise<StoragePage> {
+    if (continuationToken && !isContinuationTokenFor(continuationToken, this.partitionKey)) {
+      throw new BadRequestError("Invalid continuation token");
+    }
+    const query = { queryOptions: { filter: toODataFilter(this.partitionKey, filter) } };
+    const items: Order[] = [];
+    let token = continuationToken;
+    // Parts of the filter evaluated here can thin a page out, so keep reading until it is full
+    do {
+      const pages = this.table.listEntities<OrderEntity>(query).byPage({ maxPageSize: limit - items.length, continuationToken: token });
+      const { value: page } = await pages.next();
+      if (!page) break;
+      for (const entity of page) {
+        const order = fromEntity(entity);
+        if (matchesOrderFilter(order, filter)) items.push(order);
+      }
+      token = page.continuationToken;
+    } while (token && items.length < limit);
+    return { items, continuationToken: token };
+  }
+
+  async count(filter: OrderFilter = {}): Promise<number> {
+    const entities = this.table.listEntities<OrderEntity>({
+      queryOptions: { filter: toODataFilter(this.partitionKey, filter), select: FILTER_PROPERTIES },
+    });
+    let count = 0;
+    for await (const entity of entities) {
+      if (matchesOrderFilter(fromEntity(entity), filter)) count++;
+    }
+    return count;
+  }
+
+  async get(id: string): Promise<Order | undefined> {
+    try {
+      return fromEntity(await this.table.getEntity<OrderEntity>(this.partitionKey, id));
+    } catch (err) {
+      if (isStatus(err, 404)) return undefined;
+      throw err;
+    }
+  }
+
+  async insert(order: OrderData): Promise<Order> {
+    try {
+      const { etag } = await this.table.createEntity(toEntity(this.partitionKey, order));
+      return { ...order, etag: etag! };
+    } catch (err) {
+      if (isStatus(err, 409)) {
+        throw new ConflictError(`Order ${order.id} already exists`);
+      }
+      throw err;
+    }
+  }
+
+  async insertMany(orders: OrderData[]): Promise<Order[]> {
+    const stored: Order[] = [];
+    for (let i = 0; i < orders.length; i += MAX_BATCH_SIZE) {
+      const batch = orders.slice(i, i + MAX_BATCH_SIZE);
+      const transaction = new TableTransaction();
+      for (const order of batch) {
+        transaction.createEntity(toEntity(this.partitionKey, order));
+      }
+      try {
+        const res = await this.table.submitTransaction(transaction.actions);
+        const etags = new Map(res.subResponses.map((r) => [r.rowKey, r.etag]));
+        stored.push(...batch.map((order) => ({ ...order, etag: etags.get(order.id)! })));
+      } catch (err) {
+        // a transaction is all or nothing, so one taken ID fails the whole batch
+        if (isStatus(err, 409)) {
+          throw new ConflictError(`One of orders ${batch[0].id}–${batch[batch.length - 1].id} already exists`);
+        }
+        throw err;
+      }
+    }
+    return stored;
+  }
+
+  async replace(order: OrderData, etag?: string): Promise<Order> {
+    try {
+      const res = await this.table.updateEntity(toEntity(this.partitionKey, order), "Replace", { etag: etag ?? "*" });
+      return { ...order, etag: res.etag! };
+    } catch (err) {
+      if (isStatus(err, 404)) {
+        throw new NotFoundError(`Order ${order.id} not found`);
+      }
+      if (isStatus(err, 412)) {
+        throw new PreconditionFailedError(`Order ${order.id} has been modified`);
+      }
+      throw err;
+    }
+  }
+
+  async replaceMany(changes: { order: OrderData; etag: string }[]): Promise<Order[]> {
+    const stored: Order[] = [];
+    for (let i = 0; i < changes.length; i += MAX_BATCH_SIZE) {
+      const batch = changes.slice(i, i + MAX_BATCH_SIZE);
+      const transaction = new TableTransaction();
+      for (const { order, etag } of batch) {
+        transaction.updateEntity(toEntity(this.partitionKey, order), "Replace", { etag });
+      }
+      try {
+        const res = await this.table.submitTransaction(transaction.actions);
+        const etags = new Map(res.subResponses.map((r) => [r.rowKey, r.etag]));
+        stored.push(...batch.map(({ order }) => ({ ...order, etag: etags.get(order.id)! })));
+      } catch (err) {
+        const ids = `${batch[0].order.id}–${batch[batch.length - 1].order.id}`;
+        if (isStatus(err, 412)) throw new PreconditionFailedError(`One of orders ${ids} has been modified`);
+        if (isStatus(err, 404)) throw new NotFoundError(`One of orders ${ids} no longer exists`);
+        throw err;
+      }
+    }
+    return stored;
+  }
+
+  async delete(id: string, etag?: string): Promise<void> {
+    try {
+      await this.table.deleteEntity(this.partitionKey, id, { etag: etag ?? "*" });
+    } catch (err) {
+      if (isStatus(err, 404)) return; // already gone
+      if (isStatus(err, 412)) {
+        throw new PreconditionFailedError(`Order ${id} has been modified`);
+      }
+      throw err;
+    }
+  }
+
+  async listCustomers(): Promise<Customer[]> {
+    const customers: Customer[] = [];
+    const entities = this.customers.listEntities<CustomerEntity>({
+      queryOptions: { filter: odata`PartitionKey eq ${this.partitionKey}` },
+    });
+    for await (const entity of entities) {
+      customers.push(fromCustomerEntity(entity));
+    }
+    return customers;
+  }
+
+  async getCustomer(id: string): Promise<Customer | undefined> {
+    try {
+      return fromCustomerEntity(await this.customers.getEntity<CustomerEntity>(this.partitionKey, id));
+    } catch (err) {
+      if (isStatus(err, 404)) return undefined;
+      throw err;
+    }
+  }
+
+  async insertCustomer(customer: CustomerData): Promise<Customer> {
+    try {
+      const { etag } = await this.customers.createEntity(toCustomerEntity(this.partitionKey, customer));
+      return { ...customer, etag: etag! };
+    } catch (err) {
+      if (isStatus(err, 409)) {
+        throw new ConflictError(`Customer ${customer.id} already exists`);
+      }
+      throw err;
+    }
+  }
+
+  async replaceCustomer(customer: CustomerData, etag?: string): Promise<Customer> {
+    try {
+      const res = await this.customers.updateEntity(toCustomerEntity(this.partitionKey, customer), "Replace", { etag: etag ?? "*" });
+      return { ...customer, etag: res.etag! };
+    } catch (err) {
+      if (isStatus(err, 404)) {
+        throw new NotFoundError(`Customer ${customer.id} not found`);
+      }
+      if (isStatus(err, 412)) {
+        throw new PreconditionFailedError(`Customer ${customer.id} has been modified`);
+      }
+      throw err;
+    }
+  }
+
+  async deleteCustomer(id: string, etag?: string): Promise<void> {
+    try {
+      await this.customers.deleteEntity(this.partitionKey, id, { etag: etag ?? "*" });
+    } catch (err) {
+      if (isStatus(err, 404)) return; // already gone
+      if (isStatus(err, 412)) {
+        throw new PreconditionFailedError(`Customer ${id} has been modified`);
+      }
+      throw err;
+    }
+  }
+
+  async appendAudit(entry: AuditEntry): Promise<void> {
+    await this.audit.createEntity<AuditEntity>({
+      partitionKey: this.auditPartition(entry.orderId),
+      // the UUID keeps two changes in the same millisecond apart
+      rowKey: `${entry.timestamp}_${randomUUID()}`,
+      action: entry.action,
+      actor: entry.actor,
+      occurredAt: entry.timestamp,
+      changes: JSON.stringify(entry.changes),
+    });
+  }
+
+  async appendAuditMany(entries: AuditEntry[]): Promise<void> {
+    // every order has its own audit partition, so the entries can't share a transaction
+    for (const entry of entries) await this.appendAudit(entry);
+  }
+
+  async listAudit(orderId: string): Promise<AuditEntry[]> {
+    const entries: AuditEntry[] = [];
+    const entities = this.audit.listEntities<AuditEntity>({
+      queryOptions: { filter: odata`PartitionKey eq ${this.auditPartition(orderId)}` },
+    });
+    for await (const entity of entities) {
+      entries.push({
+        orderId,
+        action: entity.action as AuditAction,
+        actor: entity.actor,
+        timestamp: entity.occurredAt,
+        changes: JSON.parse(entity.changes) as FieldChange[],
+      });
+    }
+    return entries;
+  }
+
+  async listSubscriptions(): Promise<NotificationSubscription[]> {
+    const subscriptions: NotificationSubscription[] = [];
+    const entities = this.subscriptions.listEntities<SubscriptionEntity>({
+      queryOptions: { filter: odata`PartitionKey eq ${this.partitionKey}` },
+    });
+    for await (const entity of entities) {
+      subscriptions.push({
+        id: entity.rowKey!,
+        conversation: JSON.parse(entity.conversation),
+        ...(entity.customerId ? { customerId: entity.customerId } : {}),
+        ...(entity.status ? { status: entity.status as OrderStatus } : {}),
+        createdBy: entity.createdBy,
+        createdAt: entity.createdAt,
+      });
+    }
+    return subscriptions;
+  }
+
+  async insertSubscription(subscription: NotificationSubscription): Promise<void> {
+    await this.subscriptions.createEntity<SubscriptionEntity>({
+      partitionKey: this.partitionKey,
+      rowKey: subscription.id,
+      conversation: JSON.stringify(subscription.conversation),
+      ...(subscription.customerId ? { customerId: subscription.customerId } : {}),
+      ...(subscription.status ? { status: subscription.status } : {}),
+      createdBy: subscription.createdBy,
+      createdAt: subscription.createdAt,
+    });
+  }
+
+  async deleteSubscription(id: string): Promise<void> {
+    try {
+      await this.subscriptions.deleteEntity(this.partitionKey, id);
+    } catch (err) {
+      if (isStatus(err, 404)) return; // already gone
+      throw err;
+    }
+  }
+
+  async listViews(): Promise<SavedView[]> {
+    const views: SavedView[] = [];
+    const entities = this.views.listEntities<ViewEntity>({
+      queryOptions: { filter: odata`PartitionKey eq ${this.partitionKey}` },
+    });
+    for await (const entity of entities) {
+      const settings = JSON.parse(entity.settings) as ViewSettings;
+      views.push({
+        id: entity.rowKey!,
+        name: entity.name,
+        filters: settings.filters,
+        sort: settings.sort,
+        columns: settings.columns,
+        ownerId: entity.ownerId,
+        ownerName: entity.ownerName,
+        shared: entity.shared,
+        isDefault: entity.isDefault,
+        createdAt: entity.createdAt,
+        updatedAt: entity.updatedAt,
+      });
+    }
+    return views;
+  }
+
+  async saveView(view: SavedView): Promise<void> {
+    const settings: ViewSettings = { filters: view.filters, sort: view.sort, columns: view.columns };
+    await this.views.upsertEntity<ViewEntity>(
+      {
+        partitionKey: this.partitionKey,
+        rowKey: view.id,
+        name: view.name,
+        settings: JSON.stringify(settings),
+        ownerId: view.ownerId,
+        ownerName: view.ownerName,
+        shared: view.shared,
+        isDefault: view.isDefault,
+        createdAt: view.createdAt,
+        updatedAt: view.updatedAt,
+      },
+      "Replace",
+    );
+  }
+
+  async deleteView(id: string): Promise<void> {
+    try {
+      await this.views.deleteEntity(this.partitionKey, id);
+    } catch (err) {
+      if (isStatus(err, 404)) return; // already gone
+      throw err;
+    }
+  }
+
+  async nextSequence(name: string, initial: () => Promise<number>, count = 1): Promise<number> {
+    for (let attempt = 0; attempt < MAX_SEQUENCE_ATTEMPTS; attempt++) {
+      let current: TableEntityResult<CounterEntity> | undefined;
+      try {
+        current = await this.counters.getEntity<CounterEntity>(this.partitionKey, name);
+      } catch (err) {
+        if (!isStatus(err, 404)) throw err;
+      }
+
+      try {
+        if (!current) {
+          const start = await initial();
+          await this.counters.createEntity<CounterEntity>({ partitionKey: this.partitionKey, rowKey: name, value: start + count });
+          return start + 1;
+        }
+        await this.counters.updateEntity<CounterEntity>(
+          { partitionKey: this.partitionKey, rowKey: name, value: current.value + count },
+          "Replace",
+          { etag: current.etag },
+        );
+        return current.value + 1;
+      } catch (err) {
+        // 409: someone created the counter first; 412: someone incremented it first
+        if (!isStatus(err, 409, 412)) throw err;
+        await backoff(attempt);
+      }
+    }
+    throw new ConflictError(`Could not allocate the next ${name} number`);
+  }
+
+  async currentSequence(name: string): Promise<number | undefined> {
+    try {
+      return (await this.counters.getEntity<CounterEntity>(this.partitionKey, name)).value;
+    } catch (err) {
+      if (isStatus(err, 404)) return undefined;
+      throw err;
+    }
+  }
+}
+
+/**
+ * The partition holding `tenantId`'s rows: the tenant ID itself, or the
+ * legacy partition for `legacyTenantId`. No other tenant may use the legacy
+ * partition's name, or it would read the legacy tenant's data.
+ */
+export function tenantPartitionKey(tenantId: string, legacyTenantId?: string): string {
+  if (tenantId === legacyTenantId) return LEGACY_PARTITION_KEY;
+  if (tenantId === LEGACY_PARTITION_KEY) {
+    throw new ForbiddenError(`Tenant ID "${tenantId}" is reserved`);
+  }
+  return tenantId;
+}
+
+/**
+ * One set of Azure tables shared by all tenants, each tenant in its own
+ * partition. `legacyTenantId` names the tenant that owns rows written before
+ * data was split by tenant.
+ */
+export class AzureTableOrdersStore implements OrdersStore {
+  private readonly service: TableServiceClient;
+  private readonly tables: AzureTables;
+  private readonly tenants: TableClient;
+
+  constructor(connectionString: string, private readonly legacyTenantId?: string) {
+    this.service = TableServiceClient.fromConnectionString(connectionString);
+    this.tables = {
+      orders: TableClient.fromConnectionString(connectionString, TABLE_NAME),
+      customers: TableClient.fromConnectionString(connectionString, CUSTOMERS_TABLE_NAME),
+      counters: TableClient.fromConnectionString(connectionString, COUNTERS_TABLE_NAME),
+      audit: TableClient.fromConnectionString(connectionString, AUDIT_TABLE_NAME),
+      subscriptions: TableClient.fromConnectionString(connectionString, SUBSCRIPTIONS_TABLE_NAME),
+      views: TableClient.fromConnectionString(connectionString, VIEWS_TABLE_NAME),
+    };
+    this.tenants = TableClient.fromConnectionString(connectionString, TENANTS_TABLE_NAME);
+  }
+
+  async init(): Promise<void> {
+    for (const name of [TABLE_NAME, CUSTOMERS_TABLE_NAME, COUNTERS_TABLE_NAME, AUDIT_TABLE_NAME, TENANTS_TABLE_NAME, SUBSCRIPTIONS_TABLE_NAME, VIEWS_TABLE_NAME]) {
+      await this.service.createTable(name).catch(() => { /* already exists */ });
+    }
+  }
+
+  forTenant(tenantId: string): OrdersRepository {
+    return new AzureTableOrdersRepository(this.tables, tenantPartitionKey(tenantId, this.legacyTenantId));
+  }
+
+  async addTenant(tenantId: string): Promise<void> {
+    await this.tenants.upsertEntity({ partitionKey: TENANTS_PARTITION_KEY, rowKey: tenantId }, "Replace");
+  }
+
+  async listTenants(): Promise<string[]> {
+    const tenantIds: string[] = [];
+    const entities = this.tenants.listEntities({
+      queryOptions: { filter: odata`PartitionKey eq ${TENANTS_PARTITION_KEY}`, select: ["rowKey"] },
+    });
+    for await (const entity of entities) tenantIds.push(entity.rowKey!);
+    return tenantIds;
+  }
+}
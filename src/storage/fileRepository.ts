@@ -0,0 +1,231 @@
+import fs from "fs/promises";
+import path from "path";
+
+import type { Customer, CustomerData } from "../customersService.js";
+import type { AuditEntry } from "../orderAudit.js";
+import type { NotificationSubscription } from "../orderNotifications.js";
+import type { Order, OrderData } from "../ordersService.js";
+import type { SavedView } from "../savedViews.js";
+import { MemoryOrdersRepository } from "./memoryRepository.js";
+import type { OrdersRepository, OrdersStore } from "./ordersRepository.js";
+
+/** One tenant's data as saved in the file. */
+interface TenantContents {
+  orders: Order[];
+  customers?: Customer[];
+  counters: Record<string, number>;
+  /** Audit trails keyed by order ID. */
+  audit?: Record<string, AuditEntry[]>;
+  subscriptions?: NotificationSubscription[];
+  views?: SavedView[];
+}
+
+/**
+ * The whole file: data per tenant, plus the single order book of files
+ * written before data was split by tenant, until a tenant adopts it.
+ */
+interface FileContents extends Partial<TenantContents> {
+  tenants?: Record<string, TenantContents>;
+}
+
+/** One tenant's orders, kept in memory; every change asks the store to save the file. */
+class FileOrdersRepository extends MemoryOrdersRepository {
+  constructor(private readonly flush: () => Promise<void>) {
+    super();
+  }
+
+  load(contents: TenantContents): void {
+    for (const order of contents.orders) {
+      this.orders.set(order.id, order);
+    }
+    for (const customer of contents.customers ?? []) {
+      this.customers.set(customer.id, customer);
+    }
+    for (const [name, value] of Object.entries(contents.counters)) {
+      this.counters.set(name, value);
+    }
+    for (const [orderId, entries] of Object.entries(contents.audit ?? {})) {
+      this.audit.set(orderId, entries);
+    }
+    for (const subscription of contents.subscriptions ?? []) {
+      this.subscriptions.set(subscription.id, subscription);
+    }
+    for (const view of contents.views ?? []) {
+      this.views.set(view.id, view);
+    }
+  }
+
+  snapshot(): TenantContents {
+    return {
+      orders: Array.from(this.orders.values()),
+      customers: Array.from(this.customers.values()),
+      counters: Object.fromEntries(this.counters),
+      audit: Object.fromEntries(this.audit),
+      subscriptions: Array.from(this.subscriptions.values()),
+      views: Array.from(this.views.values()),
+    };
+  }
+
+  async insert(order: OrderData): Promise<Order> {
+    const stored = await super.insert(order);
+    await this.flush();
+    return stored;
+  }
+
+  async insertMany(orders: OrderData[]): Promise<Order[]> {
+    const stored = await super.insertMany(orders);
+    await this.flush();
+    return stored;
+  }
+
+  async replace(order: OrderData, etag?: string): Promise<Order> {
+    const stored = await super.replace(order, etag);
+    await this.flush();
+    return stored;
+  }
+
+  async replaceMany(changes: { order: OrderData; etag: string }[]): Promise<Order[]> {
+    const stored = await super.replaceMany(changes);
+    await this.flush();
+    return stored;
+  }
+
+  async delete(id: string, etag?: string): Promise<void> {
+    await super.delete(id, etag);
+    await this.flush();
+  }
+
+  async insertCustomer(customer: CustomerData): Promise<Customer> {
+    const stored = await super.insertCustomer(customer);
+    await this.flush();
+    return stored;
+  }
+
+  async replaceCustomer(customer: CustomerData, etag?: string): Promise<Customer> {
+    const stored = await super.replaceCustomer(customer, etag);
+    await this.flush();
+    return stored;
+  }
+
+  async deleteCustomer(id: string, etag?: string): Promise<void> {
+    await super.deleteCustomer(id, etag);
+    await this.flush();
+  }
+
+  async appendAudit(entry: AuditEntry): Promise<void> {
+    await super.appendAudit(entry);
+    await this.flush();
+  }
+
+  async appendAuditMany(entries: AuditEntry[]): Promise<void> {
+    for (const entry of entries) await super.appendAudit(entry);
+    await this.flush();
+  }
+
+  async insertSubscription(subscription: NotificationSubscription): Promise<void> {
+    await super.insertSubscription(subscription);
+    await this.flush();
+  }
+
+  async deleteSubscription(id: string): Promise<void> {
+    await super.deleteSubscription(id);
+    await this.flush();
+  }
+
+  async saveView(view: SavedView): Promise<void> {
+    await super.saveView(view);
+    await this.flush();
+  }
+
+  async deleteView(id: string): Promise<void> {
+    await super.deleteView(id);
+    await this.flush();
+  }
+
+  async nextSequence(name: string, initial: () => Promise<number>, count = 1): Promise<number> {
+    const value = await super.nextSequence(name, initial, count);
+    await this.flush();
+    return value;
+  }
+}
+
+/**
+ * Keeps every tenant's orders in memory and mirrors every change to one JSON
+ * file, so local data survives restarts without needing Azurite.
+ * `legacyTenantId` names the tenant that adopts a file written before data
+ * was split by tenant.
+ */
+export class FileOrdersStore implements OrdersStore {
+  private readonly tenants = new Map<string, FileOrdersRepository>();
+  /** Pre-tenant order book nobody has adopted yet; written back unchanged. */
+  private legacy: TenantContents | undefined;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string, private readonly legacyTenantId?: string) {}
+
+  async init(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return; // first run
+      throw err;
+    }
+    const parsed = JSON.parse(raw) as FileContents | Order[];
+    // early versions stored a bare array of orders
+    const contents: FileContents = Array.isArray(parsed) ? { orders: parsed, counters: {} } : parsed;
+    this.tenants.clear();
+    for (const [tenantId, tenant] of Object.entries(contents.tenants ?? {})) {
+      this.repository(tenantId).load(tenant);
+    }
+
+    const { tenants: _, ...legacy } = contents;
+    this.legacy = legacy.orders ? { ...legacy, orders: legacy.orders, counters: legacy.counters ?? {} } : undefined;
+    if (this.legacy && this.legacyTenantId && !this.tenants.has(this.legacyTenantId)) {
+      this.repository(this.legacyTenantId).load(this.legacy);
+      this.legacy = undefined;
+      await this.flush();
+    }
+  }
+
+  forTenant(tenantId: string): OrdersRepository {
+    return this.repository(tenantId);
+  }
+
+  async addTenant(tenantId: string): Promise<void> {
+    if (this.tenants.has(tenantId)) return;
+    this.repository(tenantId);
+    await this.flush();
+  }
+
+  async listTenants(): Promise<string[]> {
+    return Array.from(this.tenants.keys());
+  }
+
+  private repository(tenantId: string): FileOrdersRepository {
+    let repo = this.tenants.get(tenantId);
+    if (!repo) {
+      repo = new FileOrdersRepository(() => this.flush());
+      this.tenants.set(tenantId, repo);
+    }
+    return repo;
+  }
+
+  /** Writes the current snapshot to disk. Writes are queued so they never interleave. */
+  private flush(): Promise<void> {
+    const contents: FileContents = {
+      ...this.legacy,
+      tenants: Object.fromEntries(Array.from(this.tenants, ([tenantId, repo]) => [tenantId, repo.snapshot()])),
+    };
+    const snapshot = JSON.stringify(contents, null, 2);
+    this.pendingWrite = this.pendingWrite
+      .catch(() => { /* a failed write must not block later ones */ })
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmp = `${this.filePath}.tmp`;
+        await fs.writeFile(tmp, snapshot, "utf8");
+        await fs.rename(tmp, this.filePath);
+      });
+    return this.pendingWrite;
+  }
+}
@@ -0,0 +1,45 @@
+import { AzureTableOrdersStore } from "./azureTableRepository.js";
+import { FileOrdersStore } from "./fileRepository.js";
+import { MemoryOrdersStore } from "./memoryRepository.js";
+import type { OrdersStore } from "./ordersRepository.js";
+
+export type { OrderFilter } from "./orderFilter.js";
+export type { OrdersRepository, OrdersStore } from "./ordersRepository.js";
+
+export type StorageKind = "azure" | "memory" | "file";
+
+export interface StorageConfig {
+  kind: StorageKind;
+  /** Connection string for the `azure` backend. */
+  connectionString: string;
+  /** JSON file path for the `file` backend. */
+  filePath: string;
+  /** Tenant that takes over data stored before it was split by tenant; unset leaves that data alone. */
+  legacyTenantId?: string;
+}
+
+/** Reads the storage configuration from the environment. */
+export function storageConfigFromEnv(env: NodeJS.ProcessEnv = process.env): StorageConfig {
+  const kind = (env.ORDERS_STORAGE ?? "azure").toLowerCase();
+  if (kind !== "azure" && kind !== "memory" && kind !== "file") {
+    throw new Error(`Unknown ORDERS_STORAGE "${kind}" (expected azure, memory or file)`);
+  }
+  return {
+    kind,
+    connectionString: env.AZURE_STORAGE_CONNECTION_STRING ?? "UseDevelopmentStorage=true",
+    filePath: env.ORDERS_FILE ?? ".data/orders.json",
+    ...(env.ORDERS_LEGACY_TENANT_ID ? { legacyTenantId: env.ORDERS_LEGACY_TENANT_ID } : {}),
+  };
+}
+
+/** Creates the orders store selected by `config.kind`. */
+export function createOrdersStore(config: StorageConfig): OrdersStore {
+  switch (config.kind) {
+    case "azure":
+      return new AzureTableOrdersStore(config.connectionString, config.legacyTenantId);
+    case "memory":
+      return new MemoryOrdersStore();
+    case "file":
+      return new FileOrdersStore(config.filePath, config.legacyTenantId);
+  }
+}
@@ -0,0 +1,250 @@
+import { randomUUID } from "crypto";
+
+import type { Customer, CustomerData } from "../customersService.js";
+import { BadRequestError, ConflictError, NotFoundError, PreconditionFailedError } from "../errors.js";
+import type { AuditEntry } from "../orderAudit.js";
+import type { NotificationSubscription } from "../orderNotifications.js";
+import type { Order, OrderData } from "../ordersService.js";
+import type { SavedView } from "../savedViews.js";
+import { matchesOrderFilter, type OrderFilter } from "./orderFilter.js";
+import type { OrdersRepository, OrdersStore, StoragePage } from "./ordersRepository.js";
+
+function newETag(): string {
+  return `W/"${randomUUID()}"`;
+}
+
+/** Orders IDs the way Table Storage orders row keys: by UTF-16 code unit. */
+function compareKeys(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/** Continuation tokens carry the last ID of the page they follow. */
+function decodeKeyToken(token: string): string {
+  const id = Buffer.from(token, "base64url").toString("utf8");
+  if (!/^ORD-\d+$/.test(id)) throw new BadRequestError("Invalid continuation token");
+  return id;
+}
+
+/** Keeps one tenant's orders in process memory. Everything is lost on restart. */
+export class MemoryOrdersRepository implements OrdersRepository {
+  protected readonly orders = new Map<string, Order>();
+  protected readonly customers = new Map<string, Customer>();
+  protected readonly counters = new Map<string, number>();
+  protected readonly audit = new Map<string, AuditEntry[]>();
+  protected readonly subscriptions = new Map<string, NotificationSubscription>();
+  protected readonly views = new Map<string, SavedView>();
+
+  async isEmpty(): Promise<boolean> {
+    return this.orders.size === 0;
+  }
+
+  async list(filter: OrderFilter = {}): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .filter((o) => matchesOrderFilter(o, filter))
+      .map((o) => ({ ...o }));
+  }
+
+  async listPage(filter: OrderFilter, limit: number, continuationToken?: string): Promise<StoragePage> {
+    const after = continuationToken ? decodeKeyToken(continuationToken) : undefined;
+    const matching = Array.from(this.orders.values())
+      .filter((o) => (after === undefined || compareKeys(o.id, after) > 0) && matchesOrderFilter(o, filter))
+      .sort((a, b) => compareKeys(a.id, b.id));
+    const items = matching.slice(0, limit).map((o) => ({ ...o }));
+    return {
+      items,
+      continuationToken: matching.length > limit ? Buffer.from(items[items.length - 1].id).toString("base64url") : undefined,
+    };
+  }
+
+  async count(filter: OrderFilter = {}): Promise<number> {
+    let count = 0;
+    for (const order of this.orders.values()) {
+      if (matchesOrderFilter(order, filter)) count++;
+    }
+    return count;
+  }
+
+  async get(id: string): Promise<Order | undefined> {
+    const order = this.orders.get(id);
+    return order ? { ...order } : undefined;
+  }
+
+  async insert(order: OrderData): Promise<Order> {
+    if (this.orders.has(order.id)) {
+      throw new ConflictError(`Order ${order.id} already exists`);
+    }
+    const stored = { ...order, etag: newETag() };
+    this.orders.set(order.id, stored);
+    return { ...stored };
+  }
+
+  async insertMany(orders: OrderData[]): Promise<Order[]> {
+    for (const order of orders) {
+      if (this.orders.has(order.id)) {
+        throw new ConflictError(`Order ${order.id} already exists`);
+      }
+    }
+    return orders.map((order) => {
+      const stored = { ...order, etag: newETag() };
+      this.orders.set(order.id, stored);
+      return { ...stored };
+    });
+  }
+
+  async replace(order: OrderData, etag?: string): Promise<Order> {
+    const existing = this.orders.get(order.id);
+    if (!existing) {
+      throw new NotFoundError(`Order ${order.id} not found`);
+    }
+    if (etag && etag !== "*" && etag !== existing.etag) {
+      throw new PreconditionFailedError(`Order ${order.id} has been modified`);
+    }
+    const stored = { ...order, etag: newETag() };
+    this.orders.set(order.id, stored);
+    return { ...stored };
+  }
+
+  async replaceMany(changes: { order: OrderData; etag: string }[]): Promise<Order[]> {
+    // check every order before writing any, so the batch is all or nothing
+    for (const { order, etag } of changes) {
+      const existing = this.orders.get(order.id);
+      if (!existing) {
+        throw new NotFoundError(`Order ${order.id} not found`);
+      }
+      if (etag !== existing.etag) {
+        throw new PreconditionFailedError(`Order ${order.id} has been modified`);
+      }
+    }
+    return changes.map(({ order }) => {
+      const stored = { ...order, etag: newETag() };
+      this.orders.set(order.id, stored);
+      return { ...stored };
+    });
+  }
+
+  async delete(id: string, etag?: string): Promise<void> {
+    const existing = this.orders.get(id);
+    if (!existing) return; // already gone
+    if (etag && etag !== "*" && etag !== existing.etag) {
+      throw new PreconditionFailedError(`Order ${id} has been modified`);
+    }
+    this.orders.delete(id);
+  }
+
+  async listCustomers(): Promise<Customer[]> {
+    return Array.from(this.customers.values()).map((c) => structuredClone(c));
+  }
+
+  async getCustomer(id: string): Promise<Customer | undefined> {
+    const customer = this.customers.get(id);
+    return customer ? structuredClone(customer) : undefined;
+  }
+
+  async insertCustomer(customer: CustomerData): Promise<Customer> {
+    if (this.customers.has(customer.id)) {
+      throw new ConflictError(`Customer ${customer.id} already exists`);
+    }
+    const stored = { ...structuredClone(customer), etag: newETag() };
+    this.customers.set(customer.id, stored);
+    return structuredClone(stored);
+  }
+
+  async replaceCustomer(customer: CustomerData, etag?: string): Promise<Customer> {
+    const existing = this.customers.get(customer.id);
+    if (!existing) {
+      throw new NotFoundError(`Customer ${customer.id} not found`);
+    }
+    if (etag && etag !== "*" && etag !== existing.etag) {
+      throw new PreconditionFailedError(`Customer ${customer.id} has been modified`);
+    }
+    const stored = { ...structuredClone(customer), etag: newETag() };
+    this.customers.set(customer.id, stored);
+    return structuredClone(stored);
+  }
+
+  async deleteCustomer(id: string, etag?: string): Promise<void> {
+    const existing = this.customers.get(id);
+    if (!existing) return; // already gone
+    if (etag && etag !== "*" && etag !== existing.etag) {
+      throw new PreconditionFailedError(`Customer ${id} has been modified`);
+    }
+    this.customers.delete(id);
+  }
+
+  async appendAudit(entry: AuditEntry): Promise<void> {
+    const entries = this.audit.get(entry.orderId) ?? [];
+    entries.push(structuredClone(entry));
+    this.audit.set(entry.orderId, entries);
+  }
+
+  async appendAuditMany(entries: AuditEntry[]): Promise<void> {
+    for (const entry of entries) await this.appendAudit(entry);
+  }
+
+  async listAudit(orderId: string): Promise<AuditEntry[]> {
+    return structuredClone(this.audit.get(orderId) ?? []);
+  }
+
+  async listSubscriptions(): Promise<NotificationSubscription[]> {
+    return Array.from(this.subscriptions.values()).map((s) => structuredClone(s));
+  }
+
+  async insertSubscription(subscription: NotificationSubscription): Promise<void> {
+    this.subscriptions.set(subscription.id, structuredClone(subscription));
+  }
+
+  async deleteSubscription(id: string): Promise<void> {
+    this.subscriptions.delete(id);
+  }
+
+  async listViews(): Promise<SavedView[]> {
+    return Array.from(this.views.values()).map((v) => structuredClone(v));
+  }
+
+  async saveView(view: SavedView): Promise<void> {
+    this.views.set(view.id, structuredClone(view));
+  }
+
+  async deleteView(id: string): Promise<void> {
+    this.views.delete(id);
+  }
+
+  async nextSequence(name: string, initial: () => Promise<number>, count = 1): Promise<number> {
+    if (!this.counters.has(name)) {
+      const start = await initial();
+      // another caller may have initialised the counter while we awaited
+      if (!this.counters.has(name)) this.counters.set(name, start);
+    }
+    const first = this.counters.get(name)! + 1;
+    this.counters.set(name, first + count - 1);
+    return first;
+  }
+
+  async currentSequence(name: string): Promise<number | undefined> {
+    return this.counters.get(name);
+  }
+}
+
+/** Keeps every tenant's orders in process memory, one repository per tenant. */
+export class MemoryOrdersStore implements OrdersStore {
+  private readonly tenants = new Map<string, MemoryOrdersRepository>();
+
+  async init(): Promise<void> { /* nothing to prepare */ }
+
+  forTenant(tenantId: string): OrdersRepository {
+    let repo = this.tenants.get(tenantId);
+    if (!repo) {
+      repo = new MemoryOrdersRepository();
+      this.tenants.set(tenantId, repo);
+    }
+    return repo;
+  }
+
+  async addTenant(tenantId: string): Promise<void> {
+    this.forTenant(tenantId);
+  }
+
+  async listTenants(): Promise<string[]> {
+    return Array.from(this.tenants.keys());
+  }
+}
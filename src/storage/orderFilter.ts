@@ -0,0 +1,38 @@
+import type { Order, OrderStatus } from "../ordersService.js";
+
+/**
+ * Criteria for narrowing the order list. Every field is optional and all given
+ * fields must match. Repositories push as much of this down to the store as it
+ * can evaluate and finish the rest with `matchesOrderFilter`.
+ */
+export interface OrderFilter {
+  /** Any of these statuses. */
+  statuses?: OrderStatus[];
+  /** Any of these customers. */
+  customerIds?: string[];
+  /** Case-insensitive prefix of the order ID, e.g. `ORD-04`. */
+  idPrefix?: string;
+  /** Inclusive `YYYY-MM-DD` bounds. */
+  dateFrom?: string;
+  dateTo?: string;
+  /** Inclusive amount bounds. */
+  minAmount?: number;
+  maxAmount?: number;
+  /** Soft-deleted orders are left out unless asked for; `only` lists the trash. */
+  deleted?: "exclude" | "include" | "only";
+}
+
+/** Evaluates the whole filter in memory. */
+export function matchesOrderFilter(order: Order, filter: OrderFilter): boolean {
+  const deleted = filter.deleted ?? "exclude";
+  if (deleted === "exclude" && order.deletedAt) return false;
+  if (deleted === "only" && !order.deletedAt) return false;
+  if (filter.statuses?.length && !filter.statuses.includes(order.status)) return false;
+  if (filter.customerIds && !filter.customerIds.includes(order.customerId)) return false;
+  if (filter.idPrefix && !order.id.toUpperCase().startsWith(filter.idPrefix.toUpperCase())) return false;
+  if (filter.dateFrom && order.date < filter.dateFrom) return false;
+  if (filter.dateTo && order.date > filter.dateTo) return false;
+  if (filter.minAmount !== undefined && order.amount < filter.minAmount) return false;
+  if (filter.maxAmount !== undefined && order.amount > filter.maxAmount) return false;
+  return true;
+}
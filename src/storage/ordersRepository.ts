@@ -0,0 +1,153 @@
+import type { Customer, CustomerData } from "../customersService.js";
+import type { AuditEntry } from "../orderAudit.js";
+import type { NotificationSubscription } from "../orderNotifications.js";
+import type { Order, OrderData } from "../ordersService.js";
+import type { SavedView } from "../savedViews.js";
+import type { OrderFilter } from "./orderFilter.js";
+
+/** One page of orders read in storage key order. */
+export interface StoragePage {
+  items: Order[];
+  /** Marks where the next page starts; absent once the last matching order has been read. */
+  continuationToken?: string;
+}
+
+/**
+ * Persistence boundary for one tenant's orders and the customers they belong
+ * to. The services hold the business rules (ID allocation, patches, name
+ * lookups) and talk to storage only through this, so a repository handed out
+ * for one tenant is all they can ever reach.
+ */
+export interface OrdersRepository {
+  /** True when the tenant has no orders at all. */
+  isEmpty(): Promise<boolean>;
+
+  /** Returns every stored order matching `filter` (all live orders if omitted), in no particular order. */
+  list(filter?: OrderFilter): Promise<Order[]>;
+
+  /**
+   * Returns up to `limit` orders matching `filter` in storage key order, i.e.
+   * by ID compared as a string, starting after the position `continuationToken`
+   * marks. The token names a key rather than an offset, so orders written or
+   * removed between pages never make rows repeat or go missing. A page may hold
+   * fewer than `limit` orders, even none, and still have a successor. Throws a
+   * `BadRequestError` for a token this repository did not hand out.
+   */
+  listPage(filter: OrderFilter, limit: number, continuationToken?: string): Promise<StoragePage>;
+
+  /** Counts the orders matching `filter` (all live orders if omitted). */
+  count(filter?: OrderFilter): Promise<number>;
+
+  /** Returns the order with the given ID, or `undefined` if there is none. */
+  get(id: string): Promise<Order | undefined>;
+
+  /**
+   * Stores a new order and returns it with its freshly assigned ETag.
+   * Throws a `ConflictError` if an order with the same ID already exists.
+   */
+  insert(order: OrderData): Promise<Order>;
+
+  /**
+   * Stores a batch of new orders, e.g. seed data or an import, and returns them
+   * with their ETags. Throws a `ConflictError` if any of the IDs is taken.
+   */
+  insertMany(orders: OrderData[]): Promise<Order[]>;
+
+  /**
+   * Overwrites an existing order and returns it with its new ETag. When `etag`
+   * is given the write only succeeds if the stored order still carries it;
+   * otherwise a `PreconditionFailedError` is thrown.
+   */
+  replace(order: OrderData, etag?: string): Promise<Order>;
+
+  /**
+   * Overwrites several orders, each only if the stored order still carries the
+   * given ETag, and returns them with their new ETags. Where the store can,
+   * each batch of up to 100 is written atomically; a stale ETag throws a
+   * `PreconditionFailedError` and a missing order a `NotFoundError`.
+   */
+  replaceMany(changes: { order: OrderData; etag: string }[]): Promise<Order[]>;
+
+  /**
+   * Permanently removes an order. With `etag` the delete only happens if the
+   * stored order still carries it, otherwise a `PreconditionFailedError` is thrown.
+   */
+  delete(id: string, etag?: string): Promise<void>;
+
+  /** Returns every customer, in no particular order. */
+  listCustomers(): Promise<Customer[]>;
+
+  /** Returns the customer with the given ID, or `undefined` if there is none. */
+  getCustomer(id: string): Promise<Customer | undefined>;
+
+  /**
+   * Stores a new customer and returns it with its ETag.
+   * Throws a `ConflictError` if a customer with the same ID already exists.
+   */
+  insertCustomer(customer: CustomerData): Promise<Customer>;
+
+  /**
+   * Overwrites an existing customer and returns it with its new ETag. With
+   * `etag` the write only succeeds if the stored customer still carries it,
+   * otherwise a `PreconditionFailedError` is thrown.
+   */
+  replaceCustomer(customer: CustomerData, etag?: string): Promise<Customer>;
+
+  /** Removes a customer, subject to `etag` like `replaceCustomer`. */
+  deleteCustomer(id: string, etag?: string): Promise<void>;
+
+  /** Records a change to an order. Entries are kept apart from the orders and outlive purges. */
+  appendAudit(entry: AuditEntry): Promise<void>;
+
+  /**
+   * Records changes to several orders at once, e.g. after a batch write.
+   * Stores that save a whole file do so once for all of them.
+   */
+  appendAuditMany(entries: AuditEntry[]): Promise<void>;
+
+  /** Returns the audit trail of one order, oldest first. */
+  listAudit(orderId: string): Promise<AuditEntry[]>;
+
+  /** Returns every notification subscription of the tenant, in no particular order. */
+  listSubscriptions(): Promise<NotificationSubscription[]>;
+
+  /** Stores a new notification subscription. */
+  insertSubscription(subscription: NotificationSubscription): Promise<void>;
+
+  /** Removes a notification subscription; removing one that is already gone is not an error. */
+  deleteSubscription(id: string): Promise<void>;
+
+  /** Returns every saved view of the tenant, whoever owns it, in no particular order. */
+  listViews(): Promise<SavedView[]>;
+
+  /** Stores a saved view, replacing the one with the same ID if there is one. */
+  saveView(view: SavedView): Promise<void>;
+
+  /** Removes a saved view; removing one that is already gone is not an error. */
+  deleteView(id: string): Promise<void>;
+
+  /**
+   * Atomically advances the named counter by `count` and returns the first of
+   * the values that reserves. If the counter does not exist yet it starts from
+   * `initial()`, which is only called on that first allocation.
+   */
+  nextSequence(name: string, initial: () => Promise<number>, count?: number): Promise<number>;
+
+  /** The last value the named counter handed out, without advancing it; `undefined` before its first use. */
+  currentSequence(name: string): Promise<number | undefined>;
+}
+
+/** One backing store holding every tenant's data, each tenant kept apart from the others. */
+export interface OrdersStore {
+  /** Prepares the backing store (tables, files, …). Safe to call repeatedly. */
+  init(): Promise<void>;
+
+  /** Returns a repository that only reads and writes `tenantId`'s data. */
+  forTenant(tenantId: string): OrdersRepository;
+
+  /** Records that `tenantId` uses the app, so jobs that visit every tenant (e.g. purging) find it. */
+  addTenant(tenantId: string): Promise<void>;
+
+  /** Every tenant recorded with `addTenant`. */
+  listTenants(): Promise<string[]>;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+
+import { BadRequestError, ValidationError } from "./errors.js";
+import { isoDateSchema, listOrdersQuery, parseReportQuery, parseRequestPart, reportQuery, topCustomersQuery } from "./validation.js";
+
+describe("isoDateSchema", () => {
+  it("accepts a calendar date", () => {
+    expect(isoDateSchema.safeParse("2028-02-29").success).toBe(true);
+  });
+
+  it.each(["2026-13-01", "2026-00-10", "2026-01-00", "2026-01-32", "2026-02-30", "2027-02-29"])("rejects %s without throwing", (date) => {
+    const result = isoDateSchema.safeParse(date);
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toBe("Must be a valid calendar date");
+  });
+
+  it("reports an impossible query date as a bad request", () => {
+    expect(() => parseRequestPart(listOrdersQuery, { dateFrom: "2026-13-01" }, "query")).toThrow(BadRequestError);
+  });
+});
+
+describe("parseReportQuery", () => {
+  it("accepts a range of up to ten years, or one left open", () => {
+    expect(parseReportQuery(reportQuery, { dateFrom: "2016-03-01", dateTo: "2026-03-01" })).toEqual({ dateFrom: "2016-03-01", dateTo: "2026-03-01" });
+    expect(parseReportQuery(topCustomersQuery, { dateFrom: "2000-01-01" })).toEqual({ dateFrom: "2000-01-01", limit: 5 });
+  });
+
+  it("rejects a longer range as unprocessable", () => {
+    let error: unknown;
+    try {
+      parseReportQuery(reportQuery, { dateFrom: "0001-01-01", dateTo: "9999-12-31" });
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).errors).toEqual([{ field: "dateTo", message: "Must be at most 10 years after dateFrom" }]);
+    expect(() => parseReportQuery(topCustomersQuery, { dateFrom: "2016-01-01", dateTo: "2026-01-02" })).toThrow(ValidationError);
+  });
+
+  it("still reports malformed values as a bad request", () => {
+    expect(() => parseReportQuery(reportQuery, { dateFrom: "2026-02-01", dateTo: "2026-01-01" })).toThrow(BadRequestError);
+  });
+});
@@ -0,0 +1,346 @@
+import { z } from "zod";
+
+import type { CustomerSortField } from "./customersService.js";
+import { BadRequestError, ValidationError, type FieldError } from "./errors.js";
+import {
+  ALL_STATUSES,
+  MAX_PAGE_SIZE,
+  type OrderSortField,
+  type OrderStatus,
+} from "./ordersService.js";
+import { MAX_REPORT_YEARS, MAX_TOP_CUSTOMERS } from "./reports.js";
+import { EXPORT_FORMATS } from "./spreadsheetExport.js";
+
+const SORT_FIELDS: [OrderSortField, ...OrderSortField[]] = ["id", "customer", "amount", "status", "date"];
+const CUSTOMER_SORT_FIELDS: CustomerSortField[] = ["name", "accountOwner", "orderCount", "totalAmount", "latestOrderDate"];
+
+export const orderStatusSchema = z.enum(ALL_STATUSES as [OrderStatus, ...OrderStatus[]], {
+  errorMap: () => ({ message: `Must be one of ${ALL_STATUSES.join(", ")}` }),
+});
+
+/** A `YYYY-MM-DD` calendar date that actually exists (no 2026-02-30). */
+export const isoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Must be a YYYY-MM-DD date")
+  .refine((s) => {
+    // months and days out of range make an invalid Date, whose toISOString throws
+    const date = new Date(`${s}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(s);
+  }, "Must be a valid calendar date");
+
+export const orderIdSchema = z.string().regex(/^ORD-\d+$/, "Must look like ORD-123");
+
+export const customerIdSchema = z.string().regex(/^CUST-\d+$/, "Must look like CUST-123");
+
+export const customerNameSchema = z
+  .string({ required_error: "Required", invalid_type_error: "Must be text" })
+  .trim()
+  .min(1, "Must not be empty")
+  .max(200, "Must be at most 200 characters");
+
+export const amountSchema = z
+  .number({ required_error: "Required", invalid_type_error: "Must be a number" })
+  .finite("Must be a finite number")
+  .positive("Must be greater than zero")
+  .max(1_000_000_000, "Must be at most 1,000,000,000");
+
+const profileTextSchema = z
+  .string({ invalid_type_error: "Must be text" })
+  .trim()
+  .min(1, "Must not be empty")
+  .max(200, "Must be at most 200 characters");
+
+export const emailSchema = z.string({ invalid_type_error: "Must be text" }).trim().email("Must be an email address");
+
+export const billingAddressSchema = z.object({
+  street: profileTextSchema,
+  city: profileTextSchema,
+  postalCode: profileTextSchema,
+  country: profileTextSchema,
+}, { invalid_type_error: "Must be an address" }).strict();
+
+export const lineItemSchema = z.object({
+  sku: z.string({ required_error: "Required" }).trim().min(1, "Must not be empty"),
+  quantity: z
+    .number({ required_error: "Required", invalid_type_error: "Must be a number" })
+    .int("Must be a whole number")
+    .min(1, "Must be at least 1")
+    .max(10_000, "Must be at most 10,000"),
+  unitPrice: z
+    .number({ invalid_type_error: "Must be a number" })
+    .finite("Must be a finite number")
+    .nonnegative("Must not be negative")
+    .max(1_000_000_000, "Must be at most 1,000,000,000")
+    .optional(),
+  discountPercent: z
+    .number({ invalid_type_error: "Must be a number" })
+    .min(0, "Must be at least 0")
+    .max(100, "Must be at most 100")
+    .optional(),
+}).strict();
+
+export const lineItemsSchema = z
+  .array(lineItemSchema, { invalid_type_error: "Must be a list of line items" })
+  .min(1, "Add at least one line item")
+  .max(100, "Must have at most 100 line items");
+
+// ── Route bodies ──
+
+export const createOrderBody = z.object({
+  customerId: customerIdSchema,
+  lineItems: lineItemsSchema,
+}).strict();
+
+export const updateOrderBody = z.object({
+  customerId: customerIdSchema,
+  amount: amountSchema,
+  status: orderStatusSchema,
+  date: isoDateSchema,
+  lineItems: lineItemsSchema,
+}).partial().strict().refine((b) => b.amount === undefined || b.lineItems === undefined, {
+  message: "Is computed from the line items; send one or the other",
+  path: ["amount"],
+});
+
+/** Most orders one bulk request may change. */
+export const MAX_BULK_ORDERS = 500;
+
+const bulkOrderIds = z
+  .array(orderIdSchema, { required_error: "Required", invalid_type_error: "Must be a list of order IDs" })
+  .min(1, "Select at least one order")
+  .max(MAX_BULK_ORDERS, `Must have at most ${MAX_BULK_ORDERS} orders`);
+
+export const bulkOrdersBody = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("setStatus"), ids: bulkOrderIds, status: orderStatusSchema }).strict(),
+  z.object({ action: z.literal("reassignCustomer"), ids: bulkOrderIds, customerId: customerIdSchema }).strict(),
+  z.object({ action: z.literal("delete"), ids: bulkOrderIds }).strict(),
+], {
+  errorMap: (issue, ctx) =>
+    issue.code === "invalid_union_discriminator"
+      ? { message: "Must be one of setStatus, reassignCustomer, delete" }
+      : { message: ctx.defaultError },
+});
+
+// Optional profile fields may be sent as null to clear them
+export const createCustomerBody = z.object({
+  name: customerNameSchema,
+  email: emailSchema.nullable().optional(),
+  billingAddress: billingAddressSchema.nullable().optional(),
+  accountOwner: profileTextSchema.nullable().optional(),
+}).strict();
+
+export const updateCustomerBody = createCustomerBody.partial();
+
+const sortDirectionSchema = z.enum(["ascending", "descending"], {
+  errorMap: () => ({ message: "Must be ascending or descending" }),
+});
+
+const orderColumnSchema = z.enum(SORT_FIELDS, {
+  errorMap: () => ({ message: `Must be one of ${SORT_FIELDS.join(", ")}` }),
+});
+
+/** A saved view of the orders table: its name, filters, sort and visible columns. */
+export const createViewBody = z.object({
+  name: z.string({ required_error: "Required", invalid_type_error: "Must be text" })
+    .trim()
+    .min(1, "Must not be empty")
+    .max(100, "Must be at most 100 characters"),
+  filters: z.object({
+    idPrefix: z.string().trim().max(50, "Must be at most 50 characters").optional(),
+    customer: z.string().trim().max(200, "Must be at most 200 characters").optional(),
+    statuses: z.array(orderStatusSchema).optional(),
+  }).strict(),
+  sort: z.object({ field: orderColumnSchema, direction: sortDirectionSchema }).strict(),
+  columns: z
+    .array(orderColumnSchema, { invalid_type_error: "Must be a list of columns" })
+    .min(1, "Must show at least one column")
+    .refine((cols) => new Set(cols).size === cols.length, "Must not repeat a column"),
+  shared: z.boolean({ invalid_type_error: "Must be true or false" }).optional(),
+  isDefault: z.boolean({ invalid_type_error: "Must be true or false" }).optional(),
+}).strict();
+
+export const updateViewBody = createViewBody.partial();
+
+/** Who a development token from `POST /api/auth/local-token` is for; every field has a default. */
+export const localTokenBody = z.object({
+  userId: profileTextSchema.optional(),
+  // tenant IDs become storage partition keys, so keep them to what an Entra tenant ID looks like
+  tenantId: z.string()
+    .regex(/^[A-Za-z0-9-]{1,64}$/, "Must be letters, digits and dashes")
+    .refine((id) => id !== "Orders", "Reserved for data stored before orders were split by tenant")
+    .optional(),
+  name: profileTextSchema.optional(),
+  username: profileTextSchema.optional(),
+  groups: z.array(profileTextSchema, { invalid_type_error: "Must be a list of group IDs" }).max(50).optional(),
+}).strict();
+
+// ── Route parameters ──
+
+export const orderIdParams = z.object({ id: orderIdSchema });
+
+export const customerIdParams = z.object({ id: customerIdSchema });
+
+export const viewIdParams = z.object({ id: z.string().uuid("Must be a view ID") });
+
+/** Query string value that may be repeated (`?a=1&a=2`) or comma-separated (`?a=1,2`). */
+const listParam = z
+  .union([z.string(), z.array(z.string())])
+  .transform((v) => ([] as string[]).concat(v).flatMap((s) => s.split(",")).map((s) => s.trim()).filter(Boolean));
+
+/** Numeric query string value; empty means absent. */
+const numberParam = z
+  .string()
+  .trim()
+  .transform((s) => (s === "" ? undefined : Number(s)))
+  .refine((n) => n === undefined || Number.isFinite(n), "Must be a number");
+
+/** `sort` query value: one of `fields`, prefixed with `-` for descending. */
+function sortParam<F extends string>(fields: F[], defaultField: F) {
+  return z
+    .string()
+    .regex(new RegExp(`^-?(${fields.join("|")})$`), `Must be one of ${fields.join(", ")}, optionally prefixed with -`)
+    .default(defaultField)
+    .transform((s): { field: F; direction: "ascending" | "descending" } => ({
+      field: s.replace(/^-/, "") as F,
+      direction: s.startsWith("-") ? "descending" : "ascending",
+    }));
+}
+
+/** Query parameters of `GET /api/orders`. `sort` is a field name, prefixed with `-` for descending. */
+export const listOrdersQuery = z.object({
+  status: listParam.pipe(z.array(orderStatusSchema)).optional(),
+  customer: z.string().trim().optional(),
+  customerId: listParam.pipe(z.array(customerIdSchema)).optional(),
+  idPrefix: z.string().trim().optional(),
+  dateFrom: isoDateSchema.optional(),
+  dateTo: isoDateSchema.optional(),
+  minAmount: numberParam.optional(),
+  maxAmount: numberParam.optional(),
+  sort: sortParam(SORT_FIELDS, "id"),
+  pageSize: numberParam
+    .refine((n) => n === undefined || (Number.isInteger(n) && n >= 1 && n <= MAX_PAGE_SIZE), `Must be a whole number from 1 to ${MAX_PAGE_SIZE}`)
+    .optional(),
+  continuationToken: z.string().optional(),
+  deleted: z.enum(["exclude", "include", "only"], {
+    errorMap: () => ({ message: "Must be exclude, include or only" }),
+  }).optional(),
+}).refine((q) => !q.dateFrom || !q.dateTo || q.dateFrom <= q.dateTo, {
+  message: "Must not be after dateTo",
+  path: ["dateFrom"],
+}).refine((q) => q.minAmount === undefined || q.maxAmount === undefined || q.minAmount <= q.maxAmount, {
+  message: "Must not be greater than maxAmount",
+  path: ["minAmount"],
+});
+
+/** Name of the CSV column an import field is read from. */
+const columnParam = z.string().trim().min(1, "Must not be empty").max(200, "Must be at most 200 characters").optional();
+
+/**
+ * Query parameters of `POST /api/orders/import`: whether to only validate,
+ * and for each order field the header of the CSV column that holds it.
+ */
+export const importOrdersQuery = z.object({
+  dryRun: z
+    .enum(["true", "false"], { errorMap: () => ({ message: "Must be true or false" }) })
+    .default("false")
+    .transform((v) => v === "true"),
+  reference: columnParam,
+  customer: columnParam,
+  status: columnParam,
+  date: columnParam,
+  sku: columnParam,
+  quantity: columnParam,
+  unitPrice: columnParam,
+  discountPercent: columnParam,
+});
+
+/** Query parameters of `GET /api/customers`. */
+export const listCustomersQuery = z.object({
+  search: z.string().trim().optional(),
+  sort: sortParam(CUSTOMER_SORT_FIELDS, "name"),
+});
+
+const reportRange = z.object({
+  dateFrom: isoDateSchema.optional(),
+  dateTo: isoDateSchema.optional(),
+});
+
+/** Rejects a report range that ends before it starts. */
+function orderedRange<T extends z.ZodTypeAny>(schema: T) {
+  return schema.refine((q: z.infer<typeof reportRange>) => !q.dateFrom || !q.dateTo || q.dateFrom <= q.dateTo, {
+    message: "Must not be before dateFrom",
+    path: ["dateTo"],
+  });
+}
+
+/** Date range shared by the `/api/reports/...` routes. */
+export const reportQuery = orderedRange(reportRange);
+
+export const topCustomersQuery = orderedRange(reportRange.extend({
+  limit: numberParam
+    .refine((n) => n === undefined || (Number.isInteger(n) && n >= 1 && n <= MAX_TOP_CUSTOMERS), `Must be a whole number from 1 to ${MAX_TOP_CUSTOMERS}`)
+    .optional()
+    .transform((n) => n ?? 5),
+}));
+
+/** `format` of the export routes; the other query parameters are the matching list route's. */
+export const exportQuery = z.object({
+  format: z.enum(EXPORT_FORMATS, {
+    errorMap: () => ({ message: `Must be one of ${EXPORT_FORMATS.join(", ")}` }),
+  }).default("csv"),
+});
+
+// ── Bot ──
+
+/** `data` of an order card's `Action.Execute` buttons; `status` is only sent by the status buttons. */
+export const orderCardActionData = z.object({
+  orderId: orderIdSchema,
+  status: orderStatusSchema.optional(),
+});
+
+function toFieldErrors(error: z.ZodError): FieldError[] {
+  return error.issues.map((issue) => ({
+    field: issue.path.join(".") || "(root)",
+    message: issue.message,
+  }));
+}
+
+/** Validates a JSON request body. Unusable values are reported as a 422 with per-field errors. */
+export function parseBody<T extends z.ZodTypeAny>(schema: T, body: unknown): z.output<T> {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new BadRequestError("Request body must be a JSON object");
+  }
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new ValidationError("The request body is invalid", toFieldErrors(result.error));
+  }
+  return result.data;
+}
+
+/** Validates route parameters or the query string. Failures are reported as a 400. */
+export function parseRequestPart<T extends z.ZodTypeAny>(schema: T, value: unknown, part: "params" | "query"): z.output<T> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new BadRequestError(`The request ${part === "params" ? "path" : "query string"} is invalid`, toFieldErrors(result.error));
+  }
+  return result.data;
+}
+
+/**
+ * Validates the query string of a `/api/reports/...` route. Malformed values
+ * are a 400, like any query; a well-formed range spanning more than
+ * MAX_REPORT_YEARS is a 422.
+ */
+export function parseReportQuery<T extends typeof reportQuery | typeof topCustomersQuery>(schema: T, query: unknown): z.output<T> {
+  const parsed: z.output<T> = parseRequestPart(schema, query, "query");
+  const { dateFrom, dateTo } = parsed;
+  if (dateFrom && dateTo) {
+    const latest = `${String(Number(dateFrom.slice(0, 4)) + MAX_REPORT_YEARS).padStart(4, "0")}${dateFrom.slice(4)}`;
+    if (dateTo > latest) {
+      throw new ValidationError("The report range is too long", [
+        { field: "dateTo", message: `Must be at most ${MAX_REPORT_YEARS} years after dateFrom` },
+      ]);
+    }
+  }
+  return parsed;
+}